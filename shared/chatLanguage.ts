@@ -0,0 +1,73 @@
+// Shopper language detection shared by chat-assistant, the TTS edge functions and the browser hooks.
+// Detection is a lightweight function-word vote; short or ambiguous messages keep the previous language.
+
+export type ChatLanguage = 'es' | 'en' | 'pt';
+
+export const DEFAULT_CHAT_LANGUAGE: ChatLanguage = 'es';
+
+export interface LanguageProfile {
+  // Language name as written in the (Spanish) system prompt
+  promptName: string;
+  // Google Cloud TTS voice and browser speechSynthesis locale used to read replies aloud
+  googleVoice: string;
+  browserLocale: string;
+}
+
+export const LANGUAGE_PROFILES: Record<ChatLanguage, LanguageProfile> = {
+  es: { promptName: 'español', googleVoice: 'es-US-Journey-F', browserLocale: 'es-ES' },
+  en: { promptName: 'inglés', googleVoice: 'en-US-Journey-F', browserLocale: 'en-US' },
+  pt: { promptName: 'portugués', googleVoice: 'pt-BR-Neural2-A', browserLocale: 'pt-BR' },
+};
+
+// Frequent words that are specific to one language (shared words like "de", "a" or "no" are left out)
+const FUNCTION_WORDS: Record<ChatLanguage, Set<string>> = {
+  es: new Set([
+    'el', 'la', 'los', 'las', 'y', 'del', 'una', 'por', 'con', 'es', 'está', 'están', 'hay', 'pero', 'como',
+    'qué', 'cuál', 'cuáles', 'cuánto', 'cuesta', 'tienen', 'tienes', 'quiero', 'busco', 'necesito', 'muy', 'más',
+    'baratos', 'precio', 'hola', 'gracias', 'algo', 'tengo', 'dónde', 'puedes', 'muéstrame', 'cuántos',
+  ]),
+  en: new Set([
+    'the', 'and', 'is', 'are', 'of', 'to', 'for', 'with', 'what', 'which', 'does', 'you', 'have', 'i', 'want',
+    'looking', 'need', 'cheap', 'cheapest', 'price', 'how', 'much', 'show', 'my', 'under', 'best', 'can', 'please',
+    'hello', 'hi', 'thanks', 'any', 'something', 'it', 'this', 'that', 'between', 'less', 'than',
+  ]),
+  pt: new Set([
+    'os', 'um', 'uma', 'da', 'dos', 'das', 'em', 'na', 'com', 'não', 'você', 'vocês', 'tem', 'têm',
+    'quero', 'procuro', 'preciso', 'preço', 'quanto', 'custa', 'mais', 'são', 'qual', 'quais', 'olá',
+    'obrigado', 'obrigada', 'algum', 'alguma', 'mostre', 'mostra', 'tenho', 'onde', 'pode', 'muito', 'quantos',
+  ]),
+};
+
+// Characters that only one of the languages uses
+const CHARACTER_HINTS: Array<{ language: ChatLanguage; pattern: RegExp }> = [
+  { language: 'es', pattern: /[ñ¿¡]/ },
+  { language: 'pt', pattern: /[ãõç]|ção\b|ções\b/ },
+];
+
+export function isChatLanguage(value: unknown): value is ChatLanguage {
+  return typeof value === 'string' && value in LANGUAGE_PROFILES;
+}
+
+/**
+ * Language of a shopper message. Returns `fallback` when the message has no clear winner
+ * ("ok", "el segundo", a product name) so the conversation does not flip languages.
+ */
+export function detectChatLanguage(text: string, fallback: ChatLanguage = DEFAULT_CHAT_LANGUAGE): ChatLanguage {
+  const lower = (text || '').toLowerCase();
+  const scores: Record<ChatLanguage, number> = { es: 0, en: 0, pt: 0 };
+
+  for (const token of lower.split(/[^\p{L}]+/u)) {
+    if (!token) continue;
+    for (const language of Object.keys(FUNCTION_WORDS) as ChatLanguage[]) {
+      if (FUNCTION_WORDS[language].has(token)) scores[language]++;
+    }
+  }
+  for (const { language, pattern } of CHARACTER_HINTS) {
+    if (pattern.test(lower)) scores[language] += 2;
+  }
+
+  const ranked = (Object.keys(scores) as ChatLanguage[]).sort((a, b) => scores[b] - scores[a]);
+  const [best, runnerUp] = ranked;
+  if (scores[best] === 0 || scores[best] === scores[runnerUp]) return fallback;
+  return best;
+}
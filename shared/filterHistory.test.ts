@@ -0,0 +1,70 @@
+import { assertEquals } from 'https://deno.land/std@0.168.0/testing/asserts.ts';
+import {
+  FILTER_HISTORY_LIMITS,
+  INITIAL_FILTER_HISTORY,
+  applyAssistantFilters,
+  describeFilters,
+  describeHistoryEntry,
+  goToFilterHistory,
+  pushFilterHistory,
+  redoFilterHistory,
+  undoFilterHistory,
+  type FilterHistoryState,
+} from './filterHistory.ts';
+import type { ProductFilters } from './productFilters.ts';
+
+const historyOf = (...steps: ProductFilters[]): FilterHistoryState =>
+  steps.reduce((state, filters) => pushFilterHistory(state, filters, 'shopper'), INITIAL_FILTER_HISTORY);
+
+Deno.test('undo stops at the initial entry and redo at the newest', () => {
+  const history = historyOf({ categoria: 'Audio' }, { categoria: 'Audio', precioMax: 500 });
+  assertEquals(redoFilterHistory(history), history);
+
+  const first = undoFilterHistory(undoFilterHistory(history));
+  assertEquals(first.index, 0);
+  assertEquals(undoFilterHistory(first), first);
+  assertEquals(redoFilterHistory(redoFilterHistory(first)).index, 2);
+  assertEquals(goToFilterHistory(history, 3), history);
+  assertEquals(goToFilterHistory(history, -1), history);
+});
+
+Deno.test('a change after undo drops the entries that could be redone', () => {
+  const undone = undoFilterHistory(historyOf({ categoria: 'Audio' }, { categoria: 'Televisores' }));
+  const changed = pushFilterHistory(undone, { categoria: 'Smartphones' }, 'assistant');
+  assertEquals(changed.entries.map(e => e.filters.categoria), [undefined, 'Audio', 'Smartphones']);
+  assertEquals(changed.index, 2);
+  assertEquals(redoFilterHistory(changed), changed);
+});
+
+Deno.test('the history keeps the newest MAX_ENTRIES entries', () => {
+  const steps = Array.from({ length: FILTER_HISTORY_LIMITS.MAX_ENTRIES + 5 }, (_, i) => ({ precioMax: i + 1 }));
+  const history = historyOf(...steps);
+  assertEquals(history.entries.length, FILTER_HISTORY_LIMITS.MAX_ENTRIES);
+  assertEquals(history.index, FILTER_HISTORY_LIMITS.MAX_ENTRIES - 1);
+  assertEquals(history.entries[0].filters, { precioMax: 6 });
+});
+
+Deno.test('filters equal to the current entry are not pushed', () => {
+  const history = historyOf({ categorias: ['Televisores', 'Audio'], sort: 'price_asc' });
+  assertEquals(pushFilterHistory(history, { categorias: ['Audio', 'Televisores', 'Audio'], sort: 'price_asc', searchTerm: ' ' }, 'url'), history);
+  // The default sort is the same as no sort
+  assertEquals(pushFilterHistory(INITIAL_FILTER_HISTORY, { sort: 'relevance' }, 'shopper'), INITIAL_FILTER_HISTORY);
+});
+
+Deno.test('assistant filters merge into the grid, and a suggested category replaces ticked ones', () => {
+  const current: ProductFilters = { categorias: ['Audio', 'Televisores'], precioMax: 500, sort: 'name' };
+  assertEquals(applyAssistantFilters(current, { precioMax: 300 }, 'merge'), { categorias: ['Audio', 'Televisores'], precioMax: 300, sort: 'name' });
+  assertEquals(applyAssistantFilters(current, { categoria: 'Smartphones' }, 'merge'), { categoria: 'Smartphones', precioMax: 500, sort: 'name' });
+  assertEquals(applyAssistantFilters(current, { categoria: 'Smartphones' }, 'replace'), { categoria: 'Smartphones' });
+});
+
+Deno.test('breadcrumb labels', () => {
+  assertEquals(describeFilters({}), 'Todos los productos');
+  assertEquals(describeFilters({ precioMin: 99.5 }), '> $99.50');
+  assertEquals(describeFilters({ searchTerm: 'sony', precioMin: 100, precioMax: 300 }), '"sony" · $100 - $300');
+  // The single category comes first and is not repeated
+  assertEquals(describeFilters({ categoria: 'Audio', categorias: ['Smartphones', 'Audio'], precioMax: 500 }), 'Audio, Smartphones < $500');
+  assertEquals(describeFilters({ soloEnStock: true, sort: 'price_asc' }), 'en stock · precio: menor a mayor');
+  assertEquals(describeHistoryEntry({ filters: { categoria: 'Audio' }, source: 'assistant' }), 'Asistente: Audio');
+  assertEquals(describeHistoryEntry(INITIAL_FILTER_HISTORY.entries[0]), 'Todos los productos');
+});
@@ -0,0 +1,125 @@
+import { DEFAULT_PRODUCT_SORT, PRODUCT_SORT_LABELS, isProductSort, type ProductFilters } from './productFilters.ts';
+
+// Who changed the grid filters; shown as the prefix of each breadcrumb chip
+export type FilterSource = 'initial' | 'shopper' | 'assistant' | 'session' | 'url';
+
+// How filters suggested by the assistant combine with the ones already on the grid:
+// 'merge' only overrides the fields the assistant set, 'replace' discards the rest
+export type AssistantFilterMode = 'merge' | 'replace';
+
+export interface FilterHistoryEntry {
+  filters: ProductFilters;
+  source: FilterSource;
+}
+
+export const FILTER_HISTORY_LIMITS = {
+  MAX_ENTRIES: 20,
+} as const;
+
+export const DEFAULT_ASSISTANT_FILTER_MODE: AssistantFilterMode = 'merge';
+
+const SOURCE_LABELS: Record<FilterSource, string | null> = {
+  initial: null,
+  shopper: 'Tú',
+  assistant: 'Asistente',
+  session: 'Sesión',
+  url: 'Enlace',
+};
+
+const formatAmount = (amount: number) => `$${Number.isInteger(amount) ? amount : amount.toFixed(2)}`;
+
+// Drops empty fields so {} and { categoria: undefined } compare and render the same
+export const normalizeFilters = (filters: ProductFilters): ProductFilters => {
+  const normalized: ProductFilters = {};
+  if (filters.categoria) normalized.categoria = filters.categoria;
+  if (filters.categorias?.length) normalized.categorias = [...new Set(filters.categorias)].sort();
+  if (typeof filters.precioMin === 'number') normalized.precioMin = filters.precioMin;
+  if (typeof filters.precioMax === 'number') normalized.precioMax = filters.precioMax;
+  if (filters.searchTerm?.trim()) normalized.searchTerm = filters.searchTerm.trim();
+  if (filters.soloEnStock) normalized.soloEnStock = true;
+  if (isProductSort(filters.sort) && filters.sort !== DEFAULT_PRODUCT_SORT) normalized.sort = filters.sort;
+  return normalized;
+};
+
+export const filtersEqual = (a: ProductFilters, b: ProductFilters) =>
+  JSON.stringify(normalizeFilters(a)) === JSON.stringify(normalizeFilters(b));
+
+// Filters applied to the grid, oldest first; entries after `index` can be redone
+export interface FilterHistoryState {
+  entries: FilterHistoryEntry[];
+  index: number;
+}
+
+export const INITIAL_FILTER_HISTORY: FilterHistoryState = {
+  entries: [{ filters: {}, source: 'initial' }],
+  index: 0,
+};
+
+export const pushFilterHistory = (
+  state: FilterHistoryState,
+  filters: ProductFilters,
+  source: FilterSource
+): FilterHistoryState => {
+  const current = state.entries[state.index];
+  if (filtersEqual(current.filters, filters)) return state;
+
+  // A new change drops the redo branch, like an editor
+  const entries = [...state.entries.slice(0, state.index + 1), { filters: normalizeFilters(filters), source }]
+    .slice(-FILTER_HISTORY_LIMITS.MAX_ENTRIES);
+  return { entries, index: entries.length - 1 };
+};
+
+export const goToFilterHistory = (state: FilterHistoryState, index: number): FilterHistoryState =>
+  index >= 0 && index < state.entries.length ? { ...state, index } : state;
+
+export const undoFilterHistory = (state: FilterHistoryState) => goToFilterHistory(state, state.index - 1);
+
+export const redoFilterHistory = (state: FilterHistoryState) => goToFilterHistory(state, state.index + 1);
+
+export const applyAssistantFilters = (
+  current: ProductFilters,
+  suggested: ProductFilters,
+  mode: AssistantFilterMode
+): ProductFilters => {
+  if (mode === 'replace') return normalizeFilters(suggested);
+  const merged = { ...normalizeFilters(current), ...normalizeFilters(suggested) };
+  // The assistant picks a single category; categories ticked in the sidebar would otherwise exclude it
+  if (suggested.categoria) delete merged.categorias;
+  return normalizeFilters(merged);
+};
+
+/**
+ * Short human description of a filter set, e.g. "Televisores < $500" or "\"sony\" · $100 - $300"
+ */
+export const describeFilters = (filters: ProductFilters): string => {
+  const { categoria, categorias, precioMin, precioMax, searchTerm, soloEnStock, sort } = normalizeFilters(filters);
+  const parts: string[] = [];
+
+  if (searchTerm) parts.push(`"${searchTerm}"`);
+
+  let price: string | null = null;
+  if (precioMin !== undefined && precioMax !== undefined) {
+    price = `${formatAmount(precioMin)} - ${formatAmount(precioMax)}`;
+  } else if (precioMax !== undefined) {
+    price = `< ${formatAmount(precioMax)}`;
+  } else if (precioMin !== undefined) {
+    price = `> ${formatAmount(precioMin)}`;
+  }
+
+  const categories = categoria ? [categoria, ...(categorias || []).filter(c => c !== categoria)] : categorias || [];
+  if (categories.length > 0) {
+    const label = categories.join(', ');
+    parts.unshift(price ? `${label} ${price}` : label);
+  } else if (price) {
+    parts.push(price);
+  }
+  if (soloEnStock) parts.push('en stock');
+
+  const description = parts.length > 0 ? parts.join(' · ') : 'Todos los productos';
+  return sort ? `${description} · ${PRODUCT_SORT_LABELS[sort].toLowerCase()}` : description;
+};
+
+export const describeHistoryEntry = (entry: FilterHistoryEntry): string => {
+  const prefix = SOURCE_LABELS[entry.source];
+  return prefix ? `${prefix}: ${describeFilters(entry.filters)}` : describeFilters(entry.filters);
+};
@@ -0,0 +1,39 @@
+// Structured extras stored with a bot message (mensajes.payload) and rendered under its text:
+// product mini-cards for the products the reply is about and tappable follow-up questions.
+// Shared by chat-assistant (which builds payloads) and the browser (which renders them).
+
+export interface MessagePayload {
+  // Products the reply refers to, in display order
+  productIds: string[];
+  // Follow-up messages the shopper can send with one tap, in the reply's language
+  quickReplies: string[];
+}
+
+export const MESSAGE_PAYLOAD_LIMITS = {
+  MAX_PRODUCTS: 6,
+  MAX_QUICK_REPLIES: 3,
+  MAX_QUICK_REPLY_CHARS: 80,
+} as const;
+
+/**
+ * Deduplicates and caps the payload; returns null when there is nothing to render
+ */
+export function buildMessagePayload(productIds: string[], quickReplies: string[]): MessagePayload | null {
+  const payload: MessagePayload = {
+    productIds: [...new Set(productIds)].slice(0, MESSAGE_PAYLOAD_LIMITS.MAX_PRODUCTS),
+    quickReplies: [...new Set(quickReplies.map(reply => reply.trim()))]
+      .filter(reply => reply.length > 0 && reply.length <= MESSAGE_PAYLOAD_LIMITS.MAX_QUICK_REPLY_CHARS)
+      .slice(0, MESSAGE_PAYLOAD_LIMITS.MAX_QUICK_REPLIES),
+  };
+  return payload.productIds.length > 0 || payload.quickReplies.length > 0 ? payload : null;
+}
+
+/**
+ * Reads a stored payload defensively - rows written before payloads existed, or by older clients, have none
+ */
+export function parseMessagePayload(raw: unknown): MessagePayload | null {
+  if (!raw || typeof raw !== 'object') return null;
+  const { productIds, quickReplies } = raw as Record<string, unknown>;
+  const strings = (value: unknown) => (Array.isArray(value) ? value.filter((v): v is string => typeof v === 'string') : []);
+  return buildMessagePayload(strings(productIds), strings(quickReplies));
+}
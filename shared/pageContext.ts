@@ -0,0 +1,63 @@
+// What the shopper has on screen, sent by the browser with every chat message so the assistant can
+// resolve "este", "uno más barato" or "el que vi antes" against the grid and the open product.
+
+import type { ProductFilters } from './productFilters.ts';
+
+// The grid filters without the sort order, which does not change which products are shown
+export type PageContextFilters = Omit<ProductFilters, 'sort'>;
+
+export interface PageContext {
+  // Filters currently applied to the product grid (set by the shopper or by the assistant)
+  filters: PageContextFilters;
+  // Product open in the quick view, if any
+  openProductId: string | null;
+  // Most recent first, including the open product
+  recentlyViewedIds: string[];
+}
+
+export const PAGE_CONTEXT_LIMITS = {
+  MAX_RECENTLY_VIEWED: 5,
+  MAX_ID_LENGTH: 64,
+  MAX_SEARCH_TERM_LENGTH: 100,
+  MAX_CATEGORIES: 20,
+} as const;
+
+export const EMPTY_PAGE_CONTEXT: PageContext = { filters: {}, openProductId: null, recentlyViewedIds: [] };
+
+const isId = (value: unknown): value is string =>
+  typeof value === 'string' && value.length > 0 && value.length <= PAGE_CONTEXT_LIMITS.MAX_ID_LENGTH;
+
+const toPrice = (value: unknown) => (typeof value === 'number' && Number.isFinite(value) && value >= 0 ? value : undefined);
+
+/**
+ * Keeps only well-typed fields of a client-sent context; anything malformed is dropped rather than rejected
+ */
+export function parsePageContext(raw: unknown): PageContext {
+  if (!raw || typeof raw !== 'object') return EMPTY_PAGE_CONTEXT;
+  const input = raw as Record<string, unknown>;
+  const rawFilters = (input.filters && typeof input.filters === 'object' ? input.filters : {}) as Record<string, unknown>;
+
+  const filters: PageContextFilters = {};
+  if (typeof rawFilters.categoria === 'string' && rawFilters.categoria.trim()) filters.categoria = rawFilters.categoria.trim();
+  if (Array.isArray(rawFilters.categorias)) {
+    const categorias = rawFilters.categorias
+      .filter((c): c is string => typeof c === 'string' && c.trim().length > 0)
+      .map(c => c.trim())
+      .slice(0, PAGE_CONTEXT_LIMITS.MAX_CATEGORIES);
+    if (categorias.length > 0) filters.categorias = categorias;
+  }
+  if (toPrice(rawFilters.precioMin) !== undefined) filters.precioMin = toPrice(rawFilters.precioMin);
+  if (toPrice(rawFilters.precioMax) !== undefined) filters.precioMax = toPrice(rawFilters.precioMax);
+  if (typeof rawFilters.searchTerm === 'string' && rawFilters.searchTerm.trim()) {
+    filters.searchTerm = rawFilters.searchTerm.trim().substring(0, PAGE_CONTEXT_LIMITS.MAX_SEARCH_TERM_LENGTH);
+  }
+  if (rawFilters.soloEnStock === true) filters.soloEnStock = true;
+
+  const openProductId = isId(input.openProductId) ? input.openProductId : null;
+  const recentlyViewedIds = (Array.isArray(input.recentlyViewedIds) ? input.recentlyViewedIds : [])
+    .filter(isId)
+    .filter((id, index, ids) => ids.indexOf(id) === index)
+    .slice(0, PAGE_CONTEXT_LIMITS.MAX_RECENTLY_VIEWED);
+
+  return { filters, openProductId, recentlyViewedIds };
+}
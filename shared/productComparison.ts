@@ -0,0 +1,63 @@
+// Side-by-side product comparison shared by chat-assistant (compare_products tool) and the
+// comparison dialog, so the table the assistant describes is the one the shopper sees.
+
+export const COMPARISON_LIMITS = {
+  MIN_PRODUCTS: 2,
+  MAX_PRODUCTS: 4,
+};
+
+export interface ComparableProduct {
+  id: string;
+  nombre: string;
+  categoria: string;
+  precio: number;
+  cantidad_disponible: number;
+  descripcion: string;
+}
+
+export type ComparisonAttributeKey = 'precio' | 'cantidad_disponible' | 'categoria' | 'descripcion';
+
+export interface ComparisonAttribute {
+  key: ComparisonAttributeKey;
+  label: string;
+  // One value per compared product, in productIds order
+  values: Array<string | number>;
+  // Products with the best value (lowest price, most stock); empty when the attribute has no ranking or all tie
+  bestProductIds: string[];
+  differs: boolean;
+}
+
+export interface ProductComparison {
+  productIds: string[];
+  attributes: ComparisonAttribute[];
+}
+
+const ATTRIBUTES: Array<{ key: ComparisonAttributeKey; label: string; best?: 'min' | 'max' }> = [
+  { key: 'precio', label: 'Precio', best: 'min' },
+  { key: 'cantidad_disponible', label: 'Disponibles', best: 'max' },
+  { key: 'categoria', label: 'Categoría' },
+  { key: 'descripcion', label: 'Descripción' },
+];
+
+/**
+ * Attribute table for 2-4 products, keeping the order in which they were given
+ */
+export function buildProductComparison(products: ComparableProduct[]): ProductComparison {
+  const compared = products.slice(0, COMPARISON_LIMITS.MAX_PRODUCTS);
+
+  const attributes = ATTRIBUTES.map(({ key, label, best }) => {
+    const values = compared.map(product => (best ? Number(product[key]) : String(product[key] ?? '')));
+    const differs = new Set(values).size > 1;
+
+    let bestProductIds: string[] = [];
+    if (best && differs) {
+      const numbers = values as number[];
+      const target = best === 'min' ? Math.min(...numbers) : Math.max(...numbers);
+      bestProductIds = compared.filter((_, index) => numbers[index] === target).map(product => product.id);
+    }
+
+    return { key, label, values, bestProductIds, differs };
+  });
+
+  return { productIds: compared.map(product => product.id), attributes };
+}
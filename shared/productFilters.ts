@@ -0,0 +1,31 @@
+// Grid filters as the storefront keeps them in the URL and chat-assistant suggests them,
+// with the sort options of the grid.
+
+export interface ProductFilters {
+  categoria?: string;
+  // Several categories picked in the facet sidebar; combined with categoria when both are set
+  categorias?: string[];
+  precioMin?: number;
+  precioMax?: number;
+  searchTerm?: string;
+  soloEnStock?: boolean;
+  // Grid order; relevance (the default) ranks search matches first
+  sort?: ProductSort;
+}
+
+export type ProductSort = 'relevance' | 'price_asc' | 'price_desc' | 'name' | 'newest' | 'stock';
+
+export const DEFAULT_PRODUCT_SORT: ProductSort = 'relevance';
+
+// Options of the grid's sort select, in display order
+export const PRODUCT_SORT_LABELS: Record<ProductSort, string> = {
+  relevance: 'Relevancia',
+  price_asc: 'Precio: menor a mayor',
+  price_desc: 'Precio: mayor a menor',
+  name: 'Nombre (A-Z)',
+  newest: 'Más nuevos',
+  stock: 'Más disponibles',
+};
+
+export const isProductSort = (value: unknown): value is ProductSort =>
+  typeof value === 'string' && value in PRODUCT_SORT_LABELS;
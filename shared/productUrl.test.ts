@@ -0,0 +1,40 @@
+import { assertEquals } from 'https://deno.land/std@0.168.0/testing/asserts.ts';
+import type { ProductFilters } from './productFilters.ts';
+import { filtersFromSearchParams, hasFilterParams, productIdFromSearchParams, toSearchParams } from './productUrl.ts';
+
+const read = (query: string) => filtersFromSearchParams(new URLSearchParams(query));
+const write = (query: string, filters: ProductFilters, productId: string | null) =>
+  toSearchParams(new URLSearchParams(query), filters, productId).toString();
+
+Deno.test('filters survive a round trip through the query string', () => {
+  const filters: ProductFilters = { categorias: ['Televisores', 'Audio'], precioMin: 99.5, searchTerm: 'sony wh', soloEnStock: true, sort: 'price_desc' };
+  const query = write('', filters, null);
+  assertEquals(query, 'categorias=Audio%2CTelevisores&min=99.5&q=sony+wh&stock=1&orden=price_desc');
+  assertEquals(read(query), { ...filters, categorias: ['Audio', 'Televisores'] });
+});
+
+Deno.test('defaults and empty values are left out of the URL', () => {
+  assertEquals(write('', { sort: 'relevance', soloEnStock: false, searchTerm: '  ', categorias: [] }, null), '');
+  assertEquals(write('', { precioMin: 0 }, null), 'min=0');
+});
+
+Deno.test('unrelated parameters are kept and stale filters are cleared', () => {
+  assertEquals(write('utm_source=mail&q=old&max=100&producto=p1', { searchTerm: 'sony' }, 'p2'), 'utm_source=mail&q=sony&producto=p2');
+  assertEquals(write('utm_source=mail&categoria=Audio&producto=p1', {}, null), 'utm_source=mail');
+});
+
+Deno.test('malformed values in a shared link are ignored', () => {
+  assertEquals(read('min=-5&max=abc'), {});
+  assertEquals(read('max=&min=%20'), {});
+  assertEquals(read('orden=bogus&stock=yes'), {});
+  assertEquals(read('categorias=,Audio,,%20Televisores'), { categorias: ['Audio', 'Televisores'] });
+  assertEquals(read('max=1e3'), { precioMax: 1000 });
+});
+
+Deno.test('the open product is not a filter', () => {
+  const params = new URLSearchParams('producto=p1&utm_source=mail');
+  assertEquals(productIdFromSearchParams(params), 'p1');
+  assertEquals(hasFilterParams(params), false);
+  assertEquals(hasFilterParams(new URLSearchParams('orden=name')), true);
+  assertEquals(productIdFromSearchParams(new URLSearchParams('producto=')), null);
+});
@@ -0,0 +1,69 @@
+import { normalizeFilters } from './filterHistory.ts';
+import { isProductSort, type ProductFilters } from './productFilters.ts';
+
+// Query string of the catalog page, e.g. /?categoria=Televisores&max=500&producto=<id>
+const PARAMS = {
+  categoria: 'categoria',
+  categorias: 'categorias',
+  precioMin: 'min',
+  precioMax: 'max',
+  searchTerm: 'q',
+  soloEnStock: 'stock',
+  sort: 'orden',
+  producto: 'producto',
+} as const;
+
+const FILTER_PARAMS: string[] = Object.entries(PARAMS)
+  .filter(([key]) => key !== 'producto')
+  .map(([, param]) => param);
+
+const toPrice = (value: string | null) => {
+  if (value === null || value.trim() === '') return undefined;
+  const price = Number(value);
+  return Number.isFinite(price) && price >= 0 ? price : undefined;
+};
+
+/**
+ * Reads the grid filters from a query string; unknown or malformed values are ignored
+ */
+export const filtersFromSearchParams = (params: URLSearchParams): ProductFilters => {
+  const sort = params.get(PARAMS.sort);
+  return normalizeFilters({
+    categoria: params.get(PARAMS.categoria) || undefined,
+    categorias: (params.get(PARAMS.categorias) || '').split(',').map(c => c.trim()).filter(Boolean),
+    precioMin: toPrice(params.get(PARAMS.precioMin)),
+    precioMax: toPrice(params.get(PARAMS.precioMax)),
+    searchTerm: params.get(PARAMS.searchTerm) || undefined,
+    soloEnStock: params.get(PARAMS.soloEnStock) === '1',
+    sort: isProductSort(sort) ? sort : undefined,
+  });
+};
+
+export const productIdFromSearchParams = (params: URLSearchParams): string | null =>
+  params.get(PARAMS.producto) || null;
+
+/**
+ * Writes filters and the open product into a copy of the query string, keeping unrelated parameters
+ */
+export const toSearchParams = (
+  current: URLSearchParams,
+  filters: ProductFilters,
+  productId: string | null
+): URLSearchParams => {
+  const params = new URLSearchParams(current);
+  [...FILTER_PARAMS, PARAMS.producto].forEach(param => params.delete(param));
+
+  const { categoria, categorias, precioMin, precioMax, searchTerm, soloEnStock, sort } = normalizeFilters(filters);
+  if (categoria) params.set(PARAMS.categoria, categoria);
+  if (categorias) params.set(PARAMS.categorias, categorias.join(','));
+  if (precioMin !== undefined) params.set(PARAMS.precioMin, String(precioMin));
+  if (precioMax !== undefined) params.set(PARAMS.precioMax, String(precioMax));
+  if (searchTerm) params.set(PARAMS.searchTerm, searchTerm);
+  if (soloEnStock) params.set(PARAMS.soloEnStock, '1');
+  if (sort) params.set(PARAMS.sort, sort);
+  if (productId) params.set(PARAMS.producto, productId);
+
+  return params;
+};
+
+export const hasFilterParams = (params: URLSearchParams) => FILTER_PARAMS.some(param => params.has(param));
@@ -0,0 +1,35 @@
+import { assertEquals } from 'https://deno.land/std@0.168.0/testing/asserts.ts';
+import { TTS_TEXT_LIMITS, capSpeechText, verbalizeSpanishForSpeech, type SpeechTextLimit } from './spanishSpeech.ts';
+
+const characters = (maxLength: number): SpeechTextLimit => ({ maxLength, measure: text => text.length });
+
+Deno.test('a text that fits is left as it is', () => {
+  const text = 'Cuesta 799 dólares.';
+  assertEquals(capSpeechText(text, characters(text.length)), text);
+});
+
+Deno.test('a written text under the limit can pass it once prices are words, and is cut at a sentence end', () => {
+  const written = 'El iPhone 15 Pro cuesta $1,299.99. El Sony cuesta $399.99. ¿Te interesa?';
+  const limit = characters(120);
+  assertEquals(written.length < limit.maxLength, true);
+  const spoken = verbalizeSpanishForSpeech(written);
+  assertEquals(spoken.length > limit.maxLength, true);
+
+  const capped = capSpeechText(spoken, limit);
+  assertEquals(capped, 'El iPhone quince Pro cuesta mil doscientos noventa y nueve dólares con noventa y nueve centavos.');
+});
+
+Deno.test('Google Cloud counts bytes, so accented letters count twice', () => {
+  const sentence = 'Audífonos inalámbricos con cancelación de ruido. ';
+  const text = sentence.repeat(100).trim();
+  assertEquals(text.length <= TTS_TEXT_LIMITS.google.maxLength, true);
+
+  const capped = capSpeechText(text, TTS_TEXT_LIMITS.google);
+  assertEquals(TTS_TEXT_LIMITS.google.measure(capped) <= TTS_TEXT_LIMITS.google.maxLength, true);
+  assertEquals(capped.length < text.length, true);
+  assertEquals(capped.endsWith('ruido.'), true);
+});
+
+Deno.test('with no sentence end that fits, the text is cut after a whole word', () => {
+  assertEquals(capSpeechText('uno dos tres cuatro cinco.', characters(14)), 'uno dos tres');
+});
@@ -0,0 +1,315 @@
+// Spanish text normalization for speech synthesis, shared by the TTS edge functions and the browser hooks.
+// TTS engines read "$1,299.99" or "WH-1000XM5" digit by digit or in English; this rewrites prices,
+// numbers, units, abbreviations and model codes as words in the regional variant of the voice.
+// The output contains no digits, so running it twice (hook and edge function) is harmless.
+
+export type SpanishVariant = 'es-US' | 'es-MX' | 'es-ES';
+
+type Gender = 'masculine' | 'feminine';
+
+interface Noun {
+  singular: string;
+  plural: string;
+  gender: Gender;
+}
+
+interface VariantRules {
+  decimalWord: string;
+  centsNoun: Noun;
+  units: Record<string, Noun>;
+}
+
+const DEFAULT_VARIANT: SpanishVariant = 'es-US';
+
+const ONES = [
+  'cero', 'uno', 'dos', 'tres', 'cuatro', 'cinco', 'seis', 'siete', 'ocho', 'nueve',
+  'diez', 'once', 'doce', 'trece', 'catorce', 'quince', 'dieciséis', 'diecisiete', 'dieciocho', 'diecinueve',
+  'veinte', 'veintiuno', 'veintidós', 'veintitrés', 'veinticuatro', 'veinticinco', 'veintiséis', 'veintisiete', 'veintiocho', 'veintinueve',
+];
+const TENS = ['', '', '', 'treinta', 'cuarenta', 'cincuenta', 'sesenta', 'setenta', 'ochenta', 'noventa'];
+const HUNDREDS = ['', 'ciento', 'doscientos', 'trescientos', 'cuatrocientos', 'quinientos', 'seiscientos', 'setecientos', 'ochocientos', 'novecientos'];
+
+const DOLLAR: Noun = { singular: 'dólar', plural: 'dólares', gender: 'masculine' };
+const EURO: Noun = { singular: 'euro', plural: 'euros', gender: 'masculine' };
+const PESO: Noun = { singular: 'peso', plural: 'pesos', gender: 'masculine' };
+
+const COMMON_UNITS: Record<string, Noun> = {
+  tb: { singular: 'terabyte', plural: 'terabytes', gender: 'masculine' },
+  gb: { singular: 'gigabyte', plural: 'gigabytes', gender: 'masculine' },
+  mb: { singular: 'megabyte', plural: 'megabytes', gender: 'masculine' },
+  mp: { singular: 'megapíxel', plural: 'megapíxeles', gender: 'masculine' },
+  mah: { singular: 'miliamperio hora', plural: 'miliamperios hora', gender: 'masculine' },
+  cm: { singular: 'centímetro', plural: 'centímetros', gender: 'masculine' },
+  mm: { singular: 'milímetro', plural: 'milímetros', gender: 'masculine' },
+  kg: { singular: 'kilo', plural: 'kilos', gender: 'masculine' },
+  'pulg.': { singular: 'pulgada', plural: 'pulgadas', gender: 'feminine' },
+  '"': { singular: 'pulgada', plural: 'pulgadas', gender: 'feminine' },
+  '”': { singular: 'pulgada', plural: 'pulgadas', gender: 'feminine' },
+  hrs: { singular: 'hora', plural: 'horas', gender: 'feminine' },
+  min: { singular: 'minuto', plural: 'minutos', gender: 'masculine' },
+};
+
+const VARIANT_RULES: Record<SpanishVariant, VariantRules> = {
+  'es-US': {
+    decimalWord: 'punto',
+    centsNoun: { singular: 'centavo', plural: 'centavos', gender: 'masculine' },
+    units: {
+      ...COMMON_UNITS,
+      w: { singular: 'watt', plural: 'watts', gender: 'masculine' },
+      hz: { singular: 'hertz', plural: 'hertz', gender: 'masculine' },
+    },
+  },
+  'es-MX': {
+    decimalWord: 'punto',
+    centsNoun: { singular: 'centavo', plural: 'centavos', gender: 'masculine' },
+    units: {
+      ...COMMON_UNITS,
+      w: { singular: 'watt', plural: 'watts', gender: 'masculine' },
+      hz: { singular: 'hertz', plural: 'hertz', gender: 'masculine' },
+    },
+  },
+  'es-ES': {
+    decimalWord: 'coma',
+    centsNoun: { singular: 'céntimo', plural: 'céntimos', gender: 'masculine' },
+    units: {
+      ...COMMON_UNITS,
+      w: { singular: 'vatio', plural: 'vatios', gender: 'masculine' },
+      hz: { singular: 'hercio', plural: 'hercios', gender: 'masculine' },
+    },
+  },
+};
+
+const ABBREVIATIONS: Array<[RegExp, string]> = [
+  [/\bp\.\s?ej\./gi, 'por ejemplo'],
+  [/\baprox\./gi, 'aproximadamente'],
+  [/\betc\./gi, 'etcétera'],
+  [/\bn[úu]m\.\s?/gi, 'número '],
+  [/\bNo\.\s?(?=\d)/g, 'número '],
+  [/\buds?\./gi, 'unidades'],
+  [/\bvs\.?(?=\s)/gi, 'contra'],
+  [/\s&\s/g, ' y '],
+];
+
+// Words after a number that take the plain form ("1 de ellos" → "uno de ellos")
+const NON_NOUN_WORDS = new Set(['de', 'del', 'y', 'o', 'u', 'a', 'al', 'en', 'por', 'para', 'con', 'que', 'es', 'son', 'más', 'menos']);
+
+const FEMININE_NOUNS = new Set([
+  'unidad', 'unidades', 'pulgada', 'pulgadas', 'hora', 'horas', 'opción', 'opciones', 'persona', 'personas',
+  'semana', 'semanas', 'cámara', 'cámaras', 'pantalla', 'pantallas', 'bocina', 'bocinas', 'laptop', 'laptops',
+  'tarjeta', 'tarjetas', 'generación', 'estrella', 'estrellas', 'pieza', 'piezas', 'marca', 'marcas',
+]);
+
+// "1,299.99", "1.299,99", "1299.99", "799" - grouped thousands or plain digits, optional decimals
+const AMOUNT = String.raw`[1-9]\d{0,2}(?:[.,]\d{3})+(?!\d)(?:[.,]\d{1,2})?|\d+(?:[.,]\d+)?`;
+const DOLLAR_WORDS = String.raw`(?:USD|US\$|d[óo]lar(?:es)?|dlls?\.?)`;
+const PRICE_PATTERNS: Array<{ pattern: RegExp; currency: Noun }> = [
+  { pattern: new RegExp(String.raw`(?:US)?\$\s?(${AMOUNT})(?:\s?${DOLLAR_WORDS}(?![\p{L}]))?`, 'giu'), currency: DOLLAR },
+  { pattern: new RegExp(String.raw`\bUSD\s?(${AMOUNT})`, 'gi'), currency: DOLLAR },
+  { pattern: new RegExp(String.raw`\b(${AMOUNT})\s?${DOLLAR_WORDS}(?![\p{L}])`, 'giu'), currency: DOLLAR },
+  { pattern: new RegExp(String.raw`€\s?(${AMOUNT})|\b(${AMOUNT})\s?(?:€|euros?(?![\p{L}]))`, 'giu'), currency: EURO },
+  { pattern: new RegExp(String.raw`\b(${AMOUNT})\s?(?:MXN|pesos?(?![\p{L}]))`, 'giu'), currency: PESO },
+];
+
+export function resolveSpanishVariant(localeOrVoice?: string | null): SpanishVariant {
+  const value = (localeOrVoice || '').toLowerCase().replace('_', '-');
+  if (value.startsWith('es-mx')) return 'es-MX';
+  if (value.startsWith('es-es')) return 'es-ES';
+  return DEFAULT_VARIANT;
+}
+
+function belowHundred(n: number, gender: Gender, apocope: boolean): string {
+  const oneForm = gender === 'feminine' ? 'una' : apocope ? 'un' : 'uno';
+  if (n === 1) return oneForm;
+  if (n === 21) return gender === 'feminine' ? 'veintiuna' : apocope ? 'veintiún' : 'veintiuno';
+  if (n < 30) return ONES[n];
+  const tens = TENS[Math.floor(n / 10)];
+  const ones = n % 10;
+  if (ones === 0) return tens;
+  return `${tens} y ${ones === 1 ? oneForm : ONES[ones]}`;
+}
+
+function belowThousand(n: number, gender: Gender, apocope: boolean): string {
+  if (n === 100) return 'cien';
+  const hundreds = Math.floor(n / 100);
+  const rest = n % 100;
+  let hundredsWord = HUNDREDS[hundreds];
+  if (gender === 'feminine' && hundreds > 1) hundredsWord = hundredsWord.replace(/os$/, 'as');
+  if (hundreds === 0) return belowHundred(rest, gender, apocope);
+  return rest === 0 ? hundredsWord : `${hundredsWord} ${belowHundred(rest, gender, apocope)}`;
+}
+
+// "apocope" gives the form used before a noun: "un dólar", "veintiún modelos"
+export function numberToSpanishWords(value: number, gender: Gender = 'masculine', apocope = false): string {
+  const n = Math.floor(Math.abs(value));
+  if (n === 0) return 'cero';
+
+  const parts: string[] = [];
+  const millions = Math.floor(n / 1_000_000);
+  const thousands = Math.floor((n % 1_000_000) / 1000);
+  const rest = n % 1000;
+
+  if (millions > 0) {
+    // Millions are always masculine: "un millón de pulgadas", "veintiún millones"
+    parts.push(millions === 1 ? 'un millón' : `${numberToSpanishWords(millions, 'masculine', true)} millones`);
+  }
+  if (thousands > 0) {
+    parts.push(thousands === 1 ? 'mil' : `${belowThousand(thousands, gender, true)} mil`);
+  }
+  if (rest > 0) {
+    parts.push(belowThousand(rest, gender, apocope));
+  }
+
+  return `${value < 0 ? 'menos ' : ''}${parts.join(' ')}`;
+}
+
+function countNoun(count: number, noun: Noun): string {
+  const words = numberToSpanishWords(count, noun.gender, true);
+  // "un millón de dólares" but "un millón cien dólares"
+  const linker = count >= 1_000_000 && count % 1_000_000 === 0 ? ' de' : '';
+  return `${words}${linker} ${count === 1 ? noun.singular : noun.plural}`;
+}
+
+function digitsToWords(digits: string): string {
+  return digits.split('').map(d => ONES[Number(d)]).join(' ');
+}
+
+// Splits "1,299.99" / "1.299,99" / "1299.99" into integer and decimal digits. With mixed separators the
+// last one is decimal; a lone separator followed by exactly three digits is read as thousands.
+function parseAmount(raw: string): { integer: string; decimals: string } {
+  const separators = raw.match(/[.,]/g) ?? [];
+  if (separators.length === 0) return { integer: raw, decimals: '' };
+
+  const lastSeparator = Math.max(raw.lastIndexOf('.'), raw.lastIndexOf(','));
+  const tail = raw.slice(lastSeparator + 1);
+  const isDecimal = new Set(separators).size > 1 || (separators.length === 1 && tail.length !== 3);
+  if (!isDecimal) return { integer: raw.replace(/[.,]/g, ''), decimals: '' };
+
+  return { integer: raw.slice(0, lastSeparator).replace(/[.,]/g, ''), decimals: tail };
+}
+
+function verbalizePrice(raw: string, currency: Noun, rules: VariantRules): string {
+  const { integer, decimals } = parseAmount(raw);
+  const units = Number(integer || '0');
+  const cents = decimals ? Number(decimals.padEnd(2, '0').slice(0, 2)) : 0;
+
+  if (units === 0 && cents > 0) return countNoun(cents, rules.centsNoun);
+  const unitsText = countNoun(units, currency);
+  return cents > 0 ? `${unitsText} con ${countNoun(cents, rules.centsNoun)}` : unitsText;
+}
+
+function verbalizeDecimal(raw: string, rules: VariantRules, gender: Gender, apocope: boolean): string {
+  const { integer, decimals } = parseAmount(raw);
+  // Ungrouped runs this long are codes or phone numbers, not quantities
+  if (/^\d{7,}$/.test(raw)) return digitsToWords(raw);
+
+  const integerText = numberToSpanishWords(Number(integer || '0'), gender, decimals ? false : apocope);
+  if (!decimals) return integerText;
+
+  // "0.05" → "cero punto cero cinco"; "6.1" → "seis punto uno"
+  const decimalText = decimals.startsWith('0') || decimals.length > 3
+    ? digitsToWords(decimals)
+    : numberToSpanishWords(Number(decimals));
+  return `${integerText} ${rules.decimalWord} ${decimalText}`;
+}
+
+function nounAfter(text: string, offset: number): { gender: Gender; isNoun: boolean } {
+  const nextWord = text.slice(offset).match(/^\s+([\p{L}]+)/u)?.[1]?.toLowerCase();
+  if (!nextWord || NON_NOUN_WORDS.has(nextWord)) return { gender: 'masculine', isNoun: false };
+  return { gender: FEMININE_NOUNS.has(nextWord) ? 'feminine' : 'masculine', isNoun: true };
+}
+
+// "WH-1000XM5" → "WH mil XM cinco"; long digit runs are read one digit at a time
+function verbalizeCode(code: string): string {
+  return code
+    .split('-')
+    .flatMap(segment => segment.match(/\d+|[^\d]+/g) ?? [])
+    .map(run => (/^\d+$/.test(run)
+      ? run.length <= 4 && !run.startsWith('0') ? numberToSpanishWords(Number(run)) : digitsToWords(run)
+      : run))
+    .join(' ');
+}
+
+export function verbalizeSpanishForSpeech(text: string, variant: SpanishVariant = DEFAULT_VARIANT): string {
+  if (!text) return text;
+  const rules = VARIANT_RULES[variant] ?? VARIANT_RULES[DEFAULT_VARIANT];
+
+  let result = text;
+
+  for (const [pattern, replacement] of ABBREVIATIONS) {
+    result = result.replace(pattern, replacement);
+  }
+
+  // Ranges: "300-800" → "300 a 800" (codes like "WH-1000" have letters before the hyphen)
+  result = result.replace(/(^|[^\p{L}\d-])(\$?\d[\d.,]*)\s?[-–]\s?(?=\$?\d)/gu, '$1$2 a ');
+
+  for (const { pattern, currency } of PRICE_PATTERNS) {
+    result = result.replace(pattern, (_match, first: string, second?: string) =>
+      verbalizePrice(first ?? second, currency, rules));
+  }
+
+  result = result.replace(new RegExp(String.raw`(${AMOUNT})\s?%`, 'g'), (_match, amount: string) =>
+    `${verbalizeDecimal(amount, rules, 'masculine', false)} por ciento`);
+
+  // Units glued to or right after a number: "128GB", "55\"", "6.1 pulg.", "30 W"
+  const unitKeys = Object.keys(rules.units)
+    .sort((a, b) => b.length - a.length)
+    .map(key => key.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+  const unitPattern = new RegExp(String.raw`\b(${AMOUNT})\s?(${unitKeys.join('|')})(?![\p{L}\d])`, 'giu');
+  result = result.replace(unitPattern, (_match, amount: string, unit: string) => {
+    const noun = rules.units[unit.toLowerCase()];
+    const { integer, decimals } = parseAmount(amount);
+    if (!decimals) return countNoun(Number(integer), noun);
+    return `${verbalizeDecimal(amount, rules, noun.gender, false)} ${noun.plural}`;
+  });
+
+  // Model codes mixing letters and digits: "S24", "A17", "M3", "WH-1000XM5", "4K"
+  result = result.replace(
+    /(?<![\p{L}\d])(?=[\p{L}\d-]*\d)(?=[\p{L}\d-]*\p{L})[\p{L}\d]+(?:-[\p{L}\d]+)*(?![\p{L}\d])/gu,
+    code => verbalizeCode(code)
+  );
+
+  // Whatever numbers remain, agreeing with the noun that follows ("1 unidad" → "una unidad")
+  result = result.replace(new RegExp(AMOUNT, 'g'), (amount: string, offset: number, whole: string) => {
+    const { gender, isNoun } = nounAfter(whole, offset + amount.length);
+    return verbalizeDecimal(amount, rules, gender, isNoun);
+  });
+
+  return result.replace(/[ \t]{2,}/g, ' ').trim();
+}
+
+export interface SpeechTextLimit {
+  maxLength: number;
+  // Length of the text as the provider counts it
+  measure: (text: string) => number;
+}
+
+// Input limits of the TTS providers: OpenAI counts characters, Google Cloud counts UTF-8 bytes
+export const TTS_TEXT_LIMITS: Record<'openai' | 'google', SpeechTextLimit> = {
+  openai: { maxLength: 4096, measure: text => text.length },
+  google: { maxLength: 5000, measure: text => new TextEncoder().encode(text).length },
+};
+
+/**
+ * Cuts speech text to the provider limit at the last sentence end that fits, or after the last word
+ * that fits when not even the first sentence does. Verbalized text is longer than the written one
+ * ("$1,299.99" becomes "mil doscientos noventa y nueve dólares con noventa y nueve centavos").
+ */
+export function capSpeechText(text: string, limit: SpeechTextLimit): string {
+  if (limit.measure(text) <= limit.maxLength) return text;
+
+  let sentences = '';
+  for (const match of text.matchAll(/[.!?…]+(?=\s|$)/g)) {
+    const candidate = text.slice(0, match.index! + match[0].length);
+    if (limit.measure(candidate) > limit.maxLength) break;
+    sentences = candidate;
+  }
+  if (sentences) return sentences;
+
+  let words = '';
+  for (const word of text.split(/\s+/)) {
+    const candidate = words ? `${words} ${word}` : word;
+    if (limit.measure(candidate) > limit.maxLength) break;
+    words = candidate;
+  }
+  return words;
+}
@@ -5,10 +5,15 @@ import { TooltipProvider } from "@/components/ui/tooltip";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
 import { AuthProvider } from "@/hooks/useAuth";
+import { ShopperSessionProvider } from "@/hooks/useShopperSession";
+import { PageContextProvider } from "@/hooks/usePageContext";
 import Index from "./pages/Index";
 import NotFound from "./pages/NotFound";
 import Auth from "./pages/Auth";
 import AdminInventory from "./pages/AdminInventory";
+import Checkout from "./pages/Checkout";
+import OrderConfirmation from "./pages/OrderConfirmation";
+import ProductDetail from "./pages/ProductDetail";
 
 // Create a new QueryClient instance with error handling
 const queryClient = new QueryClient({
@@ -27,21 +32,28 @@ const queryClient = new QueryClient({
 const App = () => (
   <QueryClientProvider client={queryClient}>
     <AuthProvider>
-      <TooltipProvider>
-        <Toaster />
-        <Sonner />
-        <BrowserRouter>
-          <Routes>
-            <Route path="/" element={<Index />} />
-            <Route path="/auth" element={<Auth />} />
-            <Route path="/admin/inventory" element={<AdminInventory />} />
-            {/* Universal Inventory Admin URL - accessible at /superjp */}
-            <Route path="/superjp" element={<AdminInventory />} />
-            {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
-            <Route path="*" element={<NotFound />} />
-          </Routes>
-        </BrowserRouter>
-      </TooltipProvider>
+      <ShopperSessionProvider>
+        <PageContextProvider>
+          <TooltipProvider>
+            <Toaster />
+            <Sonner />
+            <BrowserRouter>
+              <Routes>
+                <Route path="/" element={<Index />} />
+                <Route path="/checkout" element={<Checkout />} />
+                <Route path="/pedido/:id" element={<OrderConfirmation />} />
+                <Route path="/producto/:id" element={<ProductDetail />} />
+                <Route path="/auth" element={<Auth />} />
+                <Route path="/admin/inventory" element={<AdminInventory />} />
+                {/* Universal Inventory Admin URL - accessible at /superjp */}
+                <Route path="/superjp" element={<AdminInventory />} />
+                {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
+                <Route path="*" element={<NotFound />} />
+              </Routes>
+            </BrowserRouter>
+          </TooltipProvider>
+        </PageContextProvider>
+      </ShopperSessionProvider>
     </AuthProvider>
   </QueryClientProvider>
 );
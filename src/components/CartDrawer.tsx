@@ -0,0 +1,116 @@
+import React from 'react';
+import { Link } from 'react-router-dom';
+import { Sheet, SheetClose, SheetContent, SheetDescription, SheetHeader, SheetTitle, SheetTrigger } from '@/components/ui/sheet';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Minus, Plus, ShoppingCart, Trash2 } from 'lucide-react';
+import { useCart } from '@/hooks/useCart';
+
+const formatPrice = (price: number) => {
+  return new Intl.NumberFormat('es-US', {
+    style: 'currency',
+    currency: 'USD',
+  }).format(price);
+};
+
+// Header cart button and side panel; the assistant edits the same cart through its tools
+export const CartDrawer: React.FC = () => {
+  const { items, itemCount, total, isUpdating, setQuantity, removeItem, clearCart } = useCart();
+
+  return (
+    <Sheet>
+      <SheetTrigger asChild>
+        <Button variant="outline" size="sm" className="relative" aria-label={`Carrito (${itemCount} productos)`}>
+          <ShoppingCart className="h-4 w-4" />
+          {itemCount > 0 && (
+            <Badge className="absolute -top-2 -right-2 h-5 min-w-5 px-1 justify-center text-xs">
+              {itemCount}
+            </Badge>
+          )}
+        </Button>
+      </SheetTrigger>
+      <SheetContent side="right" className="w-full sm:max-w-md flex flex-col">
+        <SheetHeader>
+          <SheetTitle>Tu carrito</SheetTitle>
+          <SheetDescription>
+            {itemCount > 0 ? `${itemCount} productos` : 'Agrega productos desde el catálogo o pídeselo al asistente'}
+          </SheetDescription>
+        </SheetHeader>
+
+        {items.length === 0 ? (
+          <div className="flex-1 flex flex-col items-center justify-center text-center text-muted-foreground">
+            <ShoppingCart className="h-12 w-12 mb-3" />
+            <p className="font-medium">Tu carrito está vacío</p>
+            <p className="text-sm mt-1">Prueba con "agrega dos de esos al carrito" en el chat</p>
+          </div>
+        ) : (
+          <>
+            <div className="flex-1 overflow-y-auto space-y-4 py-4">
+              {items.map(({ id, cantidad, producto }) => (
+                <div key={id} className="flex gap-3">
+                  <img
+                    src={producto.imagen_url}
+                    alt={producto.nombre}
+                    className="h-16 w-16 rounded object-cover flex-shrink-0"
+                  />
+                  <div className="flex-1 min-w-0">
+                    <p className="font-medium text-sm line-clamp-2">{producto.nombre}</p>
+                    <p className="text-sm text-muted-foreground">{formatPrice(Number(producto.precio))}</p>
+                    <div className="flex items-center gap-2 mt-1">
+                      <Button
+                        variant="outline"
+                        size="icon"
+                        className="h-7 w-7"
+                        onClick={() => setQuantity(producto, cantidad - 1)}
+                        disabled={isUpdating}
+                        aria-label="Quitar uno"
+                      >
+                        <Minus className="h-3 w-3" />
+                      </Button>
+                      <span className="w-6 text-center text-sm">{cantidad}</span>
+                      <Button
+                        variant="outline"
+                        size="icon"
+                        className="h-7 w-7"
+                        onClick={() => setQuantity(producto, cantidad + 1)}
+                        disabled={isUpdating || cantidad >= producto.cantidad_disponible}
+                        aria-label="Agregar uno"
+                      >
+                        <Plus className="h-3 w-3" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-7 w-7 ml-auto"
+                        onClick={() => removeItem(producto)}
+                        disabled={isUpdating}
+                        aria-label="Eliminar del carrito"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </div>
+                </div>
+              ))}
+            </div>
+
+            <div className="border-t pt-4 space-y-3">
+              <div className="flex items-center justify-between">
+                <span className="font-medium">Subtotal</span>
+                <span className="text-lg font-bold text-primary">{formatPrice(total)}</span>
+              </div>
+              <SheetClose asChild>
+                <Button className="w-full" asChild>
+                  <Link to="/checkout">Finalizar compra</Link>
+                </Button>
+              </SheetClose>
+              <Button variant="outline" className="w-full" onClick={() => clearCart()} disabled={isUpdating}>
+                Vaciar carrito
+              </Button>
+            </div>
+          </>
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+};
@@ -1,20 +1,24 @@
 
-import React, { useState, useRef, useEffect } from 'react';
+import React, { useState, useRef, useEffect, useCallback } from 'react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { Separator } from '@/components/ui/separator';
-import { Send, MessageSquare, Loader2, Mic, MicOff } from 'lucide-react';
+import { Send, MessageSquare, Loader2, Mic, MicOff, Timer } from 'lucide-react';
 import { ChatMessage } from './ChatMessage';
 import { VoiceIndicator } from './VoiceIndicator';
+import { SessionActions } from './SessionActions';
 import { useChat } from '@/hooks/useChat';
 import { useSpeechToText } from '@/hooks/useSpeechToText';
 import { useEnhancedGoogleTTS } from '@/hooks/useEnhancedGoogleTTS';
+import { useStreamingSpeech } from '@/hooks/useStreamingSpeech';
 import { ProductFilters } from '@/types/database';
+import { ProductComparison } from '@/utils/productComparison';
 import { VoiceAuditDisplay } from './VoiceAuditDisplay';
 
 interface ChatInterfaceProps {
   onFiltersChange?: (filters: ProductFilters) => void;
+  onComparison?: (comparison: ProductComparison) => void;
 }
 
 // Safe fallback for findLast (es2020 compatible)
@@ -27,12 +31,12 @@ const findLastBotMessage = (messages: any[]) => {
   return undefined;
 };
 
-export const ChatInterface: React.FC<ChatInterfaceProps> = ({ onFiltersChange }) => {
+export const ChatInterface: React.FC<ChatInterfaceProps> = ({ onFiltersChange, onComparison }) => {
   const [inputValue, setInputValue] = useState('');
   const scrollAreaRef = useRef<HTMLDivElement>(null);
   const lastBotMessageIdRef = useRef<string | null>(null);
   const [showVoiceAudit, setShowVoiceAudit] = useState(false);
-  const { messages, sendMessage, isSending, startChat } = useChat(onFiltersChange);
+  const { messages, sendMessage, isSending, streamingContent, isResumed, language, rateLimit } = useChat(onFiltersChange, onComparison);
   
   const {
     isListening,
@@ -64,18 +68,27 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({ onFiltersChange })
     getLatestAuditReport
   } = useEnhancedGoogleTTS({
     voice: 'es-US-Journey-F',
+    language,
     speed: 1.0,
     enableFallback: true,
     auditMode: true // Enable comprehensive auditing
   });
 
+  // Start speaking on the first streamed sentence instead of waiting for the full reply
+  const {
+    handleStreamProgress,
+    speakFinalMessage,
+    reset: resetStreamingSpeech
+  } = useStreamingSpeech(speak);
+
+  const handleStopSpeaking = useCallback(() => {
+    resetStreamingSpeech();
+    stopSpeaking();
+  }, [resetStreamingSpeech, stopSpeaking]);
+
   const isSupported = speechSupported;
   const ttsSupported = true;
 
-  useEffect(() => {
-    startChat();
-  }, [startChat]);
-
   useEffect(() => {
     // Scroll to bottom when new messages arrive
     if (scrollAreaRef.current) {
@@ -103,11 +116,21 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({ onFiltersChange })
     }
   }, [transcript, resetTranscript, sendMessage]);
 
+  useEffect(() => {
+    handleStreamProgress(streamingContent);
+  }, [streamingContent, handleStreamProgress]);
+
   // ENHANCED AUTO-PLAY TTS: Immediate voice response with comprehensive audit logging
   useEffect(() => {
     if (messages.length === 0 || isSending) return;
 
     const lastMessage = messages[messages.length - 1];
+
+    // A restored conversation is shown but its history is not read aloud again
+    if (isResumed && lastBotMessageIdRef.current === null) {
+      lastBotMessageIdRef.current = findLastBotMessage(messages)?.id ?? '';
+      return;
+    }
     
     if (lastMessage && 
         lastMessage.sender === 'bot' && 
@@ -117,8 +140,9 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({ onFiltersChange })
       console.log(`🤖 Auto-playing Google Cloud TTS for new bot message: ${lastMessage.id}`);
       lastBotMessageIdRef.current = lastMessage.id;
       
-      // Auto-play TTS with comprehensive audit logging
-      speak(lastMessage.content).then(result => {
+      // Auto-play TTS with comprehensive audit logging (only the part not already spoken while streaming)
+      speakFinalMessage(lastMessage.content).then(result => {
+        if (!result) return;
         const auditReport = getLatestAuditReport();
         
         if (result.success) {
@@ -143,11 +167,11 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({ onFiltersChange })
         }
       });
     }
-  }, [messages, speak, isSending, getLatestAuditReport]);
+  }, [messages, speakFinalMessage, isSending, getLatestAuditReport, isResumed]);
 
   const handleSendMessage = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (!inputValue.trim() || isSending) return;
+    if (!inputValue.trim() || isSending || rateLimit) return;
 
     const userMessage = inputValue.trim();
     setInputValue('');
@@ -159,6 +183,11 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({ onFiltersChange })
     }
   };
 
+  const handleQuickReply = (text: string) => {
+    if (isSending || rateLimit) return;
+    sendMessage({ content: text, sender: 'user' });
+  };
+
   const handleVoiceToggle = async () => {
     if (isListening || speechInitializing) {
       console.log('🛑 Stopping voice input');
@@ -168,7 +197,7 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({ onFiltersChange })
       
       // Stop TTS when starting to listen
       if (isSpeaking) {
-        stopSpeaking();
+        handleStopSpeaking();
       }
       
       await startListening();
@@ -177,7 +206,15 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({ onFiltersChange })
 
   const handleStartConversation = async () => {
     const welcomeMessage = "¡Hola! Soy tu asistente de compras de StrateAI con voz premium de Google Cloud. Puedo ayudarte a encontrar productos específicos basándome en nuestro inventario real. Por ejemplo, puedes preguntarme: Muéstrame televisores de 55 pulgadas bajo 800 dólares o Busco audífonos inalámbricos. ¿En qué puedo ayudarte hoy?";
-    sendMessage({ content: welcomeMessage, sender: 'bot' });
+    sendMessage({
+      content: welcomeMessage,
+      sender: 'bot',
+      // The examples from the welcome text as one-tap starters
+      payload: {
+        productIds: [],
+        quickReplies: ['Muéstrame televisores de 55 pulgadas bajo 800 dólares', 'Busco audífonos inalámbricos', '¿Qué categorías tienen?'],
+      },
+    });
   };
 
   // Display current TTS method and voice info with audit details
@@ -212,6 +249,7 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({ onFiltersChange })
                 : getTTSStatusText()}
             </p>
           </div>
+          <SessionActions />
           <Button
             variant="ghost"
             size="lg"
@@ -239,7 +277,7 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({ onFiltersChange })
             speechSupported={speechSupported}
             ttsSupported={ttsSupported}
             isMuted={false}
-            onStopSpeaking={stopSpeaking}
+            onStopSpeaking={handleStopSpeaking}
             onReplay={replayLastMessage}
             onToggleMute={() => {}}
             className="justify-start"
@@ -294,11 +332,22 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({ onFiltersChange })
           <div className="space-y-0">
             {messages.map((message, index) => (
               <React.Fragment key={message.id}>
-                <ChatMessage message={message} />
+                <ChatMessage
+                  message={message}
+                  onQuickReply={index === messages.length - 1 && !isSending ? handleQuickReply : undefined}
+                />
                 {index < messages.length - 1 && <Separator />}
               </React.Fragment>
             ))}
-            {isSending && (
+            {streamingContent && (
+              <>
+                <Separator />
+                <ChatMessage
+                  message={{ id: 'streaming', sender: 'bot', content: streamingContent, timestamp: new Date() }}
+                />
+              </>
+            )}
+            {isSending && !streamingContent && (
               <>
                 <Separator />
                 <div className="flex gap-4 p-6 bg-gradient-to-r from-muted/30 to-muted/50">
@@ -329,6 +378,16 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({ onFiltersChange })
         </div>
       )}
 
+      {/* Too many messages: chat-assistant answered 429, sending resumes when the countdown ends */}
+      {rateLimit && (
+        <div className="px-6 py-3 bg-amber-50 border-t border-amber-200" role="status">
+          <p className="text-sm text-amber-800 font-medium flex items-center gap-2">
+            <Timer className="h-4 w-4" />
+            Has enviado muchos mensajes seguidos. Podrás escribir de nuevo en {rateLimit.secondsLeft} s.
+          </p>
+        </div>
+      )}
+
       {/* ENHANCED POS INPUT AREA */}
       <div className="p-6 border-t bg-gradient-to-r from-primary/10 to-primary/5 backdrop-blur-sm">
         <form onSubmit={handleSendMessage} className="flex gap-4">
@@ -336,7 +395,7 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({ onFiltersChange })
             value={inputValue}
             onChange={(e) => setInputValue(e.target.value)}
             placeholder={speechSupported ? "Escribe tu mensaje o usa el micrófono..." : "Pregúntame sobre productos disponibles..."}
-            disabled={isSending || isListening || speechInitializing}
+            disabled={isSending || isListening || speechInitializing || !!rateLimit}
             className="flex-1 h-14 text-lg px-6 border-2 shadow-lg font-medium placeholder:text-muted-foreground/70"
             maxLength={500}
           />
@@ -346,7 +405,7 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({ onFiltersChange })
             <Button
               type="button"
               onClick={handleVoiceToggle}
-              disabled={isSending}
+              disabled={isSending || !!rateLimit}
               size="lg"
               className={`h-14 w-14 shadow-lg transition-all duration-200 ${
                 (isListening || speechInitializing) 
@@ -377,7 +436,7 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({ onFiltersChange })
           {/* ENHANCED SEND BUTTON */}
           <Button 
             type="submit" 
-            disabled={!inputValue.trim() || isSending || isListening || speechInitializing}
+            disabled={!inputValue.trim() || isSending || isListening || speechInitializing || !!rateLimit}
             size="lg"
             className="h-14 w-14 bg-gradient-to-br from-green-500 to-green-600 hover:from-green-600 hover:to-green-700 text-white shadow-lg border-2 border-green-300 hover:scale-105 transition-all duration-200"
             aria-label="Enviar mensaje"
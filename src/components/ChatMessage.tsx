@@ -4,12 +4,15 @@ import { cn } from '@/lib/utils';
 import { Avatar, AvatarFallback } from '@/components/ui/avatar';
 import { Bot, User } from 'lucide-react';
 import { ChatMessage as ChatMessageType } from '@/types/database';
+import { ChatProductCards } from './ChatProductCards';
 
 interface ChatMessageProps {
   message: ChatMessageType;
+  // Sends a suggested follow-up; only passed for the latest reply so older chips are not tappable
+  onQuickReply?: (text: string) => void;
 }
 
-export const ChatMessage: React.FC<ChatMessageProps> = ({ message }) => {
+export const ChatMessage: React.FC<ChatMessageProps> = ({ message, onQuickReply }) => {
   const isBot = message.sender === 'bot';
   const isSystem = message.content.includes('Analizando productos') || 
                   message.content.includes('Escuchando') || 
@@ -34,7 +37,8 @@ export const ChatMessage: React.FC<ChatMessageProps> = ({ message }) => {
   return (
     <div className={cn(
       "flex gap-4 p-6",
-      isBot ? "bg-gradient-to-r from-muted/30 to-muted/50" : "bg-background"
+      isBot ? "bg-gradient-to-r from-muted/30 to-muted/50" : "bg-background",
+      message.pending && "opacity-70"
     )}>
       {/* Avatar - larger for POS visibility */}
       <Avatar className="h-12 w-12 flex-shrink-0 shadow-md">
@@ -68,6 +72,29 @@ export const ChatMessage: React.FC<ChatMessageProps> = ({ message }) => {
         )}>
           {message.content}
         </div>
+
+        {/* Products the reply is about, as swipeable mini-cards */}
+        {isBot && message.payload?.productIds.length ? (
+          <div className="mt-3">
+            <ChatProductCards productIds={message.payload.productIds} />
+          </div>
+        ) : null}
+
+        {/* Suggested follow-ups */}
+        {isBot && onQuickReply && message.payload?.quickReplies.length ? (
+          <div className="mt-3 flex flex-wrap gap-2">
+            {message.payload.quickReplies.map(reply => (
+              <button
+                key={reply}
+                type="button"
+                onClick={() => onQuickReply(reply)}
+                className="rounded-full border border-primary/30 bg-background px-3 py-1.5 text-sm font-medium text-primary hover:bg-primary/10 transition-colors text-left"
+              >
+                {reply}
+              </button>
+            ))}
+          </div>
+        ) : null}
       </div>
     </div>
   );
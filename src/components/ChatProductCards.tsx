@@ -0,0 +1,110 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Skeleton } from '@/components/ui/skeleton';
+import { ShoppingCart } from 'lucide-react';
+import { ProductQuickView } from './ProductQuickView';
+import { useProductsByIds } from '@/hooks/useProducts';
+import { useCart } from '@/hooks/useCart';
+import { usePageContext } from '@/hooks/usePageContext';
+import { Producto } from '@/types/database';
+
+interface ChatProductCardsProps {
+  productIds: string[];
+}
+
+const formatPrice = (price: number) => {
+  return new Intl.NumberFormat('es-US', {
+    style: 'currency',
+    currency: 'USD',
+  }).format(price);
+};
+
+// Swipeable row of mini product cards under a bot reply; the shopper can open or add a product
+// without leaving the chat (on mobile the grid is hidden behind the chat sheet)
+export const ChatProductCards: React.FC<ChatProductCardsProps> = ({ productIds }) => {
+  const { data: products = [], isLoading } = useProductsByIds(productIds);
+  const { addItem, isUpdating } = useCart();
+  const [selectedProduct, setSelectedProduct] = useState<Producto | null>(null);
+  const { setOpenProductId } = usePageContext();
+
+  const openProduct = (product: Producto | null) => {
+    setSelectedProduct(product);
+    setOpenProductId(product?.id ?? null);
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex gap-3 overflow-hidden">
+        {productIds.slice(0, 3).map(id => (
+          <Skeleton key={id} className="h-44 w-36 flex-shrink-0 rounded-lg" />
+        ))}
+      </div>
+    );
+  }
+
+  // Products removed from the catalog since the reply was written are simply left out
+  if (products.length === 0) return null;
+
+  return (
+    <>
+      <div
+        className="flex gap-3 overflow-x-auto snap-x snap-mandatory pb-2 -mx-1 px-1"
+        role="list"
+        aria-label="Productos mencionados"
+      >
+        {products.map(product => {
+          const isAvailable = product.cantidad_disponible > 0;
+          return (
+            <div
+              key={product.id}
+              role="listitem"
+              className="w-36 flex-shrink-0 snap-start rounded-lg border bg-background shadow-sm overflow-hidden flex flex-col"
+            >
+              <button
+                type="button"
+                onClick={() => openProduct(product)}
+                className="text-left flex-1 flex flex-col hover:bg-muted/50 transition-colors"
+                aria-label={`Ver ${product.nombre}`}
+              >
+                <img
+                  src={product.imagen_url}
+                  alt={product.nombre}
+                  className="h-24 w-full object-cover"
+                  loading="lazy"
+                  onError={(e) => {
+                    const target = e.target as HTMLImageElement;
+                    target.src = 'https://images.unsplash.com/photo-1581833971358-2c8b550f87b3?w=500&h=500&fit=crop';
+                  }}
+                />
+                <div className="p-2 flex-1 flex flex-col gap-1">
+                  <span className="text-xs font-semibold leading-tight line-clamp-2">{product.nombre}</span>
+                  <span className="text-sm font-bold text-primary">{formatPrice(product.precio)}</span>
+                  <span className={`text-[11px] ${isAvailable ? 'text-muted-foreground' : 'text-destructive font-medium'}`}>
+                    {isAvailable ? `${product.cantidad_disponible} disponibles` : 'Agotado'}
+                  </span>
+                </div>
+              </button>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-8 rounded-none border-t text-xs"
+                disabled={!isAvailable || isUpdating}
+                onClick={() => addItem(product)}
+              >
+                <ShoppingCart className="h-3 w-3 mr-1" />
+                Agregar
+              </Button>
+            </div>
+          );
+        })}
+      </div>
+
+      <ProductQuickView
+        product={selectedProduct}
+        isOpen={!!selectedProduct}
+        onClose={() => openProduct(null)}
+        onAddToCart={(product) => addItem(product)}
+      />
+    </>
+  );
+};
@@ -0,0 +1,131 @@
+import React, { useMemo } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Skeleton } from '@/components/ui/skeleton';
+import { PlayCircle, X } from 'lucide-react';
+import { useProductsByIds } from '@/hooks/useProducts';
+import { buildProductComparison, ComparisonAttribute } from '@/utils/productComparison';
+
+interface ComparisonDialogProps {
+  productIds: string[];
+  isOpen: boolean;
+  onClose: () => void;
+  onRemove?: (productId: string) => void;
+}
+
+const formatPrice = (price: number) => {
+  return new Intl.NumberFormat('es-US', {
+    style: 'currency',
+    currency: 'USD',
+  }).format(price);
+};
+
+const formatValue = (attribute: ComparisonAttribute, value: string | number) => {
+  switch (attribute.key) {
+    case 'precio':
+      return formatPrice(Number(value));
+    case 'cantidad_disponible':
+      return Number(value) > 0 ? `${value} disponibles` : 'Agotado';
+    default:
+      return value;
+  }
+};
+
+// Side-by-side view of the products picked in the grid or compared by the assistant
+export const ComparisonDialog: React.FC<ComparisonDialogProps> = ({
+  productIds,
+  isOpen,
+  onClose,
+  onRemove,
+}) => {
+  const { data: products = [], isLoading } = useProductsByIds(productIds);
+  const comparison = useMemo(() => buildProductComparison(products), [products]);
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-5xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Comparar productos</DialogTitle>
+          <DialogDescription>
+            Las diferencias destacadas marcan el mejor precio y la mayor disponibilidad
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="grid grid-cols-2 gap-4">
+            {productIds.map(id => (
+              <Skeleton key={id} className="aspect-square w-full" />
+            ))}
+          </div>
+        ) : products.length < 2 ? (
+          <p className="text-center text-muted-foreground py-8">
+            Elige al menos dos productos con "Comparar" para verlos lado a lado.
+          </p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-28" />
+                {products.map(product => (
+                  <TableHead key={product.id} className="align-top py-3 min-w-[10rem]">
+                    <div className="relative">
+                      <img
+                        src={product.imagen_url}
+                        alt={product.nombre}
+                        className="aspect-square w-full rounded object-cover"
+                        onError={(e) => {
+                          const target = e.target as HTMLImageElement;
+                          target.src = 'https://images.unsplash.com/photo-1581833971358-2c8b550f87b3?w=500&h=500&fit=crop';
+                        }}
+                      />
+                      {onRemove && (
+                        <Button
+                          variant="secondary"
+                          size="icon"
+                          className="absolute top-1 right-1 h-6 w-6"
+                          onClick={() => onRemove(product.id)}
+                          aria-label={`Quitar ${product.nombre} de la comparación`}
+                        >
+                          <X className="h-3 w-3" />
+                        </Button>
+                      )}
+                    </div>
+                    <p className="font-semibold text-foreground mt-2 line-clamp-2">{product.nombre}</p>
+                    {product.video_url && (
+                      <a href={product.video_url} target="_blank" rel="noopener noreferrer">
+                        <Badge variant="outline" className="mt-1">
+                          <PlayCircle className="h-3 w-3 mr-1" />
+                          Video
+                        </Badge>
+                      </a>
+                    )}
+                  </TableHead>
+                ))}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {comparison.attributes.map(attribute => (
+                <TableRow key={attribute.key}>
+                  <TableCell className="font-medium text-muted-foreground align-top">{attribute.label}</TableCell>
+                  {attribute.values.map((value, index) => {
+                    const isBest = attribute.bestProductIds.includes(comparison.productIds[index]);
+                    return (
+                      <TableCell
+                        key={comparison.productIds[index]}
+                        className={`align-top ${attribute.key === 'descripcion' ? 'text-sm text-muted-foreground' : ''} ${isBest ? 'font-semibold text-primary' : ''}`}
+                      >
+                        {formatValue(attribute, value)}
+                      </TableCell>
+                    );
+                  })}
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
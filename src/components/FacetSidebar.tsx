@@ -0,0 +1,178 @@
+import React, { useState } from 'react';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
+import { Switch } from '@/components/ui/switch';
+import { Skeleton } from '@/components/ui/skeleton';
+import { ProductFacets, ProductFilters } from '@/types/database';
+
+interface FacetSidebarProps {
+  filters: ProductFilters;
+  onFiltersChange?: (filters: ProductFilters) => void;
+  facets?: ProductFacets;
+  isLoading?: boolean;
+}
+
+const formatPrice = (price: number) => {
+  return new Intl.NumberFormat('es-US', {
+    style: 'currency',
+    currency: 'USD',
+    maximumFractionDigits: 0,
+  }).format(price);
+};
+
+const describeBucket = (min: number, max: number | null) => {
+  if (max === null) return `Más de ${formatPrice(min)}`;
+  if (min === 0) return `Menos de ${formatPrice(max)}`;
+  return `${formatPrice(min)} - ${formatPrice(max)}`;
+};
+
+// Categories picked in the sidebar plus a single category set by the assistant
+const selectedCategories = (filters: ProductFilters) => {
+  const selected = new Set(filters.categorias || []);
+  if (filters.categoria) selected.add(filters.categoria);
+  return [...selected];
+};
+
+// Category, price and stock facets with counts for the current filters. Rendered as a sidebar
+// next to the grid on wide screens and inside a drawer elsewhere.
+export const FacetSidebar: React.FC<FacetSidebarProps> = ({ filters, onFiltersChange, facets, isLoading }) => {
+  // Slider position while dragging; filters only change when the thumb is released
+  const [draftPrice, setDraftPrice] = useState<number[] | null>(null);
+
+  if (isLoading && !facets) {
+    return (
+      <div className="space-y-3">
+        {Array.from({ length: 6 }).map((_, i) => (
+          <Skeleton key={i} className="h-5 w-full" />
+        ))}
+      </div>
+    );
+  }
+
+  if (!facets) return null;
+
+  const categories = selectedCategories(filters);
+  const range = facets.priceRange;
+  const priceValue = draftPrice ?? (range
+    ? [
+        Math.max(range.min, filters.precioMin ?? range.min),
+        Math.min(range.max, filters.precioMax ?? range.max),
+      ]
+    : []);
+
+  const toggleCategory = (categoria: string, checked: boolean) => {
+    const next = checked ? [...categories, categoria] : categories.filter(c => c !== categoria);
+    onFiltersChange?.({
+      ...filters,
+      categoria: undefined,
+      categorias: next.length > 0 ? next : undefined,
+    });
+  };
+
+  const applyPriceRange = ([min, max]: number[]) => {
+    setDraftPrice(null);
+    if (!range) return;
+    onFiltersChange?.({
+      ...filters,
+      precioMin: min > range.min ? min : undefined,
+      precioMax: max < range.max ? max : undefined,
+    });
+  };
+
+  const applyBucket = (min: number, max: number | null) => {
+    onFiltersChange?.({
+      ...filters,
+      precioMin: min > 0 ? min : undefined,
+      // Buckets exclude their upper bound
+      precioMax: max === null ? undefined : max - 0.01,
+    });
+  };
+
+  const isBucketActive = (min: number, max: number | null) =>
+    (filters.precioMin ?? 0) === min && (filters.precioMax ?? null) === (max === null ? null : max - 0.01);
+
+  return (
+    <div className="space-y-6 text-sm">
+      <section className="space-y-2">
+        <h3 className="font-semibold">Categorías</h3>
+        <ul className="space-y-2">
+          {facets.categories.map(({ categoria, count }) => {
+            const isChecked = categories.includes(categoria);
+            const id = `facet-categoria-${categoria}`;
+            return (
+              <li key={categoria} className="flex items-center gap-2">
+                <Checkbox
+                  id={id}
+                  checked={isChecked}
+                  disabled={count === 0 && !isChecked}
+                  onCheckedChange={(checked) => toggleCategory(categoria, checked === true)}
+                />
+                <Label htmlFor={id} className={`flex-1 font-normal ${count === 0 && !isChecked ? 'text-muted-foreground' : ''}`}>
+                  {categoria}
+                </Label>
+                <span className="text-xs text-muted-foreground">{count}</span>
+              </li>
+            );
+          })}
+        </ul>
+      </section>
+
+      {range && (
+        <section className="space-y-3">
+          <h3 className="font-semibold">Precio</h3>
+          {range.max > range.min && (
+            <>
+              <Slider
+                min={range.min}
+                max={range.max}
+                step={1}
+                minStepsBetweenThumbs={1}
+                value={priceValue}
+                onValueChange={setDraftPrice}
+                onValueCommit={applyPriceRange}
+                aria-label="Rango de precio"
+              />
+              <div className="flex justify-between text-xs text-muted-foreground">
+                <span>{formatPrice(priceValue[0])}</span>
+                <span>{formatPrice(priceValue[1])}</span>
+              </div>
+            </>
+          )}
+          <ul className="space-y-1">
+            {facets.priceBuckets.map(({ min, max, count }) => (
+              <li key={min}>
+                <button
+                  type="button"
+                  onClick={() => applyBucket(min, max)}
+                  disabled={count === 0}
+                  className={`w-full flex justify-between rounded px-2 py-1 text-left transition-colors hover:bg-muted disabled:pointer-events-none disabled:text-muted-foreground ${
+                    isBucketActive(min, max) ? 'bg-muted font-medium' : ''
+                  }`}
+                >
+                  <span>{describeBucket(min, max)}</span>
+                  <span className="text-xs text-muted-foreground">{count}</span>
+                </button>
+              </li>
+            ))}
+          </ul>
+        </section>
+      )}
+
+      <section className="space-y-2">
+        <h3 className="font-semibold">Disponibilidad</h3>
+        <div className="flex items-center gap-2">
+          <Switch
+            id="facet-en-stock"
+            checked={!!filters.soloEnStock}
+            onCheckedChange={(checked) => onFiltersChange?.({ ...filters, soloEnStock: checked || undefined })}
+          />
+          <Label htmlFor="facet-en-stock" className="flex-1 font-normal">
+            En stock
+          </Label>
+          <span className="text-xs text-muted-foreground">{facets.stock.inStock}</span>
+        </div>
+      </section>
+    </div>
+  );
+};
@@ -0,0 +1,86 @@
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { ChevronRight, Redo2, Undo2 } from 'lucide-react';
+import { AssistantFilterMode, FilterHistoryEntry, describeHistoryEntry } from '@/utils/filterHistory';
+
+interface FilterBreadcrumbsProps {
+  entries: FilterHistoryEntry[];
+  index: number;
+  canUndo: boolean;
+  canRedo: boolean;
+  onUndo: () => void;
+  onRedo: () => void;
+  onSelect: (index: number) => void;
+  assistantMode: AssistantFilterMode;
+  onAssistantModeChange: (mode: AssistantFilterMode) => void;
+}
+
+// Trail of filter changes above the grid ("Asistente: Televisores < $500"); any chip can be
+// clicked to go back to that state
+export const FilterBreadcrumbs: React.FC<FilterBreadcrumbsProps> = ({
+  entries,
+  index,
+  canUndo,
+  canRedo,
+  onUndo,
+  onRedo,
+  onSelect,
+  assistantMode,
+  onAssistantModeChange,
+}) => {
+  return (
+    <div className="px-4 py-2 border-b flex flex-wrap items-center gap-2 text-xs">
+      <div className="flex items-center gap-1">
+        <Button variant="ghost" size="icon" className="h-7 w-7" onClick={onUndo} disabled={!canUndo} aria-label="Deshacer filtros">
+          <Undo2 className="h-4 w-4" />
+        </Button>
+        <Button variant="ghost" size="icon" className="h-7 w-7" onClick={onRedo} disabled={!canRedo} aria-label="Rehacer filtros">
+          <Redo2 className="h-4 w-4" />
+        </Button>
+      </div>
+
+      <nav aria-label="Historial de filtros" className="flex-1 min-w-0 overflow-x-auto">
+        <ol className="flex items-center gap-1 whitespace-nowrap">
+          {entries.map((entry, entryIndex) => (
+            <li key={entryIndex} className="flex items-center gap-1">
+              {entryIndex > 0 && <ChevronRight className="h-3 w-3 text-muted-foreground" />}
+              <button
+                type="button"
+                onClick={() => onSelect(entryIndex)}
+                aria-current={entryIndex === index ? 'step' : undefined}
+                className={`rounded-full border px-2.5 py-0.5 transition-colors ${
+                  entryIndex === index
+                    ? 'bg-primary text-primary-foreground border-primary'
+                    : entryIndex > index
+                      ? 'text-muted-foreground/60 border-dashed hover:bg-muted'
+                      : 'hover:bg-muted'
+                }`}
+              >
+                {describeHistoryEntry(entry)}
+              </button>
+            </li>
+          ))}
+        </ol>
+      </nav>
+
+      <div className="flex items-center gap-2">
+        <span className="text-muted-foreground">Filtros del asistente:</span>
+        <ToggleGroup
+          type="single"
+          size="sm"
+          variant="outline"
+          value={assistantMode}
+          onValueChange={(value) => value && onAssistantModeChange(value as AssistantFilterMode)}
+        >
+          <ToggleGroupItem value="merge" className="h-7 px-2 text-xs" title="Mantener tus filtros y añadir los del asistente">
+            Combinar
+          </ToggleGroupItem>
+          <ToggleGroupItem value="replace" className="h-7 px-2 text-xs" title="Usar solo los filtros del asistente">
+            Reemplazar
+          </ToggleGroupItem>
+        </ToggleGroup>
+      </div>
+    </div>
+  );
+};
@@ -1,19 +1,24 @@
-import React, { useState, useRef, useEffect } from 'react';
+import React, { useState, useRef, useEffect, useCallback } from 'react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle, SheetTrigger } from '@/components/ui/sheet';
-import { MessageSquare, Send, Loader2, Mic, MicOff } from 'lucide-react';
+import { MessageSquare, Send, Loader2, Mic, MicOff, Timer } from 'lucide-react';
 import { ChatMessage } from './ChatMessage';
 import { VoiceIndicator } from './VoiceIndicator';
+import { SessionActions } from './SessionActions';
 import { useChat } from '@/hooks/useChat';
 import { useSpeechToText } from '@/hooks/useSpeechToText';
 import { useTextToSpeech } from '@/hooks/useTextToSpeech';
+import { useStreamingSpeech } from '@/hooks/useStreamingSpeech';
+import { LANGUAGE_PROFILES } from '@/utils/chatLanguage';
 import { ProductFilters } from '@/types/database';
+import { ProductComparison } from '@/utils/productComparison';
 import { VoiceAuditDisplay } from './VoiceAuditDisplay';
 
 interface MobileChatButtonProps {
   onFiltersChange?: (filters: ProductFilters) => void;
+  onComparison?: (comparison: ProductComparison) => void;
   isOpen: boolean;
   onOpenChange: (open: boolean) => void;
 }
@@ -30,6 +35,7 @@ const findLastBotMessage = (messages: any[]) => {
 
 export const MobileChatButton: React.FC<MobileChatButtonProps> = ({ 
   onFiltersChange, 
+  onComparison,
   isOpen, 
   onOpenChange 
 }) => {
@@ -37,7 +43,7 @@ export const MobileChatButton: React.FC<MobileChatButtonProps> = ({
   const scrollAreaRef = useRef<HTMLDivElement>(null);
   const lastBotMessageIdRef = useRef<string | null>(null);
   const [showVoiceAudit, setShowVoiceAudit] = useState(false);
-  const { messages, sendMessage, isSending, startChat } = useChat(onFiltersChange);
+  const { messages, sendMessage, isSending, streamingContent, isResumed, language, rateLimit } = useChat(onFiltersChange, onComparison);
 
   const {
     isListening,
@@ -72,11 +78,25 @@ export const MobileChatButton: React.FC<MobileChatButtonProps> = ({
     voiceAudit,
     runVoiceAudit,
     auditError
-  } = useTextToSpeech();
+  } = useTextToSpeech({ language: LANGUAGE_PROFILES[language].browserLocale });
+
+  // Start speaking on the first streamed sentence instead of waiting for the full reply
+  const {
+    handleStreamProgress,
+    speakFinalMessage,
+    reset: resetStreamingSpeech
+  } = useStreamingSpeech(speak);
+
+  const handleStopSpeaking = useCallback(() => {
+    resetStreamingSpeech();
+    stopSpeaking();
+  }, [resetStreamingSpeech, stopSpeaking]);
 
   useEffect(() => {
-    startChat();
-  }, [startChat]);
+    if (isOpen && ttsSupported && !isMuted && canAutoPlay) {
+      handleStreamProgress(streamingContent);
+    }
+  }, [streamingContent, handleStreamProgress, isOpen, ttsSupported, isMuted, canAutoPlay]);
 
   useEffect(() => {
     // Scroll to bottom when new messages arrive
@@ -110,6 +130,12 @@ export const MobileChatButton: React.FC<MobileChatButtonProps> = ({
     if (messages.length === 0 || isSending || !isOpen) return;
 
     const lastMessage = messages[messages.length - 1];
+
+    // A restored conversation is shown but its history is not read aloud again
+    if (isResumed && lastBotMessageIdRef.current === null) {
+      lastBotMessageIdRef.current = findLastBotMessage(messages)?.id ?? '';
+      return;
+    }
     
     if (lastMessage && 
         lastMessage.sender === 'bot' && 
@@ -124,16 +150,16 @@ export const MobileChatButton: React.FC<MobileChatButtonProps> = ({
       // Mobile TTS auto-play - immediate if we have permission
       if (canAutoPlay) {
         console.log('📱 Mobile auto-playing TTS response immediately');
-        speak(lastMessage.content, lastMessage.id);
+        speakFinalMessage(lastMessage.content);
       } else {
         console.log('📱 Mobile TTS auto-play requires user gesture - will play on next interaction');
       }
     }
-  }, [messages, speak, ttsSupported, isMuted, isOpen, isSending, canAutoPlay]);
+  }, [messages, speakFinalMessage, ttsSupported, isMuted, isOpen, isSending, canAutoPlay, isResumed]);
 
   const handleSendMessage = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (!inputValue.trim() || isSending) return;
+    if (!inputValue.trim() || isSending || rateLimit) return;
 
     const userMessage = inputValue.trim();
     setInputValue('');
@@ -145,6 +171,11 @@ export const MobileChatButton: React.FC<MobileChatButtonProps> = ({
     }
   };
 
+  const handleQuickReply = (text: string) => {
+    if (isSending || rateLimit) return;
+    sendMessage({ content: text, sender: 'user' });
+  };
+
   const handleVoiceToggle = async () => {
     if (isListening || speechInitializing) {
       console.log('📱 Stopping mobile voice input');
@@ -154,7 +185,7 @@ export const MobileChatButton: React.FC<MobileChatButtonProps> = ({
       
       // Stop TTS when starting to listen
       if (isSpeaking) {
-        stopSpeaking();
+        handleStopSpeaking();
       }
       
       // Request TTS permission when user taps mic (critical for mobile auto-play)
@@ -173,7 +204,15 @@ export const MobileChatButton: React.FC<MobileChatButtonProps> = ({
     }
     
     const welcomeMessage = "¡Hola! Soy tu asistente de compras de StrateAI. Puedo ayudarte a encontrar productos específicos basándome en nuestro inventario real. Por ejemplo, puedes preguntarme: Muéstrame televisores de 55 pulgadas bajo 800 dólares o Busco audífonos inalámbricos. ¿En qué puedo ayudarte hoy?";
-    sendMessage({ content: welcomeMessage, sender: 'bot' });
+    sendMessage({
+      content: welcomeMessage,
+      sender: 'bot',
+      // The examples from the welcome text as one-tap starters
+      payload: {
+        productIds: [],
+        quickReplies: ['Muéstrame televisores de 55 pulgadas bajo 800 dólares', 'Busco audífonos inalámbricos', '¿Qué categorías tienen?'],
+      },
+    });
   };
 
   const voiceButtonVariant = (isListening || speechInitializing) ? "destructive" : "outline";
@@ -210,6 +249,7 @@ export const MobileChatButton: React.FC<MobileChatButtonProps> = ({
                   </SheetDescription>
                 </div>
               </div>
+              <SessionActions className="ml-auto mr-1" />
               <Button
                 variant="ghost"
                 size="sm"
@@ -240,7 +280,7 @@ export const MobileChatButton: React.FC<MobileChatButtonProps> = ({
                 speechSupported={speechSupported}
                 ttsSupported={ttsSupported}
                 isMuted={isMuted}
-                onStopSpeaking={stopSpeaking}
+                onStopSpeaking={handleStopSpeaking}
                 onReplay={replayLastMessage}
                 onToggleMute={toggleMute}
                 className="justify-start"
@@ -266,11 +306,22 @@ export const MobileChatButton: React.FC<MobileChatButtonProps> = ({
               <div className="space-y-0">
                 {messages.map((message, index) => (
                   <React.Fragment key={message.id}>
-                    <ChatMessage message={message} />
+                    <ChatMessage
+                      message={message}
+                      onQuickReply={index === messages.length - 1 && !isSending ? handleQuickReply : undefined}
+                    />
                     {index < messages.length - 1 && <div className="border-t border-border/50" />}
                   </React.Fragment>
                 ))}
-                {isSending && (
+                {streamingContent && (
+                  <>
+                    <div className="border-t border-border/50" />
+                    <ChatMessage
+                      message={{ id: 'streaming', sender: 'bot', content: streamingContent, timestamp: new Date() }}
+                    />
+                  </>
+                )}
+                {isSending && !streamingContent && (
                   <>
                     <div className="border-t border-border/50" />
                     <div className="flex gap-3 p-4 bg-muted/50">
@@ -301,6 +352,16 @@ export const MobileChatButton: React.FC<MobileChatButtonProps> = ({
             </div>
           )}
 
+          {/* Too many messages: sending resumes when the countdown ends */}
+          {rateLimit && (
+            <div className="px-4 py-2 bg-amber-50 border-t border-amber-200" role="status">
+              <p className="text-xs text-amber-800 flex items-center gap-1">
+                <Timer className="h-3 w-3" />
+                Has enviado muchos mensajes seguidos. Podrás escribir de nuevo en {rateLimit.secondsLeft} s.
+              </p>
+            </div>
+          )}
+
           {/* Input Area */}
           <div className="p-4 border-t bg-background/95 backdrop-blur-sm">
             <form onSubmit={handleSendMessage} className="flex gap-2">
@@ -308,7 +369,7 @@ export const MobileChatButton: React.FC<MobileChatButtonProps> = ({
                 value={inputValue}
                 onChange={(e) => setInputValue(e.target.value)}
                 placeholder={speechSupported ? "Escribe o usa el micrófono..." : "Pregúntame sobre productos disponibles..."}
-                disabled={isSending || isListening || speechInitializing}
+                disabled={isSending || isListening || speechInitializing || !!rateLimit}
                 className="flex-1"
                 maxLength={500}
               />
@@ -316,7 +377,7 @@ export const MobileChatButton: React.FC<MobileChatButtonProps> = ({
                 <Button
                   type="button"
                   onClick={handleVoiceToggle}
-                  disabled={isSending}
+                  disabled={isSending || !!rateLimit}
                   size="icon"
                   variant={voiceButtonVariant}
                   className={`transition-colors ${voiceButtonClass}`}
@@ -342,7 +403,7 @@ export const MobileChatButton: React.FC<MobileChatButtonProps> = ({
               )}
               <Button 
                 type="submit" 
-                disabled={!inputValue.trim() || isSending || isListening || speechInitializing}
+                disabled={!inputValue.trim() || isSending || isListening || speechInitializing || !!rateLimit}
                 size="icon"
                 aria-label="Enviar mensaje"
               >
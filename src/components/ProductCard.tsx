@@ -2,14 +2,19 @@
 import React from 'react';
 import { Card, CardContent } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { GitCompare, ShoppingCart } from 'lucide-react';
 import { Producto } from '@/types/database';
 
 interface ProductCardProps {
   product: Producto;
   onClick?: () => void;
+  onAddToCart?: () => void;
+  isCompared?: boolean;
+  onToggleCompare?: () => void;
 }
 
-export const ProductCard: React.FC<ProductCardProps> = ({ product, onClick }) => {
+export const ProductCard: React.FC<ProductCardProps> = ({ product, onClick, onAddToCart, isCompared, onToggleCompare }) => {
   const formatPrice = (price: number) => {
     return new Intl.NumberFormat('es-US', {
       style: 'currency',
@@ -32,6 +37,23 @@ export const ProductCard: React.FC<ProductCardProps> = ({ product, onClick }) =>
             target.src = 'https://images.unsplash.com/photo-1581833971358-2c8b550f87b3?w=500&h=500&fit=crop';
           }}
         />
+        {onToggleCompare && (
+          <div className="absolute top-2 left-2">
+            <Button
+              variant={isCompared ? 'default' : 'secondary'}
+              size="sm"
+              className={`h-7 px-2 text-xs ${isCompared ? '' : 'bg-background/90 backdrop-blur-sm'}`}
+              aria-pressed={!!isCompared}
+              onClick={(e) => {
+                e.stopPropagation();
+                onToggleCompare();
+              }}
+            >
+              <GitCompare className="h-3 w-3 mr-1" />
+              Comparar
+            </Button>
+          </div>
+        )}
         <div className="absolute top-2 right-2">
           <Badge variant="secondary" className="bg-background/90 backdrop-blur-sm">
             {product.categoria}
@@ -63,6 +85,21 @@ export const ProductCard: React.FC<ProductCardProps> = ({ product, onClick }) =>
             {product.cantidad_disponible > 0 ? `${product.cantidad_disponible} disponibles` : 'Agotado'}
           </Badge>
         </div>
+        {onAddToCart && (
+          <Button
+            size="sm"
+            className="w-full mt-3"
+            disabled={product.cantidad_disponible <= 0}
+            onClick={(e) => {
+              // Keep the card click (quick view) from firing
+              e.stopPropagation();
+              onAddToCart();
+            }}
+          >
+            <ShoppingCart className="h-4 w-4 mr-2" />
+            Agregar al carrito
+          </Button>
+        )}
       </CardContent>
     </Card>
   );
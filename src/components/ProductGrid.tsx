@@ -1,45 +1,138 @@
 
-import React, { useState } from 'react';
+import React, { useState, useMemo, useRef, useEffect } from 'react';
 import { ProductCard } from './ProductCard';
 import { ProductQuickView } from './ProductQuickView';
 import { Skeleton } from '@/components/ui/skeleton';
 import { Alert, AlertDescription } from '@/components/ui/alert';
-import { AlertCircle, Package } from 'lucide-react';
-import { useProducts, useCategories } from '@/hooks/useProducts';
+import { AlertCircle, GitCompare, Loader2, Package, SlidersHorizontal } from 'lucide-react';
+import { FacetSidebar } from './FacetSidebar';
+import { useProducts, useProductFacets } from '@/hooks/useProducts';
+import { useCart } from '@/hooks/useCart';
+import { useToast } from '@/hooks/use-toast';
+import { usePageContext } from '@/hooks/usePageContext';
+import { useVirtualGrid } from '@/hooks/useVirtualGrid';
+import { COMPARISON_LIMITS } from '@/utils/productComparison';
+import { normalizeFilters } from '@/utils/filterHistory';
+import { DEFAULT_PRODUCT_SORT, PRODUCT_SORT_LABELS, isProductSort } from '@/utils/productSort';
 import { ProductFilters, Producto } from '@/types/database';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle, SheetTrigger } from '@/components/ui/sheet';
 import { Button } from '@/components/ui/button';
 
+// Virtualized grid layout; cards keep at least this width and rows are measured once rendered
+const GRID_MIN_CARD_WIDTH = 220;
+const GRID_GAP = 16;
+const GRID_ESTIMATED_ROW_HEIGHT = 380;
+// Start loading the next page this many rows before the end of the list
+const GRID_PREFETCH_ROWS = 3;
+
 interface ProductGridProps {
   filters?: ProductFilters;
   onFiltersChange?: (filters: ProductFilters) => void;
+  // Products picked with "Comparar"; shared with the comparison view and the assistant
+  compareIds?: string[];
+  onCompareIdsChange?: (ids: string[]) => void;
+  onOpenComparison?: () => void;
+  // When set, clicking a product calls this instead of opening the grid's own quick view
+  onOpenProduct?: (product: Producto) => void;
 }
 
-export const ProductGrid: React.FC<ProductGridProps> = ({ filters, onFiltersChange }) => {
-  const { data: products, isLoading, error } = useProducts(filters);
-  const { data: categories } = useCategories();
+export const ProductGrid: React.FC<ProductGridProps> = ({
+  filters,
+  onFiltersChange,
+  compareIds = [],
+  onCompareIdsChange,
+  onOpenComparison,
+  onOpenProduct,
+}) => {
+  const {
+    data,
+    isLoading,
+    error,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+  } = useProducts(filters);
+  const products = useMemo(() => data?.pages.flatMap(page => page.items) ?? [], [data]);
+  const { data: facets, isLoading: isLoadingFacets } = useProductFacets(filters);
+  const { addItem } = useCart();
+  const { toast } = useToast();
+  const { setOpenProductId } = usePageContext();
   const [selectedProduct, setSelectedProduct] = useState<Producto | null>(null);
   const [isQuickViewOpen, setIsQuickViewOpen] = useState(false);
 
-  const handleCategoryChange = (categoria: string) => {
-    onFiltersChange?.({
-      ...filters,
-      categoria: categoria === 'all' ? undefined : categoria,
-    });
-  };
+  // Only the rows near the viewport are mounted; more pages load as the shopper nears the end
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const listRef = useRef<HTMLDivElement>(null);
+  const { columns, rows, totalHeight, lastVisibleRow, rowCount, measureRow } = useVirtualGrid(scrollRef, listRef, {
+    itemCount: products.length,
+    minItemWidth: GRID_MIN_CARD_WIDTH,
+    gap: GRID_GAP,
+    estimatedRowHeight: GRID_ESTIMATED_ROW_HEIGHT,
+  });
+
+  useEffect(() => {
+    if (hasNextPage && !isFetchingNextPage && lastVisibleRow >= rowCount - GRID_PREFETCH_ROWS) {
+      fetchNextPage();
+    }
+  }, [hasNextPage, isFetchingNextPage, lastVisibleRow, rowCount, fetchNextPage]);
+
+  // New filters or a new order start again from the top
+  useEffect(() => {
+    scrollRef.current?.scrollTo({ top: 0 });
+  }, [filters]);
 
   const clearFilters = () => {
-    onFiltersChange?.({});
+    onFiltersChange?.(filters?.sort ? { sort: filters.sort } : {});
+  };
+
+  const handleSortChange = (sort: string) => {
+    if (!isProductSort(sort)) return;
+    onFiltersChange?.({ ...filters, sort: sort === DEFAULT_PRODUCT_SORT ? undefined : sort });
+  };
+
+  // The order is not a filter: it survives "Limpiar filtros" and is not counted
+  const { sort: _sort, ...activeFilters } = normalizeFilters(filters || {});
+  const activeFilterCount = Object.keys(activeFilters).length;
+
+  const facetSidebar = (
+    <FacetSidebar
+      filters={filters || {}}
+      onFiltersChange={onFiltersChange}
+      facets={facets}
+      isLoading={isLoadingFacets}
+    />
+  );
+
+  const toggleCompare = (product: Producto) => {
+    if (compareIds.includes(product.id)) {
+      onCompareIdsChange?.(compareIds.filter(id => id !== product.id));
+      return;
+    }
+    if (compareIds.length >= COMPARISON_LIMITS.MAX_PRODUCTS) {
+      toast({
+        title: 'Comparación completa',
+        description: `Puedes comparar hasta ${COMPARISON_LIMITS.MAX_PRODUCTS} productos a la vez.`,
+      });
+      return;
+    }
+    onCompareIdsChange?.([...compareIds, product.id]);
   };
 
   const handleProductClick = (product: Producto) => {
+    if (onOpenProduct) {
+      onOpenProduct(product);
+      return;
+    }
     setSelectedProduct(product);
     setIsQuickViewOpen(true);
+    setOpenProductId(product.id);
   };
 
   const handleCloseQuickView = () => {
     setIsQuickViewOpen(false);
     setSelectedProduct(null);
+    setOpenProductId(null);
   };
 
   if (error) {
@@ -62,74 +155,142 @@ export const ProductGrid: React.FC<ProductGridProps> = ({ filters, onFiltersChan
         <div className="flex flex-col sm:flex-row gap-4 items-start sm:items-center justify-between">
           <div className="flex flex-col sm:flex-row gap-2 items-start sm:items-center">
             <h2 className="text-xl font-semibold">Productos</h2>
-            {products && (
+            {(facets || data) && (
               <span className="text-sm text-muted-foreground">
-                {products.length} productos encontrados
+                {facets?.total ?? products.length} productos encontrados
               </span>
             )}
           </div>
           <div className="flex gap-2 items-center w-full sm:w-auto">
-            <Select
-              value={filters?.categoria || 'all'}
-              onValueChange={handleCategoryChange}
-            >
-              <SelectTrigger className="w-full sm:w-40">
-                <SelectValue placeholder="Categoría" />
+            <Select value={filters?.sort || DEFAULT_PRODUCT_SORT} onValueChange={handleSortChange}>
+              <SelectTrigger className="w-full sm:w-48" aria-label="Ordenar productos">
+                <SelectValue placeholder="Ordenar" />
               </SelectTrigger>
               <SelectContent>
-                <SelectItem value="all">Todas las categorías</SelectItem>
-                {categories?.map((categoria) => (
-                  <SelectItem key={categoria} value={categoria}>
-                    {categoria}
+                {Object.entries(PRODUCT_SORT_LABELS).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>
+                    {label}
                   </SelectItem>
                 ))}
               </SelectContent>
             </Select>
-            {(filters?.categoria || filters?.searchTerm) && (
+            {/* Below xl the facets live in a drawer; on wide screens they are the sidebar */}
+            <Sheet>
+              <SheetTrigger asChild>
+                <Button variant="outline" size="sm" className="xl:hidden">
+                  <SlidersHorizontal className="h-4 w-4 mr-2" />
+                  Filtros
+                  {activeFilterCount > 0 && (
+                    <span className="ml-2 rounded-full bg-primary px-1.5 text-xs text-primary-foreground">
+                      {activeFilterCount}
+                    </span>
+                  )}
+                </Button>
+              </SheetTrigger>
+              <SheetContent side="left" className="w-full sm:max-w-xs overflow-y-auto">
+                <SheetHeader className="mb-4">
+                  <SheetTitle>Filtros</SheetTitle>
+                  <SheetDescription>
+                    {facets ? `${facets.total} productos con estos filtros` : 'Refina los productos del catálogo'}
+                  </SheetDescription>
+                </SheetHeader>
+                {facetSidebar}
+              </SheetContent>
+            </Sheet>
+            {activeFilterCount > 0 && (
               <Button variant="outline" size="sm" onClick={clearFilters}>
                 Limpiar filtros
               </Button>
             )}
           </div>
         </div>
+        {compareIds.length > 0 && (
+          <div className="flex items-center gap-2 mt-3 text-sm">
+            <GitCompare className="h-4 w-4 text-muted-foreground" />
+            <span className="text-muted-foreground">
+              {compareIds.length} de {COMPARISON_LIMITS.MAX_PRODUCTS} para comparar
+            </span>
+            <Button
+              size="sm"
+              className="ml-auto"
+              onClick={onOpenComparison}
+              disabled={compareIds.length < COMPARISON_LIMITS.MIN_PRODUCTS}
+            >
+              Comparar
+            </Button>
+            <Button variant="ghost" size="sm" onClick={() => onCompareIdsChange?.([])}>
+              Limpiar
+            </Button>
+          </div>
+        )}
       </div>
 
-      {/* Products Grid - Fully Scrollable Container */}
-      <div className="flex-1 overflow-auto">
-        <div className="p-4">
-          {isLoading ? (
-            <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-4">
-              {Array.from({ length: 8 }).map((_, i) => (
-                <div key={i} className="space-y-3">
-                  <Skeleton className="aspect-square w-full" />
-                  <Skeleton className="h-4 w-3/4" />
-                  <Skeleton className="h-4 w-1/2" />
-                  <Skeleton className="h-8 w-1/3" />
+      <div className="flex-1 flex min-h-0">
+        <aside className="hidden xl:block w-60 flex-shrink-0 border-r overflow-y-auto p-4" aria-label="Filtros">
+          {facetSidebar}
+        </aside>
+
+        {/* Products Grid - Fully Scrollable Container */}
+        <div ref={scrollRef} className="flex-1 overflow-auto">
+          <div className="p-4">
+            {isLoading ? (
+              <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-4">
+                {Array.from({ length: 8 }).map((_, i) => (
+                  <div key={i} className="space-y-3">
+                    <Skeleton className="aspect-square w-full" />
+                    <Skeleton className="h-4 w-3/4" />
+                    <Skeleton className="h-4 w-1/2" />
+                    <Skeleton className="h-8 w-1/3" />
+                  </div>
+                ))}
+              </div>
+            ) : products.length === 0 && (
+              <div className="flex flex-col items-center justify-center min-h-[400px] text-center p-8">
+                <Package className="h-16 w-16 text-muted-foreground mb-4" />
+                <h3 className="text-xl font-semibold mb-2">No se encontraron productos</h3>
+                <p className="text-muted-foreground mb-4 max-w-md">
+                  Intenta ajustar los filtros de búsqueda o usa el chat para encontrar productos específicos
+                </p>
+                <Button variant="outline" onClick={clearFilters}>
+                  Ver todos los productos
+                </Button>
+              </div>
+            )}
+
+            {/* Stays mounted so the virtualizer can measure its width */}
+            <div ref={listRef} className="relative" style={{ height: totalHeight }}>
+              {rows.map(row => (
+                <div
+                  key={row.index}
+                  ref={measureRow(row.index)}
+                  className="absolute inset-x-0 grid"
+                  style={{
+                    top: row.top,
+                    gap: GRID_GAP,
+                    gridTemplateColumns: `repeat(${columns}, minmax(0, 1fr))`,
+                  }}
+                >
+                  {products.slice(row.start, row.end).map(product => (
+                    <ProductCard 
+                      key={product.id} 
+                      product={product}
+                      onClick={() => handleProductClick(product)}
+                      onAddToCart={() => addItem(product)}
+                      isCompared={compareIds.includes(product.id)}
+                      onToggleCompare={onCompareIdsChange ? () => toggleCompare(product) : undefined}
+                    />
+                  ))}
                 </div>
               ))}
             </div>
-          ) : products && products.length > 0 ? (
-            <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-4">
-              {products.map((product) => (
-                <ProductCard 
-                  key={product.id} 
-                  product={product}
-                  onClick={() => handleProductClick(product)}
-                />
-              ))}
-            </div>
-          ) : (
-            <div className="flex flex-col items-center justify-center min-h-[400px] text-center p-8">
-              <Package className="h-16 w-16 text-muted-foreground mb-4" />
-              <h3 className="text-xl font-semibold mb-2">No se encontraron productos</h3>
-              <p className="text-muted-foreground mb-4 max-w-md">
-                Intenta ajustar los filtros de búsqueda o usa el chat para encontrar productos específicos
-              </p>
-              <Button variant="outline" onClick={clearFilters}>
-                Ver todos los productos
-              </Button>
-            </div>
-          )}
+
+            {isFetchingNextPage && (
+              <div className="flex items-center justify-center gap-2 py-6 text-sm text-muted-foreground">
+                <Loader2 className="h-4 w-4 animate-spin" />
+                Cargando más productos...
+              </div>
+            )}
+          </div>
         </div>
       </div>
 
@@ -138,6 +299,7 @@ export const ProductGrid: React.FC<ProductGridProps> = ({ filters, onFiltersChan
         product={selectedProduct}
         isOpen={isQuickViewOpen}
         onClose={handleCloseQuickView}
+        onAddToCart={(product) => addItem(product)}
       />
     </div>
   );
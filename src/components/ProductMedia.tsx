@@ -0,0 +1,154 @@
+import React, { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { ChevronLeft, ChevronRight } from 'lucide-react';
+import { Producto } from '@/types/database';
+import { getProductImages, getYouTubeEmbedUrl, isYouTubeUrl } from '@/utils/productMedia';
+
+interface ProductMediaProps {
+  product: Producto;
+  // Aspect ratio and sizing of the main image
+  imageClassName?: string;
+  // Row of clickable thumbnails under the main image
+  showThumbnails?: boolean;
+}
+
+const FALLBACK_IMAGE = 'https://images.unsplash.com/photo-1581833971358-2c8b550f87b3?w=800&h=800&fit=crop';
+
+// Image carousel and product video, shared by the quick view and the product page
+export const ProductMedia: React.FC<ProductMediaProps> = ({
+  product,
+  imageClassName = 'aspect-square lg:aspect-[4/3]',
+  showThumbnails = false,
+}) => {
+  const [currentImageIndex, setCurrentImageIndex] = useState(0);
+  const [videoError, setVideoError] = useState(false);
+
+  // Reset state when product changes
+  useEffect(() => {
+    setCurrentImageIndex(0);
+    setVideoError(false);
+  }, [product.id]);
+
+  const allImages = getProductImages(product);
+
+  const nextImage = () => {
+    setCurrentImageIndex((prev) => (prev + 1) % allImages.length);
+  };
+
+  const prevImage = () => {
+    setCurrentImageIndex((prev) => (prev - 1 + allImages.length) % allImages.length);
+  };
+
+  const handleVideoError = () => {
+    setVideoError(true);
+  };
+
+  return (
+    <>
+      {/* Image Carousel */}
+      <div className={`relative ${imageClassName}`}>
+        {allImages.length > 0 ? (
+          <>
+            <img
+              src={allImages[currentImageIndex]}
+              alt={product.nombre}
+              className="w-full h-full object-cover"
+              onError={(e) => {
+                const target = e.target as HTMLImageElement;
+                target.src = FALLBACK_IMAGE;
+              }}
+            />
+
+            {/* Navigation Arrows - only show if multiple images */}
+            {allImages.length > 1 && (
+              <>
+                <Button
+                  variant="outline"
+                  size="icon"
+                  className="absolute left-2 top-1/2 -translate-y-1/2 bg-background/80 backdrop-blur-sm"
+                  onClick={prevImage}
+                  aria-label="Imagen anterior"
+                >
+                  <ChevronLeft className="h-4 w-4" />
+                </Button>
+                <Button
+                  variant="outline"
+                  size="icon"
+                  className="absolute right-2 top-1/2 -translate-y-1/2 bg-background/80 backdrop-blur-sm"
+                  onClick={nextImage}
+                  aria-label="Imagen siguiente"
+                >
+                  <ChevronRight className="h-4 w-4" />
+                </Button>
+              </>
+            )}
+
+            {/* Image Indicators - only show if multiple images */}
+            {allImages.length > 1 && !showThumbnails && (
+              <div className="absolute bottom-4 left-1/2 -translate-x-1/2 flex gap-2">
+                {allImages.map((_, index) => (
+                  <button
+                    key={index}
+                    className={`w-2 h-2 rounded-full transition-colors ${
+                      index === currentImageIndex ? 'bg-white' : 'bg-white/50'
+                    }`}
+                    onClick={() => setCurrentImageIndex(index)}
+                  />
+                ))}
+              </div>
+            )}
+          </>
+        ) : (
+          <div className="w-full h-full flex items-center justify-center bg-muted">
+            <span className="text-muted-foreground">No image available</span>
+          </div>
+        )}
+      </div>
+
+      {showThumbnails && allImages.length > 1 && (
+        <div className="flex gap-2 overflow-x-auto p-2">
+          {allImages.map((image, index) => (
+            <button
+              key={image}
+              type="button"
+              onClick={() => setCurrentImageIndex(index)}
+              className={`h-16 w-16 flex-shrink-0 overflow-hidden rounded-md border-2 transition-colors ${
+                index === currentImageIndex ? 'border-primary' : 'border-transparent opacity-70 hover:opacity-100'
+              }`}
+              aria-label={`Ver imagen ${index + 1} de ${allImages.length}`}
+              aria-current={index === currentImageIndex}
+            >
+              <img src={image} alt="" className="h-full w-full object-cover" loading="lazy" />
+            </button>
+          ))}
+        </div>
+      )}
+
+      {/* Video Section - only render if video_url exists and no error */}
+      {product.video_url && !videoError && (
+        <div className="aspect-video bg-black">
+          {isYouTubeUrl(product.video_url) ? (
+            <iframe
+              src={getYouTubeEmbedUrl(product.video_url) || ''}
+              className="w-full h-full"
+              title={`Video de ${product.nombre}`}
+              allow="accelerometer; autoplay; clipboard-write; encrypted-media; gyroscope; picture-in-picture"
+              allowFullScreen
+              onError={handleVideoError}
+            />
+          ) : (
+            <video
+              className="w-full h-full"
+              controls
+              muted
+              onError={handleVideoError}
+            >
+              <source src={product.video_url} type="video/mp4" />
+              Your browser does not support the video tag.
+            </video>
+          )}
+        </div>
+      )}
+    </>
+  );
+};
@@ -1,41 +1,28 @@
 
-import React, { useState, useEffect } from 'react';
+import React from 'react';
+import { Link } from 'react-router-dom';
 import { Dialog, DialogContent, DialogClose } from '@/components/ui/dialog';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
-import { X, ChevronLeft, ChevronRight } from 'lucide-react';
+import { X, ExternalLink, ShoppingCart } from 'lucide-react';
+import { ProductMedia } from './ProductMedia';
 import { Producto } from '@/types/database';
 
 interface ProductQuickViewProps {
   product: Producto | null;
   isOpen: boolean;
   onClose: () => void;
+  onAddToCart?: (product: Producto) => void;
 }
 
 export const ProductQuickView: React.FC<ProductQuickViewProps> = ({
   product,
   isOpen,
   onClose,
+  onAddToCart,
 }) => {
-  const [currentImageIndex, setCurrentImageIndex] = useState(0);
-  const [videoError, setVideoError] = useState(false);
-
-  // Reset state when product changes
-  useEffect(() => {
-    if (product) {
-      setCurrentImageIndex(0);
-      setVideoError(false);
-    }
-  }, [product]);
-
   if (!product) return null;
 
-  // Combine main image with additional images - handle null/undefined arrays safely
-  const allImages = [
-    product.imagen_url,
-    ...(product.imagenes_urls || [])
-  ].filter(Boolean);
-
   const formatPrice = (price: number) => {
     return new Intl.NumberFormat('es-US', {
       style: 'currency',
@@ -43,29 +30,6 @@ export const ProductQuickView: React.FC<ProductQuickViewProps> = ({
     }).format(price);
   };
 
-  const nextImage = () => {
-    setCurrentImageIndex((prev) => (prev + 1) % allImages.length);
-  };
-
-  const prevImage = () => {
-    setCurrentImageIndex((prev) => (prev - 1 + allImages.length) % allImages.length);
-  };
-
-  const handleVideoError = () => {
-    setVideoError(true);
-  };
-
-  const isYouTubeUrl = (url: string) => {
-    return url.includes('youtube.com') || url.includes('youtu.be');
-  };
-
-  const getYouTubeEmbedUrl = (url: string) => {
-    const videoId = url.includes('youtu.be') 
-      ? url.split('youtu.be/')[1]?.split('?')[0]
-      : url.split('v=')[1]?.split('&')[0];
-    return videoId ? `https://www.youtube.com/embed/${videoId}?autoplay=0&mute=1` : null;
-  };
-
   return (
     <Dialog open={isOpen} onOpenChange={onClose}>
       <DialogContent className="max-w-4xl max-h-[90vh] p-0 overflow-hidden">
@@ -77,88 +41,7 @@ export const ProductQuickView: React.FC<ProductQuickViewProps> = ({
         <div className="flex flex-col lg:flex-row">
           {/* Media Section */}
           <div className="flex-1 bg-muted/20">
-            {/* Image Carousel */}
-            <div className="relative aspect-square lg:aspect-[4/3]">
-              {allImages.length > 0 ? (
-                <>
-                  <img
-                    src={allImages[currentImageIndex]}
-                    alt={product.nombre}
-                    className="w-full h-full object-cover"
-                    onError={(e) => {
-                      const target = e.target as HTMLImageElement;
-                      target.src = 'https://images.unsplash.com/photo-1581833971358-2c8b550f87b3?w=800&h=800&fit=crop';
-                    }}
-                  />
-                  
-                  {/* Navigation Arrows - only show if multiple images */}
-                  {allImages.length > 1 && (
-                    <>
-                      <Button
-                        variant="outline"
-                        size="icon"
-                        className="absolute left-2 top-1/2 -translate-y-1/2 bg-background/80 backdrop-blur-sm"
-                        onClick={prevImage}
-                      >
-                        <ChevronLeft className="h-4 w-4" />
-                      </Button>
-                      <Button
-                        variant="outline"
-                        size="icon"
-                        className="absolute right-2 top-1/2 -translate-y-1/2 bg-background/80 backdrop-blur-sm"
-                        onClick={nextImage}
-                      >
-                        <ChevronRight className="h-4 w-4" />
-                      </Button>
-                    </>
-                  )}
-
-                  {/* Image Indicators - only show if multiple images */}
-                  {allImages.length > 1 && (
-                    <div className="absolute bottom-4 left-1/2 -translate-x-1/2 flex gap-2">
-                      {allImages.map((_, index) => (
-                        <button
-                          key={index}
-                          className={`w-2 h-2 rounded-full transition-colors ${
-                            index === currentImageIndex ? 'bg-white' : 'bg-white/50'
-                          }`}
-                          onClick={() => setCurrentImageIndex(index)}
-                        />
-                      ))}
-                    </div>
-                  )}
-                </>
-              ) : (
-                <div className="w-full h-full flex items-center justify-center bg-muted">
-                  <span className="text-muted-foreground">No image available</span>
-                </div>
-              )}
-            </div>
-
-            {/* Video Section - only render if video_url exists and no error */}
-            {product.video_url && !videoError && (
-              <div className="aspect-video bg-black">
-                {isYouTubeUrl(product.video_url) ? (
-                  <iframe
-                    src={getYouTubeEmbedUrl(product.video_url) || ''}
-                    className="w-full h-full"
-                    allow="accelerometer; autoplay; clipboard-write; encrypted-media; gyroscope; picture-in-picture"
-                    allowFullScreen
-                    onError={handleVideoError}
-                  />
-                ) : (
-                  <video
-                    className="w-full h-full"
-                    controls
-                    muted
-                    onError={handleVideoError}
-                  >
-                    <source src={product.video_url} type="video/mp4" />
-                    Your browser does not support the video tag.
-                  </video>
-                )}
-              </div>
-            )}
+            <ProductMedia product={product} />
           </div>
 
           {/* Product Details Section */}
@@ -188,6 +71,24 @@ export const ProductQuickView: React.FC<ProductQuickViewProps> = ({
                     : 'Agotado'
                   }
                 </Badge>
+
+                {onAddToCart && (
+                  <Button
+                    className="w-full mt-4"
+                    disabled={product.cantidad_disponible <= 0}
+                    onClick={() => onAddToCart(product)}
+                  >
+                    <ShoppingCart className="h-4 w-4 mr-2" />
+                    Agregar al carrito
+                  </Button>
+                )}
+
+                <Button variant="link" className="w-full mt-1" asChild>
+                  <Link to={`/producto/${product.id}`}>
+                    <ExternalLink className="h-4 w-4 mr-2" />
+                    Ver página del producto
+                  </Link>
+                </Button>
               </div>
 
               {/* Description */}
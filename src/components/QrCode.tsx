@@ -0,0 +1,39 @@
+import React, { useMemo } from 'react';
+import { encodeQrCode } from '@/utils/qrCode';
+import { cn } from '@/lib/utils';
+
+interface QrCodeProps {
+  value: string;
+  title: string;
+  className?: string;
+}
+
+// Light margin scanners need around the code, in modules
+const QUIET_ZONE = 4;
+
+// QR code drawn as a single SVG path, one unit per module, so it stays sharp at any size
+export const QrCode: React.FC<QrCodeProps> = ({ value, title, className }) => {
+  const { path, size } = useMemo(() => {
+    const modules = encodeQrCode(value);
+    const commands: string[] = [];
+    modules.forEach((row, y) => {
+      row.forEach((dark, x) => {
+        if (dark) commands.push(`M${x + QUIET_ZONE} ${y + QUIET_ZONE}h1v1h-1z`);
+      });
+    });
+    return { path: commands.join(''), size: modules.length + QUIET_ZONE * 2 };
+  }, [value]);
+
+  return (
+    <svg
+      viewBox={`0 0 ${size} ${size}`}
+      role="img"
+      aria-label={title}
+      shapeRendering="crispEdges"
+      className={cn("bg-white", className)}
+    >
+      <title>{title}</title>
+      <path d={path} fill="#000" />
+    </svg>
+  );
+};
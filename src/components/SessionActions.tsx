@@ -0,0 +1,120 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Copy, Link2, Loader2, RotateCcw, Share2 } from 'lucide-react';
+import { useShopperSession } from '@/hooks/useShopperSession';
+import { QrCode } from './QrCode';
+import { useToast } from '@/hooks/use-toast';
+import { cn } from '@/lib/utils';
+
+interface SessionActionsProps {
+  className?: string;
+}
+
+// Resume link (QR code to scan with a phone, or copy/share) for continuing on another device, and a way to start over
+export const SessionActions: React.FC<SessionActionsProps> = ({ className }) => {
+  const { conversacionId, createResumeLink, startNewSession } = useShopperSession();
+  const { toast } = useToast();
+  const [isCreatingLink, setIsCreatingLink] = useState(false);
+  const [resumeLink, setResumeLink] = useState<string | null>(null);
+
+  const handleCreateLink = async () => {
+    setIsCreatingLink(true);
+    try {
+      const link = await createResumeLink();
+      if (!link) {
+        toast({
+          title: 'No se pudo crear el enlace',
+          description: 'Intenta de nuevo en unos momentos.',
+          variant: 'destructive',
+        });
+        return;
+      }
+      setResumeLink(link);
+    } finally {
+      setIsCreatingLink(false);
+    }
+  };
+
+  const handleCopyLink = async () => {
+    if (!resumeLink) return;
+    try {
+      await navigator.clipboard.writeText(resumeLink);
+      toast({ title: 'Enlace copiado' });
+    } catch (error) {
+      console.log('Resume link not copied:', error);
+    }
+  };
+
+  // Native share sheet where available (mostly phones)
+  const handleShareLink = async () => {
+    if (!resumeLink) return;
+    try {
+      await navigator.share({ title: 'Mi conversación en StrateAI', url: resumeLink });
+    } catch (error) {
+      console.log('Resume link not shared:', error);
+    }
+  };
+
+  return (
+    <div className={cn("flex items-center gap-1", className)}>
+      <Button
+        variant="ghost"
+        size="sm"
+        onClick={handleCreateLink}
+        disabled={!conversacionId || isCreatingLink}
+        title="Continuar en otro dispositivo"
+        aria-label="Continuar en otro dispositivo"
+      >
+        {isCreatingLink ? <Loader2 className="h-4 w-4 animate-spin" /> : <Link2 className="h-4 w-4" />}
+      </Button>
+      <Button
+        variant="ghost"
+        size="sm"
+        onClick={startNewSession}
+        disabled={!conversacionId}
+        title="Nueva conversación"
+        aria-label="Nueva conversación"
+      >
+        <RotateCcw className="h-4 w-4" />
+      </Button>
+
+      <Dialog open={!!resumeLink} onOpenChange={(open) => !open && setResumeLink(null)}>
+        <DialogContent className="max-w-sm">
+          <DialogHeader>
+            <DialogTitle>Continuar en otro dispositivo</DialogTitle>
+            <DialogDescription>
+              Escanea el código con tu teléfono o comparte el enlace. Es válido por 7 días.
+            </DialogDescription>
+          </DialogHeader>
+          {resumeLink && (
+            <QrCode
+              value={resumeLink}
+              title="Código QR para continuar tu conversación"
+              className="mx-auto w-56 h-56 rounded-md border"
+            />
+          )}
+          <DialogFooter className="gap-2 sm:gap-0">
+            <Button variant="outline" onClick={handleCopyLink}>
+              <Copy className="h-4 w-4 mr-2" />
+              Copiar enlace
+            </Button>
+            {typeof navigator.share === 'function' && (
+              <Button onClick={handleShareLink}>
+                <Share2 className="h-4 w-4 mr-2" />
+                Compartir
+              </Button>
+            )}
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
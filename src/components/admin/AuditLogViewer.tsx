@@ -10,7 +10,7 @@ import {
   TableHeader, 
   TableRow 
 } from '@/components/ui/table';
-import { Activity, User, Calendar, AlertTriangle, CheckCircle } from 'lucide-react';
+import { Activity, User, Calendar, AlertTriangle, CheckCircle, ShieldAlert } from 'lucide-react';
 import { AuditLog } from '@/hooks/useAdminInventory';
 
 interface AuditLogViewerProps {
@@ -29,6 +29,9 @@ export const AuditLogViewer: React.FC<AuditLogViewerProps> = ({ logs, loading })
     if (action.includes('PUBLISH') || action.includes('APPROVE')) {
       return <CheckCircle className="h-4 w-4 text-green-600" />;
     }
+    if (action.includes('GUARDRAIL')) {
+      return <ShieldAlert className="h-4 w-4 text-amber-600" />;
+    }
     if (action.includes('DELETE') || action.includes('REJECT')) {
       return <AlertTriangle className="h-4 w-4 text-red-600" />;
     }
@@ -0,0 +1,110 @@
+import { useMemo } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useShopperSession } from '@/hooks/useShopperSession';
+import { useToast } from '@/hooks/use-toast';
+import { CartItem, CartUpdateResult, Producto } from '@/types/database';
+
+interface CartUpdate {
+  product: Pick<Producto, 'id' | 'nombre'>;
+  cantidad: number;
+  mode: 'add' | 'set';
+}
+
+// Cart of the current shopper session - shared by the grid, the quick view, the drawer and the assistant
+export const useCart = () => {
+  const { sessionId, conversacionId } = useShopperSession();
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const { data: items = [], isLoading } = useQuery({
+    queryKey: ['carrito', sessionId],
+    queryFn: async (): Promise<CartItem[]> => {
+      // Carts are not readable directly; get_cart only returns the one for this session, oldest items first
+      const { data, error } = await supabase.rpc('get_cart', { p_session_id: sessionId });
+
+      if (error) {
+        console.error('Error fetching cart:', error);
+        throw new Error('Failed to load cart');
+      }
+
+      const rows = (data || []) as unknown as Array<{ id: string; cantidad: number; producto: Producto }>;
+      return rows.map(item => ({ id: item.id, cantidad: item.cantidad, producto: item.producto }));
+    },
+  });
+
+  const updateItem = useMutation({
+    mutationFn: async ({ product, cantidad, mode }: CartUpdate): Promise<CartUpdateResult> => {
+      const { data, error } = await supabase.rpc('update_cart_item', {
+        p_session_id: sessionId,
+        p_producto_id: product.id,
+        p_cantidad: cantidad,
+        p_modo: mode,
+        p_conversacion_id: conversacionId ?? undefined,
+      });
+
+      if (error) {
+        console.error('Error updating cart:', error);
+        throw new Error('Failed to update cart');
+      }
+
+      return data as unknown as CartUpdateResult;
+    },
+    onSuccess: (result, { product, mode }) => {
+      if (result.success) {
+        if (mode === 'add') {
+          toast({ title: 'Agregado al carrito', description: `${product.nombre} (${result.cantidad} en tu carrito)` });
+        }
+        return;
+      }
+
+      toast({
+        title: result.error === 'insufficient_stock' ? 'No hay suficiente stock' : 'Producto no disponible',
+        description: result.error === 'insufficient_stock'
+          ? `Solo quedan ${result.cantidad_disponible} unidades de ${product.nombre}${result.cantidad_en_carrito ? ` y ya tienes ${result.cantidad_en_carrito} en tu carrito` : ''}.`
+          : `${product.nombre} ya no está en el catálogo.`,
+        variant: 'destructive',
+      });
+    },
+    onError: () => {
+      toast({
+        title: 'No se pudo actualizar el carrito',
+        description: 'Intenta de nuevo en unos momentos.',
+        variant: 'destructive',
+      });
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: ['carrito', sessionId] });
+    },
+  });
+
+  const clearCart = useMutation({
+    mutationFn: async (): Promise<void> => {
+      const { error } = await supabase.rpc('clear_cart', { p_session_id: sessionId });
+      if (error) {
+        console.error('Error clearing cart:', error);
+        throw new Error('Failed to clear cart');
+      }
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: ['carrito', sessionId] });
+    },
+  });
+
+  const { itemCount, total } = useMemo(() => ({
+    itemCount: items.reduce((sum, item) => sum + item.cantidad, 0),
+    total: Math.round(items.reduce((sum, item) => sum + Number(item.producto.precio) * item.cantidad, 0) * 100) / 100,
+  }), [items]);
+
+  return {
+    items,
+    itemCount,
+    total,
+    isLoading,
+    isUpdating: updateItem.isPending || clearCart.isPending,
+    addItem: (product: Pick<Producto, 'id' | 'nombre'>, cantidad = 1) => updateItem.mutate({ product, cantidad, mode: 'add' }),
+    setQuantity: (product: Pick<Producto, 'id' | 'nombre'>, cantidad: number) => updateItem.mutate({ product, cantidad, mode: 'set' }),
+    removeItem: (product: Pick<Producto, 'id' | 'nombre'>) => updateItem.mutate({ product, cantidad: 0, mode: 'set' }),
+    clearCart: clearCart.mutate,
+  };
+};
@@ -1,37 +1,68 @@
 
-import { useState, useCallback } from 'react';
+import { useState, useEffect } from 'react';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { supabase } from '@/integrations/supabase/client';
-import { ChatMessage, Conversacion, Mensaje, ProductFilters } from '@/types/database';
+import { ChatAssistantResponse, ChatMessage, Conversacion, Mensaje, ProductFilters } from '@/types/database';
+import { ProductComparison } from '@/utils/productComparison';
+import { readChatStream } from '@/utils/chatStream';
+import { getRateLimitInfo } from '@/utils/rateLimit';
+import { MessagePayload, parseMessagePayload } from '@/utils/messagePayload';
+import { useShopperSession } from '@/hooks/useShopperSession';
+import { usePageContext } from '@/hooks/usePageContext';
+import { ChatLanguage, DEFAULT_CHAT_LANGUAGE, detectChatLanguage, isChatLanguage } from '@/utils/chatLanguage';
 import { v4 as uuidv4 } from 'uuid';
 
-export const useChat = (onFiltersChange?: (filters: ProductFilters) => void) => {
-  const [sessionId] = useState(() => uuidv4());
-  const [conversacionId, setConversacionId] = useState<string | null>(null);
-  const queryClient = useQueryClient();
+type RealtimeStatus = 'connecting' | 'subscribed' | 'unavailable';
 
-  // Initialize conversation
-  const initConversation = useMutation({
-    mutationFn: async (): Promise<string> => {
-      const { data, error } = await supabase
-        .from('conversaciones')
-        .insert({ session_id: sessionId })
-        .select('id')
-        .single();
+const toChatMessage = (msg: Mensaje): ChatMessage => ({
+  id: msg.id,
+  sender: msg.sender as 'user' | 'bot',
+  content: msg.content,
+  timestamp: new Date(msg.timestamp),
+  payload: parseMessagePayload(msg.payload) ?? undefined,
+});
 
-      if (error) {
-        console.error('Error creating conversation:', error);
-        throw new Error('Failed to start conversation');
-      }
+// An optimistic message is replaced by the first new server row with the same sender and content
+const mergeServerMessages = (current: ChatMessage[] = [], incoming: ChatMessage[]): ChatMessage[] => {
+  const next = [...current];
+  for (const message of incoming) {
+    if (next.some(m => m.id === message.id)) continue;
+    const optimisticIndex = next.findIndex(m => m.pending && m.sender === message.sender && m.content === message.content);
+    if (optimisticIndex >= 0) {
+      next[optimisticIndex] = message;
+    } else {
+      next.push(message);
+    }
+  }
+  return next;
+};
 
-      return data.id;
-    },
-    onSuccess: (id) => {
-      setConversacionId(id);
-    },
-  });
+export const useChat = (
+  onFiltersChange?: (filters: ProductFilters) => void,
+  onComparison?: (comparison: ProductComparison) => void
+) => {
+  // Session and conversation survive reloads and can be resumed on another device
+  const { sessionId, conversacionId, ensureConversation, isResumed } = useShopperSession();
+  const { pageContext } = usePageContext();
+  // Partial assistant reply while chat-assistant is streaming; null when no stream is active
+  const [streamingContent, setStreamingContent] = useState<string | null>(null);
+  const [realtimeStatus, setRealtimeStatus] = useState<RealtimeStatus>('connecting');
+  // Language of the current reply, so voices switch before the streamed answer starts playing
+  const [language, setLanguage] = useState<ChatLanguage>(DEFAULT_CHAT_LANGUAGE);
+  // Set while chat-assistant is refusing messages (429); counts down to zero, then clears
+  const [rateLimit, setRateLimit] = useState<{ until: number; secondsLeft: number } | null>(null);
+  const queryClient = useQueryClient();
+
+  useEffect(() => {
+    if (!rateLimit) return;
+    const timer = window.setTimeout(() => {
+      const secondsLeft = Math.ceil((rateLimit.until - Date.now()) / 1000);
+      setRateLimit(secondsLeft > 0 ? { ...rateLimit, secondsLeft } : null);
+    }, 1000);
+    return () => window.clearTimeout(timer);
+  }, [rateLimit]);
 
-  // Get chat messages
+  // Get chat messages - initial load, then kept current by realtime inserts
   const { data: messages = [], isLoading } = useQuery({
     queryKey: ['mensajes', conversacionId],
     queryFn: async (): Promise<ChatMessage[]> => {
@@ -48,65 +79,120 @@ export const useChat = (onFiltersChange?: (filters: ProductFilters) => void) =>
         throw new Error('Failed to load messages');
       }
 
-      return data?.map(msg => ({
-        id: msg.id,
-        sender: msg.sender as 'user' | 'bot',
-        content: msg.content,
-        timestamp: new Date(msg.timestamp),
-      })) || [];
+      // Keep optimistic messages whose row has not been written yet
+      const cached = queryClient.getQueryData<ChatMessage[]>(['mensajes', conversacionId]) || [];
+      const pending = cached.filter(m => m.pending);
+      const serverMessages = data?.map(toChatMessage) || [];
+      const newServerMessages = serverMessages.filter(m => !cached.some(c => c.id === m.id));
+      const stillPending = mergeServerMessages(pending, newServerMessages).filter(m => m.pending);
+      return [...serverMessages, ...stillPending];
     },
     enabled: !!conversacionId,
-    refetchInterval: 1000, // Real-time updates
+    // Poll only while the realtime channel is not delivering inserts
+    refetchInterval: realtimeStatus === 'subscribed' ? false : 1000,
   });
 
+  // Realtime delivery of new messages for the current conversation
+  useEffect(() => {
+    if (!conversacionId) return;
+
+    setRealtimeStatus('connecting');
+    const channel = supabase
+      .channel(`mensajes:${conversacionId}`)
+      .on(
+        'postgres_changes',
+        { event: 'INSERT', schema: 'public', table: 'mensajes', filter: `conversacion_id=eq.${conversacionId}` },
+        (payload) => {
+          const message = toChatMessage(payload.new as Mensaje);
+          queryClient.setQueryData<ChatMessage[]>(['mensajes', conversacionId], (current) => mergeServerMessages(current, [message]));
+        }
+      )
+      .subscribe((status) => {
+        if (status === 'SUBSCRIBED') {
+          console.log('📡 Realtime subscribed to conversation', conversacionId);
+          setRealtimeStatus('subscribed');
+          // Catch anything inserted before the subscription was active
+          queryClient.invalidateQueries({ queryKey: ['mensajes', conversacionId] });
+        } else if (status === 'CHANNEL_ERROR' || status === 'TIMED_OUT' || status === 'CLOSED') {
+          console.warn(`⚠️ Realtime channel ${status}, falling back to polling`);
+          setRealtimeStatus('unavailable');
+        }
+      });
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [conversacionId, queryClient]);
+
   // Send message with AI integration
   const sendMessage = useMutation({
-    mutationFn: async ({ content, sender }: { content: string; sender: 'user' | 'bot' }): Promise<void> => {
-      let currentConversacionId = conversacionId;
-
-      // Create conversation if not exists
-      if (!currentConversacionId) {
-        const { data: newConv, error: convError } = await supabase
-          .from('conversaciones')
-          .insert({ session_id: sessionId })
-          .select('id')
-          .single();
-
-        if (convError) {
-          console.error('Error creating conversation:', convError);
-          throw new Error('Failed to start conversation');
-        }
+    mutationFn: async ({ content, sender, payload }: { content: string; sender: 'user' | 'bot'; payload?: MessagePayload }): Promise<void> => {
+      // Normally created by the session provider already; covers a message sent before that insert finished
+      const currentConversacionId = await ensureConversation();
 
-        currentConversacionId = newConv.id;
-        setConversacionId(currentConversacionId);
-      }
+      // Render the message immediately; the server row replaces it once written
+      const messagesKey = ['mensajes', currentConversacionId];
+      const optimisticId = `optimistic-${uuidv4()}`;
+      queryClient.setQueryData<ChatMessage[]>(messagesKey, (current = []) => [
+        ...current,
+        { id: optimisticId, sender, content, timestamp: new Date(), pending: true, payload },
+      ]);
 
       // Insert user message first
-      const { error: userMessageError } = await supabase
+      const { data: storedMessage, error: userMessageError } = await supabase
         .from('mensajes')
         .insert({
           conversacion_id: currentConversacionId,
           sender,
           content,
-        });
+          payload: payload ? { ...payload } : null,
+        })
+        .select('*')
+        .single();
 
       if (userMessageError) {
         console.error('Error sending user message:', userMessageError);
+        queryClient.setQueryData<ChatMessage[]>(messagesKey, (current = []) => current.filter(m => m.id !== optimisticId));
         throw new Error('Failed to send message');
       }
 
+      // Swap in the stored row unless realtime already delivered it
+      queryClient.setQueryData<ChatMessage[]>(messagesKey, (current = []) => {
+        const confirmed = toChatMessage(storedMessage);
+        return current.some(m => m.id === confirmed.id)
+          ? current.filter(m => m.id !== optimisticId)
+          : current.map(m => (m.id === optimisticId ? confirmed : m));
+      });
+
       // If it's a user message, get AI response
       if (sender === 'user') {
+        // Same detection as chat-assistant; its answer below confirms the language
+        setLanguage(previous => detectChatLanguage(content, previous));
         console.log('Calling chat assistant for user message:', content);
         
-        const { data: aiResponse, error: aiError } = await supabase.functions.invoke('chat-assistant', {
+        const { data, error: aiError } = await supabase.functions.invoke('chat-assistant', {
           body: {
             message: content,
             conversationId: currentConversacionId,
+            sessionId,
+            // What is on screen, so "este" or "uno más barato" can be resolved
+            pageContext,
+            stream: true,
           },
         });
 
         if (aiError) {
+          // Throttled: tell the shopper how long to wait instead of storing an apology in the conversation
+          const limited = await getRateLimitInfo(aiError);
+          if (limited) {
+            console.warn(`🚦 Chat assistant rate limited for ${limited.retryAfterSeconds}s`);
+            setRateLimit({
+              until: Date.now() + limited.retryAfterSeconds * 1000,
+              secondsLeft: limited.retryAfterSeconds,
+            });
+            return;
+          }
+
           console.error('Error calling chat assistant:', aiError);
           // Insert error message
           await supabase
@@ -119,32 +205,78 @@ export const useChat = (onFiltersChange?: (filters: ProductFilters) => void) =>
           return;
         }
 
+        // Streaming responses come back as the raw Response; render tokens as they arrive
+        let aiResponse: ChatAssistantResponse;
+        if (data instanceof Response) {
+          setStreamingContent('');
+          aiResponse = await readChatStream(data, {
+            onToken: (delta) => setStreamingContent(prev => (prev ?? '') + delta),
+          });
+        } else {
+          aiResponse = data as ChatAssistantResponse;
+        }
+
         console.log('AI response received:', aiResponse);
 
+        // A failed stream ends with an error event instead of an HTTP error - persist the apology
+        if (!aiResponse.success) {
+          await supabase
+            .from('mensajes')
+            .insert({
+              conversacion_id: currentConversacionId,
+              sender: 'bot',
+              content: aiResponse.response || 'Lo siento, hubo un error al procesar tu mensaje. Por favor, intenta de nuevo.',
+            });
+          return;
+        }
+
+        if (isChatLanguage(aiResponse.language)) {
+          setLanguage(aiResponse.language);
+        }
+
+        if (aiResponse.degraded) {
+          console.warn('🛟 Chat assistant answered in degraded mode (LLM unavailable)');
+        }
+
+        if (aiResponse.validation?.corrections.length) {
+          console.log('🔧 Assistant answer corrected against catalog:', aiResponse.validation.corrections);
+        }
+
+        // The assistant changed or read the cart - refresh the drawer and badge
+        if (aiResponse.cart) {
+          queryClient.invalidateQueries({ queryKey: ['carrito'] });
+        }
+
         // Apply filters if suggested
         if (aiResponse.filters && Object.keys(aiResponse.filters).length > 0) {
           console.log('Applying suggested filters:', aiResponse.filters);
           onFiltersChange?.(aiResponse.filters);
         }
+
+        // Open the comparison view with the products the assistant compared
+        if (aiResponse.comparison?.productIds.length) {
+          onComparison?.(aiResponse.comparison);
+        }
       }
     },
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ['mensajes', conversacionId] });
+    onSettled: async () => {
+      // Keep the streamed text on screen until the persisted message has been fetched
+      // (the realtime insert may still be in flight)
+      await queryClient.invalidateQueries({ queryKey: ['mensajes'] });
+      setStreamingContent(null);
     },
   });
 
-  const startChat = useCallback(() => {
-    if (!conversacionId) {
-      initConversation.mutate();
-    }
-  }, [conversacionId, initConversation]);
-
   return {
     messages,
     isLoading,
     sendMessage: sendMessage.mutate,
     isSending: sendMessage.isPending,
-    startChat,
+    streamingContent,
+    realtimeStatus,
+    language,
     sessionId,
+    isResumed,
+    rateLimit,
   };
 };
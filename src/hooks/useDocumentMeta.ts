@@ -0,0 +1,112 @@
+import { useEffect } from 'react';
+
+interface DocumentMeta {
+  title: string;
+  description: string;
+  // Absolute URL of the page, used for the canonical link and og:url
+  url: string;
+  image?: string;
+  // og:type, e.g. "product"
+  type?: string;
+  // Structured data rendered as <script type="application/ld+json">
+  jsonLd?: object;
+}
+
+const JSON_LD_ID = 'page-json-ld';
+
+// Creates the tag if index.html does not have it and remembers how to undo the change
+const setHeadTag = (
+  selector: string,
+  create: () => HTMLElement,
+  attribute: string,
+  value: string,
+  restore: (() => void)[]
+) => {
+  let element = document.head.querySelector<HTMLElement>(selector);
+  if (!element) {
+    element = create();
+    document.head.appendChild(element);
+    const created = element;
+    restore.push(() => created.remove());
+  } else {
+    const existing = element;
+    const previous = existing.getAttribute(attribute);
+    restore.push(() => {
+      if (previous === null) existing.removeAttribute(attribute);
+      else existing.setAttribute(attribute, previous);
+    });
+  }
+  element.setAttribute(attribute, value);
+};
+
+const setMeta = (key: 'name' | 'property', name: string, content: string, restore: (() => void)[]) => {
+  setHeadTag(
+    `meta[${key}="${name}"]`,
+    () => {
+      const meta = document.createElement('meta');
+      meta.setAttribute(key, name);
+      return meta;
+    },
+    'content',
+    content,
+    restore
+  );
+};
+
+/**
+ * Sets the page <title>, meta description, canonical link, Open Graph / Twitter tags and JSON-LD
+ * while the calling page is mounted; the tags from index.html are put back on unmount.
+ */
+export const useDocumentMeta = (meta: DocumentMeta | null) => {
+  const serialized = meta ? JSON.stringify(meta) : null;
+
+  useEffect(() => {
+    if (!serialized) return;
+    const { title, description, url, image, type = 'website', jsonLd } = JSON.parse(serialized) as DocumentMeta;
+    const restore: (() => void)[] = [];
+
+    const previousTitle = document.title;
+    document.title = title;
+    restore.push(() => {
+      document.title = previousTitle;
+    });
+
+    setMeta('name', 'description', description, restore);
+    setMeta('property', 'og:title', title, restore);
+    setMeta('property', 'og:description', description, restore);
+    setMeta('property', 'og:type', type, restore);
+    setMeta('property', 'og:url', url, restore);
+    setMeta('name', 'twitter:title', title, restore);
+    setMeta('name', 'twitter:description', description, restore);
+    if (image) {
+      setMeta('property', 'og:image', image, restore);
+      setMeta('name', 'twitter:image', image, restore);
+    }
+
+    setHeadTag(
+      'link[rel="canonical"]',
+      () => {
+        const link = document.createElement('link');
+        link.setAttribute('rel', 'canonical');
+        return link;
+      },
+      'href',
+      url,
+      restore
+    );
+
+    if (jsonLd) {
+      const script = document.createElement('script');
+      script.type = 'application/ld+json';
+      script.id = JSON_LD_ID;
+      script.textContent = JSON.stringify(jsonLd);
+      document.getElementById(JSON_LD_ID)?.remove();
+      document.head.appendChild(script);
+      restore.push(() => script.remove());
+    }
+
+    return () => {
+      restore.reverse().forEach(undo => undo());
+    };
+  }, [serialized]);
+};
@@ -2,9 +2,13 @@
 import { useState, useCallback, useRef, useEffect } from 'react';
 import { selectBestVoice, VoiceSelectionResult } from '@/utils/voiceSelection';
 import { useTTSAudit } from './useTTSAudit';
+import { TTS_TEXT_LIMITS, capSpeechText, resolveSpanishVariant, verbalizeSpanishForSpeech } from '@/utils/spanishSpeech';
+import { ChatLanguage, DEFAULT_CHAT_LANGUAGE, LANGUAGE_PROFILES } from '@/utils/chatLanguage';
 
 interface EnhancedTTSOptions {
   voice?: string;
+  // Reply language; English and Portuguese replies switch to a voice for that language
+  language?: ChatLanguage;
   speed?: number;
   pitch?: number;
   enableFallback?: boolean;
@@ -23,13 +27,18 @@ interface EnhancedTTSResult {
 
 export const useEnhancedGoogleTTS = (options: EnhancedTTSOptions = {}) => {
   const {
-    voice = 'es-US-Journey-F',
+    voice: spanishVoice = 'es-US-Journey-F',
+    language = DEFAULT_CHAT_LANGUAGE,
     speed = 1.0,
     pitch = 0.0,
     enableFallback = true,
     auditMode = false
   } = options;
 
+  const isSpanish = language === 'es';
+  const voice = isSpanish ? spanishVoice : LANGUAGE_PROFILES[language].googleVoice;
+  const browserLocale = LANGUAGE_PROFILES[language].browserLocale;
+
   const [isPlaying, setIsPlaying] = useState(false);
   const [isInitializing, setIsInitializing] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -64,7 +73,8 @@ export const useEnhancedGoogleTTS = (options: EnhancedTTSOptions = {}) => {
       console.log('🎤 [Enhanced Google TTS] Starting premium voice playback');
       
       // Log Edge Function call with audit
-      const { data, error: functionError } = await audit.logEdgeFunctionCall(text, voice);
+      // The function refuses text over the provider limit; a long reply is read up to it
+      const { data, error: functionError } = await audit.logEdgeFunctionCall(capSpeechText(text, TTS_TEXT_LIMITS.google), voice);
 
       if (functionError || !data) {
         const errorMsg = functionError?.message || 'Failed to call Google TTS function';
@@ -166,8 +176,8 @@ export const useEnhancedGoogleTTS = (options: EnhancedTTSOptions = {}) => {
       
       if (!fallbackVoiceRef.current) {
         fallbackVoiceRef.current = await selectBestVoice({
-          preferredLanguage: 'es-ES',
-          requireSpanish: true,
+          preferredLanguage: browserLocale,
+          requireSpanish: isSpanish,
           requireFemale: true,
           allowFallback: true
         });
@@ -197,7 +207,7 @@ export const useEnhancedGoogleTTS = (options: EnhancedTTSOptions = {}) => {
         utterance.rate = speed;
         utterance.pitch = 1 + (pitch / 10);
         utterance.volume = 0.8;
-        utterance.lang = 'es-ES';
+        utterance.lang = browserLocale;
 
         const endPlayback = audit.logPlaybackStart('browser', voiceResult.name);
 
@@ -253,7 +263,12 @@ export const useEnhancedGoogleTTS = (options: EnhancedTTSOptions = {}) => {
         auditReport
       };
     }
-  }, [speed, pitch, audit, cleanup]);
+  }, [speed, pitch, audit, cleanup, browserLocale, isSpanish]);
+
+  // The cached browser voice belongs to the previous reply language
+  useEffect(() => {
+    fallbackVoiceRef.current = null;
+  }, [browserLocale]);
 
   const speak = useCallback(async (text: string): Promise<EnhancedTTSResult> => {
     if (!text?.trim()) {
@@ -273,9 +288,12 @@ export const useEnhancedGoogleTTS = (options: EnhancedTTSOptions = {}) => {
 
     console.log('🎯 [Enhanced Universal TTS] Starting with Google Cloud premium, browser fallback enabled');
 
+    // Prices, model codes and units read as words in the voice's regional Spanish
+    const speechText = isSpanish ? verbalizeSpanishForSpeech(text, resolveSpanishVariant(voice)) : text;
+
     try {
       // Always try Google Cloud TTS first
-      const googleResult = await playWithGoogle(text);
+      const googleResult = await playWithGoogle(speechText);
       
       if (googleResult.success) {
         console.log('✅ [Enhanced Universal TTS] Google Cloud TTS succeeded');
@@ -285,7 +303,7 @@ export const useEnhancedGoogleTTS = (options: EnhancedTTSOptions = {}) => {
       // If Google failed and fallback is enabled, try browser TTS
       if (enableFallback && googleResult.fallbackUsed) {
         console.log('🔄 [Enhanced Universal TTS] Falling back to browser TTS');
-        const browserResult = await playWithBrowser(text);
+        const browserResult = await playWithBrowser(speechText);
         
         if (browserResult.success) {
           console.log('✅ [Enhanced Universal TTS] Browser TTS fallback succeeded');
@@ -309,7 +327,7 @@ export const useEnhancedGoogleTTS = (options: EnhancedTTSOptions = {}) => {
       cleanup();
       return { success: false, method: 'failed', error: errorMessage };
     }
-  }, [playWithGoogle, playWithBrowser, enableFallback, cleanup, auditMode, audit, voice]);
+  }, [playWithGoogle, playWithBrowser, enableFallback, cleanup, auditMode, audit, voice, isSpanish]);
 
   const stop = useCallback(() => {
     console.log('🛑 [Enhanced Universal TTS] Stopping playback');
@@ -0,0 +1,70 @@
+import { useState, useCallback } from 'react';
+import { ProductFilters } from '@/types/database';
+import {
+  AssistantFilterMode,
+  DEFAULT_ASSISTANT_FILTER_MODE,
+  FilterHistoryState,
+  FilterSource,
+  INITIAL_FILTER_HISTORY,
+  applyAssistantFilters,
+  goToFilterHistory,
+  pushFilterHistory,
+  redoFilterHistory,
+  undoFilterHistory,
+} from '@/utils/filterHistory';
+
+const ASSISTANT_MODE_KEY = 'strateai-assistant-filter-mode';
+
+const readAssistantMode = (): AssistantFilterMode => {
+  const stored = localStorage.getItem(ASSISTANT_MODE_KEY);
+  return stored === 'merge' || stored === 'replace' ? stored : DEFAULT_ASSISTANT_FILTER_MODE;
+};
+
+// Grid filters with an undo/redo stack, so filters applied by the assistant never silently
+// discard what the shopper had selected
+export const useFilterHistory = () => {
+  const [history, setHistory] = useState<FilterHistoryState>(INITIAL_FILTER_HISTORY);
+  const [assistantMode, setAssistantModeState] = useState<AssistantFilterMode>(readAssistantMode);
+
+  const applyFilters = useCallback((filters: ProductFilters, source: FilterSource = 'shopper') => {
+    setHistory(state => pushFilterHistory(state, filters, source));
+  }, []);
+
+  const applySuggestedFilters = useCallback((suggested: ProductFilters) => {
+    setHistory(state =>
+      pushFilterHistory(state, applyAssistantFilters(state.entries[state.index].filters, suggested, assistantMode), 'assistant')
+    );
+  }, [assistantMode]);
+
+  const goTo = useCallback((index: number) => {
+    setHistory(state => goToFilterHistory(state, index));
+  }, []);
+
+  const undo = useCallback(() => {
+    setHistory(undoFilterHistory);
+  }, []);
+
+  const redo = useCallback(() => {
+    setHistory(redoFilterHistory);
+  }, []);
+
+  const setAssistantMode = useCallback((mode: AssistantFilterMode) => {
+    setAssistantModeState(mode);
+    localStorage.setItem(ASSISTANT_MODE_KEY, mode);
+  }, []);
+
+  return {
+    filters: history.entries[history.index].filters,
+    entries: history.entries,
+    index: history.index,
+    canUndo: history.index > 0,
+    canRedo: history.index < history.entries.length - 1,
+    applyFilters,
+    applySuggestedFilters,
+    goTo,
+    undo,
+    redo,
+    assistantMode,
+    setAssistantMode,
+  };
+};
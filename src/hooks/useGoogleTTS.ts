@@ -1,6 +1,7 @@
 
 import { useState, useCallback, useRef, useEffect } from 'react';
 import { supabase } from '@/integrations/supabase/client';
+import { useShopperSession } from '@/hooks/useShopperSession';
 import { 
   selectBestVoice, 
   VoiceSelectionResult 
@@ -37,6 +38,7 @@ export const useGoogleTTS = (options: GoogleTTSOptions = {}) => {
     pitch = 0.0,
     enableFallback = true
   } = options;
+  const { sessionId } = useShopperSession();
 
   const [isPlaying, setIsPlaying] = useState(false);
   const [isInitializing, setIsInitializing] = useState(false);
@@ -76,7 +78,8 @@ export const useGoogleTTS = (options: GoogleTTSOptions = {}) => {
           text,
           voice,
           speed,
-          pitch
+          pitch,
+          sessionId
         }
       });
 
@@ -149,7 +152,7 @@ export const useGoogleTTS = (options: GoogleTTSOptions = {}) => {
         fallbackUsed: enableFallback
       };
     }
-  }, [voice, speed, pitch, enableFallback, cleanup]);
+  }, [voice, speed, pitch, sessionId, enableFallback, cleanup]);
 
   // Browser TTS fallback
   const playWithBrowser = useCallback(async (text: string): Promise<TTSPlaybackResult> => {
@@ -1,10 +1,12 @@
 
 import { useState, useCallback, useRef, useEffect } from 'react';
 import { supabase } from '@/integrations/supabase/client';
+import { useShopperSession } from '@/hooks/useShopperSession';
 import { 
   selectBestVoice, 
   VoiceSelectionResult 
 } from '@/utils/voiceSelection';
+import { TTS_TEXT_LIMITS, capSpeechText, resolveSpanishVariant, verbalizeSpanishForSpeech } from '@/utils/spanishSpeech';
 
 interface OpenAITTSOptions {
   voice?: string;
@@ -28,6 +30,7 @@ export const useOpenAITTS = (options: OpenAITTSOptions = {}) => {
     language = 'es',
     enableFallback = true
   } = options;
+  const { sessionId } = useShopperSession();
 
   const [isPlaying, setIsPlaying] = useState(false);
   const [isInitializing, setIsInitializing] = useState(false);
@@ -64,10 +67,12 @@ export const useOpenAITTS = (options: OpenAITTSOptions = {}) => {
       
       const { data, error: functionError } = await supabase.functions.invoke('openai-tts', {
         body: {
-          text,
+          // The function refuses text over the provider limit; a long reply is read up to it
+          text: capSpeechText(text, TTS_TEXT_LIMITS.openai),
           voice,
           speed,
-          lang: language
+          lang: language,
+          sessionId
         }
       });
 
@@ -139,7 +144,7 @@ export const useOpenAITTS = (options: OpenAITTSOptions = {}) => {
         fallbackUsed: enableFallback
       };
     }
-  }, [voice, speed, language, enableFallback, cleanup]);
+  }, [voice, speed, language, sessionId, enableFallback, cleanup]);
 
   // Browser TTS fallback
   const playWithBrowser = useCallback(async (text: string): Promise<TTSPlaybackResult> => {
@@ -230,9 +235,12 @@ export const useOpenAITTS = (options: OpenAITTSOptions = {}) => {
 
     console.log('🎯 [Universal TTS] Starting playback with OpenAI NOVA primary, browser fallback');
 
+    // Prices, model codes and units read as words in the configured regional Spanish
+    const speechText = language.startsWith('es') ? verbalizeSpanishForSpeech(text, resolveSpanishVariant(language)) : text;
+
     try {
       // Try OpenAI TTS first
-      const openaiResult = await playWithOpenAI(text);
+      const openaiResult = await playWithOpenAI(speechText);
       
       if (openaiResult.success) {
         console.log('✅ [Universal TTS] OpenAI TTS succeeded');
@@ -242,7 +250,7 @@ export const useOpenAITTS = (options: OpenAITTSOptions = {}) => {
       // If OpenAI failed and fallback is enabled, try browser TTS
       if (enableFallback && openaiResult.fallbackUsed) {
         console.log('🔄 [Universal TTS] Falling back to browser TTS');
-        const browserResult = await playWithBrowser(text);
+        const browserResult = await playWithBrowser(speechText);
         
         if (browserResult.success) {
           console.log('✅ [Universal TTS] Browser TTS fallback succeeded');
@@ -266,7 +274,7 @@ export const useOpenAITTS = (options: OpenAITTSOptions = {}) => {
       cleanup();
       return { success: false, method: 'failed', error: errorMessage };
     }
-  }, [playWithOpenAI, playWithBrowser, enableFallback, cleanup]);
+  }, [playWithOpenAI, playWithBrowser, enableFallback, cleanup, language]);
 
   // Stop current playback
   const stop = useCallback(() => {
@@ -0,0 +1,71 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { FunctionsHttpError } from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';
+import { useShopperSession } from '@/hooks/useShopperSession';
+import { CheckoutResponse, OrderWithItems } from '@/types/database';
+
+interface CheckoutInput {
+  nombre: string;
+  email: string;
+  paymentToken?: string;
+}
+
+// Places an order for the session cart; stock reservation and payment happen in the checkout function
+export const useCheckout = () => {
+  const { sessionId, conversacionId } = useShopperSession();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ nombre, email, paymentToken }: CheckoutInput): Promise<CheckoutResponse> => {
+      const { data, error } = await supabase.functions.invoke('checkout', {
+        body: {
+          sessionId,
+          conversationId: conversacionId ?? undefined,
+          cliente: { nombre, email },
+          paymentToken,
+        },
+      });
+
+      if (error) {
+        // Rejected checkouts (stock, declined payment) still carry a JSON body explaining why
+        if (error instanceof FunctionsHttpError) {
+          const body = await error.context.json().catch(() => null);
+          if (body && typeof body.error === 'string') return body as CheckoutResponse;
+        }
+        console.error('Error during checkout:', error);
+        throw new Error('Failed to place order');
+      }
+
+      return data as CheckoutResponse;
+    },
+    onSettled: () => {
+      // Stock changed whether the order went through or was released
+      queryClient.invalidateQueries({ queryKey: ['carrito'] });
+      queryClient.invalidateQueries({ queryKey: ['productos'] });
+    },
+  });
+};
+
+export const useOrder = (orderId: string | undefined) => {
+  const { sessionId } = useShopperSession();
+
+  return useQuery({
+    queryKey: ['pedido', orderId, sessionId],
+    queryFn: async (): Promise<OrderWithItems | null> => {
+      const { data, error } = await supabase.rpc('get_order', {
+        p_pedido_id: orderId!,
+        p_session_id: sessionId,
+      });
+
+      if (error) {
+        console.error('Error fetching order:', error);
+        throw new Error('Failed to load order');
+      }
+
+      return data as unknown as OrderWithItems | null;
+    },
+    enabled: !!orderId,
+    // A repeated checkout lands here while the first request is still charging the order
+    refetchInterval: (query) => (query.state.data?.estado === 'pendiente_pago' ? 2000 : false),
+  });
+};
@@ -0,0 +1,66 @@
+import { useState, useCallback, useMemo, createContext, useContext } from 'react';
+import { ProductFilters } from '@/types/database';
+import { PAGE_CONTEXT_LIMITS, PageContext } from '@/utils/pageContext';
+
+const RECENTLY_VIEWED_KEY = 'strateai-recently-viewed';
+
+interface PageContextType {
+  // Snapshot sent to chat-assistant with every message
+  pageContext: PageContext;
+  setPageFilters: (filters: ProductFilters) => void;
+  // Call with the product id when a product view opens and with null when it closes
+  setOpenProductId: (id: string | null) => void;
+}
+
+const PageContextContext = createContext<PageContextType | undefined>(undefined);
+
+const readRecentlyViewed = (): string[] => {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(RECENTLY_VIEWED_KEY) || '[]');
+    return Array.isArray(parsed) ? parsed.filter((id): id is string => typeof id === 'string') : [];
+  } catch {
+    return [];
+  }
+};
+
+// Tracks what the shopper has on screen (grid filters, open product, recently viewed products)
+// so the assistant can resolve "este" or "uno más barato"
+export const PageContextProvider = ({ children }: { children: React.ReactNode }) => {
+  const [filters, setFilters] = useState<ProductFilters>({});
+  const [openProductId, setOpenProductIdState] = useState<string | null>(null);
+  const [recentlyViewedIds, setRecentlyViewedIds] = useState<string[]>(readRecentlyViewed);
+
+  const setOpenProductId = useCallback((id: string | null) => {
+    setOpenProductIdState(id);
+    if (!id) return;
+
+    setRecentlyViewedIds(current => {
+      const next = [id, ...current.filter(viewed => viewed !== id)].slice(0, PAGE_CONTEXT_LIMITS.MAX_RECENTLY_VIEWED);
+      try {
+        localStorage.setItem(RECENTLY_VIEWED_KEY, JSON.stringify(next));
+      } catch (error) {
+        console.warn('⚠️ Could not persist recently viewed products:', error);
+      }
+      return next;
+    });
+  }, []);
+
+  const pageContext = useMemo<PageContext>(
+    () => ({ filters, openProductId, recentlyViewedIds }),
+    [filters, openProductId, recentlyViewedIds]
+  );
+
+  return (
+    <PageContextContext.Provider value={{ pageContext, setPageFilters: setFilters, setOpenProductId }}>
+      {children}
+    </PageContextContext.Provider>
+  );
+};
+
+export const usePageContext = () => {
+  const context = useContext(PageContextContext);
+  if (context === undefined) {
+    throw new Error('usePageContext must be used within a PageContextProvider');
+  }
+  return context;
+};
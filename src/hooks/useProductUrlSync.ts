@@ -0,0 +1,95 @@
+import { useState, useEffect, useMemo, useRef, useCallback } from 'react';
+import { useLocation, useNavigate, useSearchParams } from 'react-router-dom';
+import { ProductFilters } from '@/types/database';
+import { FilterHistoryEntry, FilterSource, filtersEqual } from '@/utils/filterHistory';
+import { filtersFromSearchParams, hasFilterParams, productIdFromSearchParams, toSearchParams } from '@/utils/productUrl';
+
+interface ProductUrlSyncOptions {
+  filters: ProductFilters;
+  entries: FilterHistoryEntry[];
+  index: number;
+  applyFilters: (filters: ProductFilters, source?: FilterSource) => void;
+  goTo: (index: number) => void;
+}
+
+interface QuickViewState {
+  // Set on the history entry pushed when a product was opened, so closing it can go back
+  quickView?: boolean;
+}
+
+const QUICK_VIEW_STATE: QuickViewState = { quickView: true };
+
+const toSearch = (params: URLSearchParams) => {
+  const search = params.toString();
+  return search ? `?${search}` : '';
+};
+
+/**
+ * Keeps the grid filters and the product open in the quick view in the query string, so the page
+ * can be shared or bookmarked and back/forward walks through filter changes. Every filter change by
+ * the shopper or the assistant is a new browser history entry; a restored session replaces the
+ * current one.
+ */
+export const useProductUrlSync = ({ filters, entries, index, applyFilters, goTo }: ProductUrlSyncOptions) => {
+  const [searchParams] = useSearchParams();
+  const navigate = useNavigate();
+  const location = useLocation();
+
+  const urlFilters = useMemo(() => filtersFromSearchParams(searchParams), [searchParams]);
+  const openProductId = productIdFromSearchParams(searchParams);
+  // A shared link's filters win over the ones stored in the shopper's session
+  const [openedWithFilters] = useState(() => hasFilterParams(searchParams));
+
+  // Latest values for the effects below, which must only react to their own side changing
+  const latest = useRef({ filters, entries, index, searchParams, openProductId });
+  latest.current = { filters, entries, index, searchParams, openProductId };
+  const syncedFilters = useRef(filters);
+
+  // URL -> grid: a shared link, or back/forward
+  useEffect(() => {
+    const { filters: current, entries: history, index: currentIndex } = latest.current;
+    if (filtersEqual(urlFilters, current)) return;
+
+    // Back/forward to a state that is still in the filter history moves there instead of adding an entry
+    const matches = history
+      .map((entry, entryIndex) => ({ entry, entryIndex }))
+      .filter(({ entry }) => filtersEqual(entry.filters, urlFilters))
+      .sort((a, b) => Math.abs(a.entryIndex - currentIndex) - Math.abs(b.entryIndex - currentIndex));
+
+    if (matches.length > 0) {
+      goTo(matches[0].entryIndex);
+    } else {
+      applyFilters(urlFilters, 'url');
+    }
+  }, [urlFilters, goTo, applyFilters]);
+
+  // Grid -> URL: filters changed by the shopper, the assistant, undo/redo or a restored session
+  useEffect(() => {
+    if (syncedFilters.current === filters) return;
+    syncedFilters.current = filters;
+
+    const { entries: history, index: currentIndex, searchParams: params, openProductId: productId } = latest.current;
+    if (filtersEqual(filtersFromSearchParams(params), filters)) return;
+
+    navigate(
+      { search: toSearch(toSearchParams(params, filters, productId)) },
+      { replace: history[currentIndex]?.source === 'session' }
+    );
+  }, [filters, navigate]);
+
+  const openProduct = useCallback((productId: string) => {
+    const { filters: current, searchParams: params } = latest.current;
+    navigate({ search: toSearch(toSearchParams(params, current, productId)) }, { state: QUICK_VIEW_STATE });
+  }, [navigate]);
+
+  const closeProduct = useCallback(() => {
+    const { filters: current, searchParams: params } = latest.current;
+    if ((location.state as QuickViewState | null)?.quickView) {
+      navigate(-1);
+      return;
+    }
+    navigate({ search: toSearch(toSearchParams(params, current, null)) }, { replace: true });
+  }, [navigate, location.state]);
+
+  return { openProductId, openProduct, closeProduct, openedWithFilters };
+};
@@ -1,72 +1,146 @@
 
-import { useQuery } from '@tanstack/react-query';
+import { useQuery, useInfiniteQuery, keepPreviousData } from '@tanstack/react-query';
 import { supabase } from '@/integrations/supabase/client';
-import { Producto, ProductFilters } from '@/types/database';
+import { Json } from '@/integrations/supabase/types';
+import { Producto, ProductFacets, ProductFilters, ProductPage, ProductPageCursor } from '@/types/database';
+
+// Filter arguments shared by search_productos_page and get_product_facets
+const toSearchArgs = (filters?: ProductFilters) => ({
+  p_categoria: filters?.categoria,
+  p_precio_min: filters?.precioMin,
+  p_precio_max: filters?.precioMax,
+  p_search_term: filters?.searchTerm,
+  p_categorias: filters?.categorias?.length ? filters.categorias : undefined,
+  p_solo_en_stock: filters?.soloEnStock || undefined,
+});
+
+// Cards fetched per request while the shopper scrolls the grid
+export const PRODUCT_PAGE_SIZE = 24;
+
+const RELATED_PRODUCTS_LIMIT = 4;
 
 export const useProducts = (filters?: ProductFilters) => {
-  return useQuery({
+  return useInfiniteQuery({
     queryKey: ['productos', filters],
-    queryFn: async (): Promise<Producto[]> => {
-      console.log('🔍 Fetching products with filters:', filters);
+    queryFn: async ({ pageParam }): Promise<ProductPage> => {
+      console.log('🔍 Fetching products with filters:', filters, pageParam ? 'after cursor' : 'first page');
       
-      let query = supabase
+      // Same filters as the search_productos RPC the chat-assistant uses, so both see identical results.
+      // With a searchTerm the results are fuzzy-matched and, by default, ordered by relevance
+      const { data, error } = await supabase.rpc('search_productos_page', {
+        ...toSearchArgs(filters),
+        p_sort: filters?.sort,
+        p_cursor: pageParam as unknown as Json,
+        p_limit: PRODUCT_PAGE_SIZE,
+      });
+
+      if (error) {
+        console.error('❌ Error fetching products:', error);
+        throw new Error('Failed to load products');
+      }
+
+      const page = data as unknown as ProductPage;
+      console.log('✅ Products loaded successfully:', page.items.length);
+      return page;
+    },
+    initialPageParam: null as ProductPageCursor | null,
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
+    retry: 3,
+    staleTime: 5 * 60 * 1000, // 5 minutes
+  });
+};
+
+// Products in the given order, e.g. for the comparison view
+export const useProductsByIds = (ids: string[]) => {
+  return useQuery({
+    queryKey: ['productos', 'ids', ids],
+    queryFn: async (): Promise<Producto[]> => {
+      const { data, error } = await supabase
         .from('productos')
         .select('*')
-        .order('categoria')
-        .order('nombre');
+        .in('id', ids);
 
-      if (filters?.categoria) {
-        query = query.eq('categoria', filters.categoria);
+      if (error) {
+        console.error('❌ Error fetching products by id:', error);
+        throw new Error('Failed to load products');
       }
 
-      if (filters?.precioMin !== undefined) {
-        query = query.gte('precio', filters.precioMin);
-      }
+      return ids
+        .map(id => data?.find(product => product.id === id))
+        .filter((product): product is Producto => !!product);
+    },
+    enabled: ids.length > 0,
+    staleTime: 60 * 1000, // 1 minute - stock is part of the comparison
+  });
+};
 
-      if (filters?.precioMax !== undefined) {
-        query = query.lte('precio', filters.precioMax);
-      }
+// A single product for its detail page; null when the id does not exist
+export const useProduct = (id: string | undefined) => {
+  return useQuery({
+    queryKey: ['productos', 'id', id],
+    queryFn: async (): Promise<Producto | null> => {
+      const { data, error } = await supabase
+        .from('productos')
+        .select('*')
+        .eq('id', id!)
+        .maybeSingle();
 
-      if (filters?.searchTerm) {
-        query = query.or(`nombre.ilike.%${filters.searchTerm}%,descripcion.ilike.%${filters.searchTerm}%`);
+      if (error) {
+        console.error('❌ Error fetching product:', error);
+        throw new Error('Failed to load product');
       }
 
-      const { data, error } = await query;
+      return data;
+    },
+    enabled: !!id,
+    staleTime: 60 * 1000, // 1 minute - stock is shown on the page
+  });
+};
+
+// Other products of the same category, the ones with more stock first
+export const useRelatedProducts = (product: Producto | null | undefined, limit = RELATED_PRODUCTS_LIMIT) => {
+  return useQuery({
+    queryKey: ['productos', 'related', product?.id, limit],
+    queryFn: async (): Promise<Producto[]> => {
+      const { data, error } = await supabase
+        .from('productos')
+        .select('*')
+        .eq('categoria', product!.categoria)
+        .neq('id', product!.id)
+        .order('cantidad_disponible', { ascending: false })
+        .limit(limit);
 
       if (error) {
-        console.error('❌ Error fetching products:', error);
-        throw new Error('Failed to load products');
+        console.error('❌ Error fetching related products:', error);
+        throw new Error('Failed to load related products');
       }
 
-      console.log('✅ Products loaded successfully:', data?.length || 0);
       return data || [];
     },
-    retry: 3,
+    enabled: !!product,
     staleTime: 5 * 60 * 1000, // 5 minutes
   });
 };
 
-export const useCategories = () => {
+// Category, price and stock counts for the facet sidebar, computed in the database for the current filters
+export const useProductFacets = (filters?: ProductFilters) => {
+  // The order of the grid does not change the counts
+  const { sort, ...facetFilters } = filters || {};
+
   return useQuery({
-    queryKey: ['categorias'],
-    queryFn: async (): Promise<string[]> => {
-      console.log('🔍 Fetching categories...');
-      
-      const { data, error } = await supabase
-        .from('productos')
-        .select('categoria')
-        .order('categoria');
+    queryKey: ['productos', 'facets', facetFilters],
+    queryFn: async (): Promise<ProductFacets> => {
+      const { data, error } = await supabase.rpc('get_product_facets', toSearchArgs(facetFilters));
 
       if (error) {
-        console.error('❌ Error fetching categories:', error);
-        throw new Error('Failed to load categories');
+        console.error('❌ Error fetching product facets:', error);
+        throw new Error('Failed to load product facets');
       }
 
-      const uniqueCategories = Array.from(new Set(data?.map(item => item.categoria) || []));
-      console.log('✅ Categories loaded successfully:', uniqueCategories);
-      return uniqueCategories;
+      return data as unknown as ProductFacets;
     },
+    placeholderData: keepPreviousData,
     retry: 3,
-    staleTime: 10 * 60 * 1000, // 10 minutes
+    staleTime: 5 * 60 * 1000, // 5 minutes
   });
 };
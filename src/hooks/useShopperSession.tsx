@@ -0,0 +1,252 @@
+import { useState, useEffect, useCallback, useRef, createContext, useContext } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { ProductFilters } from '@/types/database';
+import { v4 as uuidv4 } from 'uuid';
+
+const STORAGE_KEY = 'strateai-shopper-session';
+const RESUME_PARAM = 'resume';
+const SAVE_FILTERS_DELAY_MS = 800;
+
+interface StoredSession {
+  sessionId: string;
+  conversacionId: string | null;
+  filters: ProductFilters;
+}
+
+interface ShopperSessionContextType {
+  sessionId: string;
+  conversacionId: string | null;
+  // Resolves to the current conversation, creating it on first use; concurrent callers share one insert
+  ensureConversation: () => Promise<string>;
+  // True when the conversation was restored from a previous visit or a resume link
+  isResumed: boolean;
+  isRestoring: boolean;
+  // Filters to re-apply to the grid once the session has been restored
+  restoredFilters: ProductFilters | null;
+  saveFilters: (filters: ProductFilters) => void;
+  createResumeLink: () => Promise<string | null>;
+  startNewSession: () => void;
+}
+
+const ShopperSessionContext = createContext<ShopperSessionContextType | undefined>(undefined);
+
+const readStoredSession = (): StoredSession | null => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return null;
+    const parsed = JSON.parse(raw);
+    return typeof parsed?.sessionId === 'string'
+      ? { sessionId: parsed.sessionId, conversacionId: parsed.conversacionId ?? null, filters: parsed.filters ?? {} }
+      : null;
+  } catch {
+    return null;
+  }
+};
+
+const writeStoredSession = (session: StoredSession) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(session));
+  } catch (error) {
+    console.warn('⚠️ Could not persist shopper session:', error);
+  }
+};
+
+const hasFilters = (filters: ProductFilters | null | undefined): filters is ProductFilters =>
+  !!filters && Object.keys(filters).length > 0;
+
+export const ShopperSessionProvider = ({ children }: { children: React.ReactNode }) => {
+  const [initialSession] = useState<StoredSession>(() => readStoredSession() ?? {
+    sessionId: uuidv4(),
+    conversacionId: null,
+    filters: {},
+  });
+  const [sessionId, setSessionId] = useState(initialSession.sessionId);
+  const [conversacionId, setConversacionIdState] = useState<string | null>(initialSession.conversacionId);
+  const [isResumed, setIsResumed] = useState(!!initialSession.conversacionId);
+  const [isRestoring, setIsRestoring] = useState(true);
+  const [restoredFilters, setRestoredFilters] = useState<ProductFilters | null>(
+    hasFilters(initialSession.filters) ? initialSession.filters : null
+  );
+  const filtersRef = useRef<ProductFilters>(initialSession.filters);
+  const saveTimerRef = useRef<number | null>(null);
+  // Insert in flight for a session, so every caller gets the same conversation row
+  const pendingConversationRef = useRef<{ sessionId: string; promise: Promise<string> } | null>(null);
+
+  // Persist every change so a reload picks up where the shopper left off
+  useEffect(() => {
+    writeStoredSession({ sessionId, conversacionId, filters: filtersRef.current });
+  }, [sessionId, conversacionId]);
+
+  // Restore from a resume link (?resume=<token>) or verify the stored conversation still exists
+  useEffect(() => {
+    let cancelled = false;
+
+    const restore = async () => {
+      const url = new URL(window.location.href);
+      const token = url.searchParams.get(RESUME_PARAM);
+
+      if (token) {
+        url.searchParams.delete(RESUME_PARAM);
+        window.history.replaceState(window.history.state, '', url.toString());
+
+        const { data, error } = await supabase.functions.invoke('session-link', {
+          body: { action: 'resume', token },
+        });
+
+        if (!cancelled && !error && data?.success) {
+          console.log('🔗 Session resumed from link:', data.conversationId);
+          filtersRef.current = data.filters ?? {};
+          setSessionId(data.sessionId);
+          setConversacionIdState(data.conversationId);
+          setIsResumed(true);
+          setRestoredFilters(hasFilters(data.filters) ? data.filters : null);
+          return;
+        }
+        console.warn('⚠️ Resume link could not be used:', error ?? data?.error);
+      }
+
+      if (!initialSession.conversacionId) return;
+
+      const { data } = await supabase.rpc('get_session_conversation', {
+        p_conversacion_id: initialSession.conversacionId,
+        p_session_id: initialSession.sessionId,
+      });
+      const conversation = data as unknown as { id: string; ultimos_filtros: ProductFilters | null } | null;
+
+      if (cancelled) return;
+
+      if (!conversation) {
+        console.log('🧹 Stored conversation no longer exists, starting fresh');
+        setConversacionIdState(null);
+        setIsResumed(false);
+        return;
+      }
+
+      console.log('♻️ Restored conversation from previous visit:', conversation.id);
+      // The server copy wins when the shopper last browsed on another device
+      const serverFilters = conversation.ultimos_filtros;
+      if (hasFilters(serverFilters) && !hasFilters(initialSession.filters)) {
+        filtersRef.current = serverFilters;
+        setRestoredFilters(serverFilters);
+      }
+    };
+
+    restore().finally(() => {
+      if (!cancelled) setIsRestoring(false);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [initialSession]);
+
+  const ensureConversation = useCallback((): Promise<string> => {
+    if (conversacionId) return Promise.resolve(conversacionId);
+    if (pendingConversationRef.current?.sessionId === sessionId) return pendingConversationRef.current.promise;
+
+    const promise = (async () => {
+      const { data, error } = await supabase
+        .from('conversaciones')
+        .insert({ session_id: sessionId })
+        .select('id')
+        .single();
+
+      if (error) {
+        console.error('Error creating conversation:', error);
+        throw new Error('Failed to start conversation');
+      }
+      return data.id;
+    })();
+    pendingConversationRef.current = { sessionId, promise };
+
+    // Ignore the result if the shopper started a new session meanwhile; a failed insert can be retried
+    promise.then(
+      (id) => {
+        if (pendingConversationRef.current?.promise === promise) setConversacionIdState(id);
+      },
+      () => {
+        if (pendingConversationRef.current?.promise === promise) pendingConversationRef.current = null;
+      }
+    );
+    return promise;
+  }, [sessionId, conversacionId]);
+
+  // Start the conversation once the stored or linked one has been checked, so resuming never creates a spare row
+  useEffect(() => {
+    if (isRestoring || conversacionId) return;
+    ensureConversation().catch(() => undefined);
+  }, [isRestoring, conversacionId, ensureConversation]);
+
+  // Filters are stored locally right away and on the conversation (debounced) for other devices
+  const saveFilters = useCallback((filters: ProductFilters) => {
+    filtersRef.current = filters;
+    writeStoredSession({ sessionId, conversacionId, filters });
+
+    if (!conversacionId) return;
+    if (saveTimerRef.current) window.clearTimeout(saveTimerRef.current);
+    saveTimerRef.current = window.setTimeout(async () => {
+      const { error } = await supabase.rpc('save_conversation_filters', {
+        p_conversacion_id: conversacionId,
+        p_session_id: sessionId,
+        p_filtros: JSON.parse(JSON.stringify(filters)),
+      });
+      if (error) {
+        console.error('❌ Error saving conversation filters:', error);
+      }
+    }, SAVE_FILTERS_DELAY_MS);
+  }, [sessionId, conversacionId]);
+
+  useEffect(() => () => {
+    if (saveTimerRef.current) window.clearTimeout(saveTimerRef.current);
+  }, []);
+
+  const createResumeLink = useCallback(async (): Promise<string | null> => {
+    if (!conversacionId) return null;
+
+    const { data, error } = await supabase.functions.invoke('session-link', {
+      body: { action: 'create', conversationId: conversacionId, sessionId },
+    });
+
+    if (error || !data?.success) {
+      console.error('❌ Error creating resume link:', error ?? data?.error);
+      return null;
+    }
+
+    const url = new URL(window.location.origin + window.location.pathname);
+    url.searchParams.set(RESUME_PARAM, data.token);
+    return url.toString();
+  }, [conversacionId, sessionId]);
+
+  const startNewSession = useCallback(() => {
+    filtersRef.current = {};
+    pendingConversationRef.current = null;
+    setSessionId(uuidv4());
+    setConversacionIdState(null);
+    setIsResumed(false);
+    setRestoredFilters(null);
+  }, []);
+
+  return (
+    <ShopperSessionContext.Provider value={{
+      sessionId,
+      conversacionId,
+      ensureConversation,
+      isResumed,
+      isRestoring,
+      restoredFilters,
+      saveFilters,
+      createResumeLink,
+      startNewSession,
+    }}>
+      {children}
+    </ShopperSessionContext.Provider>
+  );
+};
+
+export const useShopperSession = () => {
+  const context = useContext(ShopperSessionContext);
+  if (context === undefined) {
+    throw new Error('useShopperSession must be used within a ShopperSessionProvider');
+  }
+  return context;
+};
@@ -0,0 +1,95 @@
+import { useCallback, useRef } from 'react';
+
+// First complete sentence of a partial reply (ends in . ! or ? followed by whitespace).
+// Very short openers like "¡Claro!" are merged with the next sentence so they don't sound choppy.
+export const extractFirstSentence = (text: string): string | null => {
+  const boundary = /[.!?](?=\s)/g;
+  let match: RegExpExecArray | null;
+  while ((match = boundary.exec(text)) !== null) {
+    const sentence = text.slice(0, match.index + 1).trim();
+    if (sentence.length >= 12) return sentence;
+  }
+  return null;
+};
+
+const normalizeWord = (word: string) => word.toLowerCase().replace(/[^\p{L}\p{N}]/gu, '');
+
+/**
+ * Returns what is left of the final reply after the sentence already spoken,
+ * or null when the final (validated) text no longer starts with that sentence.
+ */
+export const remainderAfterSpokenPrefix = (spoken: string, finalText: string): string | null => {
+  const spokenWords = spoken.split(/\s+/).map(normalizeWord).filter(Boolean);
+  const finalWords = finalText.split(/\s+/).filter(Boolean);
+
+  let matched = 0;
+  let index = 0;
+  for (; index < finalWords.length && matched < spokenWords.length; index++) {
+    const word = normalizeWord(finalWords[index]);
+    if (!word) continue;
+    if (word !== spokenWords[matched]) return null;
+    matched++;
+  }
+
+  return matched === spokenWords.length ? finalWords.slice(index).join(' ') : null;
+};
+
+/**
+ * Speaks a streaming assistant reply incrementally: the first complete sentence as soon
+ * as it is streamed, then the rest of the persisted reply once it arrives.
+ */
+export const useStreamingSpeech = <T>(speak: (text: string) => Promise<T> | void) => {
+  const spokenPrefixRef = useRef<string | null>(null);
+  const queueRef = useRef<Promise<T | void>>(Promise.resolve());
+  const generationRef = useRef(0);
+
+  // Utterances play one after another; reset() drops anything still queued
+  const enqueue = useCallback((text: string): Promise<T | void> => {
+    const generation = generationRef.current;
+    queueRef.current = queueRef.current
+      .catch(() => undefined)
+      .then<T | void>(() => (generation === generationRef.current ? speak(text) : undefined));
+    return queueRef.current;
+  }, [speak]);
+
+  const handleStreamProgress = useCallback((content: string | null) => {
+    if (!content || spokenPrefixRef.current !== null) return;
+
+    const sentence = extractFirstSentence(content);
+    if (sentence) {
+      console.log('🗣️ Speaking first streamed sentence:', sentence);
+      spokenPrefixRef.current = sentence;
+      enqueue(sentence);
+    }
+  }, [enqueue]);
+
+  const speakFinalMessage = useCallback((content: string): Promise<T | void> => {
+    const spokenPrefix = spokenPrefixRef.current;
+    spokenPrefixRef.current = null;
+
+    if (!spokenPrefix) {
+      return enqueue(content);
+    }
+
+    const remainder = remainderAfterSpokenPrefix(spokenPrefix, content);
+    if (remainder === null) {
+      // The validator rewrote the answer - read the corrected version in full
+      console.log('🔁 Final reply differs from streamed text, speaking it in full');
+      return enqueue(content);
+    }
+
+    return remainder ? enqueue(remainder) : queueRef.current;
+  }, [enqueue]);
+
+  const reset = useCallback(() => {
+    generationRef.current++;
+    spokenPrefixRef.current = null;
+    queueRef.current = Promise.resolve();
+  }, []);
+
+  return {
+    handleStreamProgress,
+    speakFinalMessage,
+    reset,
+  };
+};
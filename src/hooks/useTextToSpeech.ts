@@ -7,6 +7,7 @@ import {
   clearVoiceCache,
   VoiceSelectionResult 
 } from '@/utils/voiceSelection';
+import { resolveSpanishVariant, verbalizeSpanishForSpeech } from '@/utils/spanishSpeech';
 
 interface UseTextToSpeechOptions {
   language?: string;
@@ -65,6 +66,8 @@ export const useTextToSpeech = (options: UseTextToSpeechOptions = {}): UseTextTo
   const userGestureActiveRef = useRef<boolean>(false);
   const gestureTimeoutRef = useRef<NodeJS.Timeout | null>(null);
   const fallbackAttemptRef = useRef<number>(0);
+  // Resolvers for callers awaiting the end of the current playback
+  const playbackResolversRef = useRef<(() => void)[]>([]);
 
   // Check if Speech Synthesis is supported
   const isSupported = typeof window !== 'undefined' && 'speechSynthesis' in window;
@@ -227,11 +230,18 @@ export const useTextToSpeech = (options: UseTextToSpeechOptions = {}): UseTextTo
     }
   }, [isSupported, isMobile, initializeAudioContext, markUserGestureActive]);
 
+  // Notify everyone awaiting speak() that playback finished, failed or was skipped
+  const settlePlayback = useCallback(() => {
+    const resolvers = playbackResolversRef.current;
+    playbackResolversRef.current = [];
+    resolvers.forEach(resolve => resolve());
+  }, []);
+
   // Clean text for natural speech
   const cleanTextForSpeech = useCallback((text: string): string => {
     if (!text?.trim()) return '';
 
-    return text
+    const cleaned = text
       .replace(/\*\*(.*?)\*\*/g, '$1')
       .replace(/\*(.*?)\*/g, '$1')
       .replace(/`(.*?)`/g, '$1')
@@ -242,7 +252,10 @@ export const useTextToSpeech = (options: UseTextToSpeechOptions = {}): UseTextTo
       .replace(/\n+/g, '. ')
       .replace(/\s*[•·]\s*/g, '. ')
       .trim();
-  }, []);
+
+    // Prices, model codes and units read as words instead of digit by digit
+    return language.startsWith('es') ? verbalizeSpanishForSpeech(cleaned, resolveSpanishVariant(language)) : cleaned;
+  }, [language]);
 
   // Core TTS playback with progressive fallback
   const performTTSPlayback = useCallback(async (text: string, messageId?: string) => {
@@ -257,6 +270,7 @@ export const useTextToSpeech = (options: UseTextToSpeechOptions = {}): UseTextTo
       const cleanText = cleanTextForSpeech(text);
       if (!cleanText) {
         console.warn('⚠️ No text to speak after cleaning');
+        settlePlayback();
         return;
       }
 
@@ -301,6 +315,7 @@ export const useTextToSpeech = (options: UseTextToSpeechOptions = {}): UseTextTo
         setIsInitializing(false);
         isProcessingRef.current = false;
         currentMessageIdRef.current = null;
+        settlePlayback();
       };
 
       utterance.onerror = async (event) => {
@@ -351,6 +366,7 @@ export const useTextToSpeech = (options: UseTextToSpeechOptions = {}): UseTextTo
         setIsInitializing(false);
         isProcessingRef.current = false;
         currentMessageIdRef.current = null;
+        settlePlayback();
       };
 
       utteranceRef.current = utterance;
@@ -368,6 +384,7 @@ export const useTextToSpeech = (options: UseTextToSpeechOptions = {}): UseTextTo
         setError('');
         setIsInitializing(false);
         isProcessingRef.current = false;
+        settlePlayback();
         return;
       }
       
@@ -379,28 +396,32 @@ export const useTextToSpeech = (options: UseTextToSpeechOptions = {}): UseTextTo
       setCanAutoPlay(false);
       isProcessingRef.current = false;
       setIsInitializing(false);
+      settlePlayback();
     }
-  }, [cleanTextForSpeech, selectUniversalVoice, language, rate, pitch, volume, isMobile]);
+  }, [cleanTextForSpeech, selectUniversalVoice, language, rate, pitch, volume, isMobile, settlePlayback]);
 
   // Main speak function with progressive fallback
-  const speak = useCallback((text: string, messageId?: string) => {
+  // Resolves once the utterance has finished (or immediately when it is skipped)
+  const speak = useCallback((text: string, messageId?: string): Promise<void> => {
     // Early returns for unsupported or muted states
     if (!isSupported || isMuted || !text?.trim()) {
-      return;
+      return Promise.resolve();
     }
 
     // Prevent re-processing if already processing
     if (isProcessingRef.current) {
       console.log('🔄 TTS: Already processing, skipping');
-      return;
+      return Promise.resolve();
     }
 
     // Check if message was already spoken
     if (messageId && spokenMessagesRef.current.has(messageId)) {
       console.log('🔄 TTS: Message already spoken, skipping:', messageId);
-      return;
+      return Promise.resolve();
     }
 
+    const playbackDone = new Promise<void>(resolve => playbackResolversRef.current.push(resolve));
+
     // Mark as processing
     isProcessingRef.current = true;
     setIsInitializing(true);
@@ -416,7 +437,8 @@ export const useTextToSpeech = (options: UseTextToSpeechOptions = {}): UseTextTo
         setError('');
         setIsInitializing(false);
         isProcessingRef.current = false;
-        return;
+        settlePlayback();
+        return playbackDone;
       }
       
       // Play immediately with active gesture
@@ -447,7 +469,9 @@ export const useTextToSpeech = (options: UseTextToSpeechOptions = {}): UseTextTo
         setTimeout(processVoice, 100);
       }
     }
-  }, [isSupported, isMuted, isMobile, canAutoPlay, performTTSPlayback]);
+
+    return playbackDone;
+  }, [isSupported, isMuted, isMobile, canAutoPlay, performTTSPlayback, settlePlayback]);
 
   const stop = useCallback(() => {
     if (isSupported) {
@@ -461,11 +485,12 @@ export const useTextToSpeech = (options: UseTextToSpeechOptions = {}): UseTextTo
         pendingPlaybackRef.current = null;
         userGestureActiveRef.current = false;
         fallbackAttemptRef.current = 0;
+        settlePlayback();
       } catch (error) {
         console.error('❌ Error stopping TTS:', error);
       }
     }
-  }, [isSupported]);
+  }, [isSupported, settlePlayback]);
 
   const replay = useCallback(() => {
     if (lastTextRef.current && !isSpeaking && !isInitializing) {
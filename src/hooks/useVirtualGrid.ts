@@ -0,0 +1,131 @@
+import { useState, useEffect, useLayoutEffect, useMemo, useCallback, RefObject } from 'react';
+
+interface VirtualGridOptions {
+  itemCount: number;
+  // Columns are as many as fit at this width
+  minItemWidth: number;
+  gap: number;
+  // Used for rows that have not been rendered (and measured) yet
+  estimatedRowHeight: number;
+  // Extra rows rendered above and below the viewport
+  overscanRows?: number;
+}
+
+interface Viewport {
+  width: number;
+  height: number;
+  // Scroll position relative to the top of the list
+  scrollTop: number;
+}
+
+export interface VirtualRow {
+  index: number;
+  top: number;
+  // Item indexes in this row
+  start: number;
+  end: number;
+}
+
+/**
+ * Windowed rendering for a responsive grid inside a scroll container: only the rows near the viewport
+ * are rendered, positioned absolutely inside a spacer as tall as the whole list. Row heights are
+ * measured after render (attach measureRow to each row), so cards of varying height stay aligned.
+ */
+export const useVirtualGrid = (
+  scrollRef: RefObject<HTMLElement>,
+  listRef: RefObject<HTMLElement>,
+  { itemCount, minItemWidth, gap, estimatedRowHeight, overscanRows = 2 }: VirtualGridOptions
+) => {
+  const [viewport, setViewport] = useState<Viewport>({ width: 0, height: 0, scrollTop: 0 });
+  const [measured, setMeasured] = useState<{ columns: number; heights: Record<number, number> }>({ columns: 0, heights: {} });
+
+  // Re-attach the listeners when the list first gets items, in case it was not mounted before
+  const hasItems = itemCount > 0;
+
+  useEffect(() => {
+    const scrollElement = scrollRef.current;
+    const listElement = listRef.current;
+    if (!scrollElement || !listElement) return;
+
+    const update = () => {
+      const listOffset = listElement.getBoundingClientRect().top - scrollElement.getBoundingClientRect().top + scrollElement.scrollTop;
+      setViewport({
+        width: listElement.clientWidth,
+        height: scrollElement.clientHeight,
+        scrollTop: scrollElement.scrollTop - listOffset,
+      });
+    };
+
+    update();
+    scrollElement.addEventListener('scroll', update, { passive: true });
+    const resizeObserver = new ResizeObserver(update);
+    resizeObserver.observe(scrollElement);
+    resizeObserver.observe(listElement);
+
+    return () => {
+      scrollElement.removeEventListener('scroll', update);
+      resizeObserver.disconnect();
+    };
+  }, [scrollRef, listRef, hasItems]);
+
+  const columns = Math.max(1, Math.floor((viewport.width + gap) / (minItemWidth + gap)));
+  const rowCount = Math.ceil(itemCount / columns);
+  // Heights measured with another column count no longer apply
+  const heights = useMemo(() => (measured.columns === columns ? measured.heights : {}), [measured, columns]);
+
+  const offsets = useMemo(() => {
+    const tops: number[] = [];
+    let top = 0;
+    for (let row = 0; row < rowCount; row++) {
+      tops.push(top);
+      top += (heights[row] ?? estimatedRowHeight) + gap;
+    }
+    return { tops, totalHeight: Math.max(0, top - gap) };
+  }, [rowCount, heights, estimatedRowHeight, gap]);
+
+  const rows = useMemo(() => {
+    const visible: VirtualRow[] = [];
+    const viewportBottom = viewport.scrollTop + viewport.height;
+    for (let row = 0; row < rowCount; row++) {
+      const top = offsets.tops[row];
+      const bottom = top + (heights[row] ?? estimatedRowHeight);
+      if (bottom < viewport.scrollTop || top > viewportBottom) continue;
+      visible.push({ index: row, top, start: row * columns, end: Math.min(itemCount, (row + 1) * columns) });
+    }
+    if (visible.length === 0) return visible;
+
+    // Overscan around the visible rows
+    const first = Math.max(0, visible[0].index - overscanRows);
+    const last = Math.min(rowCount - 1, visible[visible.length - 1].index + overscanRows);
+    const result: VirtualRow[] = [];
+    for (let row = first; row <= last; row++) {
+      result.push({ index: row, top: offsets.tops[row], start: row * columns, end: Math.min(itemCount, (row + 1) * columns) });
+    }
+    return result;
+  }, [viewport, rowCount, offsets, heights, estimatedRowHeight, columns, itemCount, overscanRows]);
+
+  // Rendered rows report their height; ignore sub-pixel differences so layout settles
+  const measureRow = useCallback((rowIndex: number) => (element: HTMLElement | null) => {
+    if (!element) return;
+    const height = element.getBoundingClientRect().height;
+    setMeasured(current => {
+      const base = current.columns === columns ? current.heights : {};
+      if (Math.abs((base[rowIndex] ?? 0) - height) < 1) return current.columns === columns ? current : { columns, heights: base };
+      return { columns, heights: { ...base, [rowIndex]: height } };
+    });
+  }, [columns]);
+
+  // Keep the viewport in sync when the list itself grows or shrinks (e.g. a new page arrives)
+  useLayoutEffect(() => {
+    scrollRef.current?.dispatchEvent(new Event('scroll'));
+  }, [itemCount, scrollRef]);
+
+  return {
+    columns,
+    rows,
+    totalHeight: offsets.totalHeight,
+    lastVisibleRow: rows.length > 0 ? rows[rows.length - 1].index : -1,
+    rowCount,
+    measureRow,
+  };
+};
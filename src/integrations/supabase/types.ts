@@ -56,6 +56,80 @@ export type Database = {
         }
         Relationships: []
       }
+      carrito_items: {
+        Row: {
+          cantidad: number
+          carrito_id: string
+          created_at: string
+          id: string
+          producto_id: string
+          updated_at: string
+        }
+        Insert: {
+          cantidad: number
+          carrito_id: string
+          created_at?: string
+          id?: string
+          producto_id: string
+          updated_at?: string
+        }
+        Update: {
+          cantidad?: number
+          carrito_id?: string
+          created_at?: string
+          id?: string
+          producto_id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "carrito_items_carrito_id_fkey"
+            columns: ["carrito_id"]
+            isOneToOne: false
+            referencedRelation: "carritos"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "carrito_items_producto_id_fkey"
+            columns: ["producto_id"]
+            isOneToOne: false
+            referencedRelation: "productos"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      carritos: {
+        Row: {
+          conversacion_id: string | null
+          created_at: string
+          id: string
+          session_id: string
+          updated_at: string
+        }
+        Insert: {
+          conversacion_id?: string | null
+          created_at?: string
+          id?: string
+          session_id: string
+          updated_at?: string
+        }
+        Update: {
+          conversacion_id?: string | null
+          created_at?: string
+          id?: string
+          session_id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "carritos_conversacion_id_fkey"
+            columns: ["conversacion_id"]
+            isOneToOne: false
+            referencedRelation: "conversaciones"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       code_generation_logs: {
         Row: {
           code_hash: string | null
@@ -134,48 +208,54 @@ export type Database = {
         }
         Relationships: []
       }
-      code_generation_rate_limits: {
+      conversaciones: {
         Row: {
-          created_at: string
           id: string
-          identifier: string
-          request_count: number | null
+          session_id: string
+          started_at: string
+          ultimos_filtros: Json | null
           updated_at: string
-          window_start: string
         }
         Insert: {
-          created_at?: string
           id?: string
-          identifier: string
-          request_count?: number | null
+          session_id: string
+          started_at?: string
+          ultimos_filtros?: Json | null
           updated_at?: string
-          window_start?: string
         }
         Update: {
-          created_at?: string
           id?: string
-          identifier?: string
-          request_count?: number | null
+          session_id?: string
+          started_at?: string
+          ultimos_filtros?: Json | null
           updated_at?: string
-          window_start?: string
         }
         Relationships: []
       }
-      conversaciones: {
+      edge_rate_limits: {
         Row: {
-          id: string
-          session_id: string
-          started_at: string
+          expires_at: string
+          function_name: string
+          identifier: string
+          request_count: number
+          window_seconds: number
+          window_start: string
         }
         Insert: {
-          id?: string
-          session_id: string
-          started_at?: string
+          expires_at: string
+          function_name: string
+          identifier: string
+          request_count?: number
+          window_seconds: number
+          window_start: string
         }
         Update: {
-          id?: string
-          session_id?: string
-          started_at?: string
+          expires_at?: string
+          function_name?: string
+          identifier?: string
+          request_count?: number
+          window_seconds?: number
+          window_start?: string
         }
         Relationships: []
       }
@@ -226,6 +306,7 @@ export type Database = {
           content: string
           conversacion_id: string | null
           id: string
+          payload: Json | null
           sender: string
           timestamp: string
         }
@@ -233,6 +314,7 @@ export type Database = {
           content: string
           conversacion_id?: string | null
           id?: string
+          payload?: Json | null
           sender: string
           timestamp?: string
         }
@@ -240,6 +322,7 @@ export type Database = {
           content?: string
           conversacion_id?: string | null
           id?: string
+          payload?: Json | null
           sender?: string
           timestamp?: string
         }
@@ -253,6 +336,110 @@ export type Database = {
           },
         ]
       }
+      pedido_items: {
+        Row: {
+          cantidad: number
+          id: string
+          nombre: string
+          pedido_id: string
+          precio_unitario: number
+          producto_id: string | null
+          subtotal: number
+        }
+        Insert: {
+          cantidad: number
+          id?: string
+          nombre: string
+          pedido_id: string
+          precio_unitario: number
+          producto_id?: string | null
+          subtotal: number
+        }
+        Update: {
+          cantidad?: number
+          id?: string
+          nombre?: string
+          pedido_id?: string
+          precio_unitario?: number
+          producto_id?: string | null
+          subtotal?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "pedido_items_pedido_id_fkey"
+            columns: ["pedido_id"]
+            isOneToOne: false
+            referencedRelation: "pedidos"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "pedido_items_producto_id_fkey"
+            columns: ["producto_id"]
+            isOneToOne: false
+            referencedRelation: "productos"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      pedidos: {
+        Row: {
+          cliente_email: string
+          cliente_nombre: string
+          conversacion_id: string | null
+          created_at: string
+          estado: string
+          id: string
+          moneda: string
+          motivo_cancelacion: string | null
+          numero: number
+          pago_proveedor: string | null
+          pago_referencia: string | null
+          session_id: string
+          total: number
+          updated_at: string
+        }
+        Insert: {
+          cliente_email: string
+          cliente_nombre: string
+          conversacion_id?: string | null
+          created_at?: string
+          estado?: string
+          id?: string
+          moneda?: string
+          motivo_cancelacion?: string | null
+          numero?: never
+          pago_proveedor?: string | null
+          pago_referencia?: string | null
+          session_id: string
+          total: number
+          updated_at?: string
+        }
+        Update: {
+          cliente_email?: string
+          cliente_nombre?: string
+          conversacion_id?: string | null
+          created_at?: string
+          estado?: string
+          id?: string
+          moneda?: string
+          motivo_cancelacion?: string | null
+          numero?: never
+          pago_proveedor?: string | null
+          pago_referencia?: string | null
+          session_id?: string
+          total?: number
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "pedidos_conversacion_id_fkey"
+            columns: ["conversacion_id"]
+            isOneToOne: false
+            referencedRelation: "conversaciones"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       productos: {
         Row: {
           cantidad_disponible: number
@@ -396,6 +583,62 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
+      cancel_order: {
+        Args: { p_pedido_id: string; p_motivo?: string }
+        Returns: boolean
+      }
+      clear_cart: {
+        Args: { p_session_id: string }
+        Returns: boolean
+      }
+      confirm_order_payment: {
+        Args: {
+          p_pedido_id: string
+          p_pago_proveedor: string
+          p_pago_referencia: string
+        }
+        Returns: boolean
+      }
+      consume_rate_limit: {
+        Args: { p_function_name: string; p_rules: Json }
+        Returns: Json
+      }
+      create_order_from_cart: {
+        Args: {
+          p_session_id: string
+          p_cliente_nombre: string
+          p_cliente_email: string
+          p_conversacion_id?: string
+        }
+        Returns: Json
+      }
+      get_cart: {
+        Args: { p_session_id: string }
+        Returns: Json
+      }
+      get_catalog_overview: {
+        Args: Record<PropertyKey, never>
+        Returns: Json
+      }
+      get_product_facets: {
+        Args: {
+          p_categoria?: string
+          p_precio_min?: number
+          p_precio_max?: number
+          p_search_term?: string
+          p_categorias?: string[]
+          p_solo_en_stock?: boolean
+        }
+        Returns: Json
+      }
+      get_order: {
+        Args: { p_pedido_id: string; p_session_id: string }
+        Returns: Json
+      }
+      get_session_conversation: {
+        Args: { p_conversacion_id: string; p_session_id: string }
+        Returns: Json
+      }
       has_role: {
         Args: {
           _user_id: string
@@ -407,6 +650,14 @@ export type Database = {
         Args: { _user_id: string }
         Returns: boolean
       }
+      producto_search_document: {
+        Args: { p_nombre: string; p_descripcion: string; p_categoria: string }
+        Returns: unknown
+      }
+      producto_search_text: {
+        Args: { p_nombre: string; p_descripcion: string; p_categoria: string }
+        Returns: string
+      }
       publish_staging_products: {
         Args: { staging_ids: string[]; admin_user_id: string }
         Returns: {
@@ -415,6 +666,64 @@ export type Database = {
           error_message: string
         }[]
       }
+      save_conversation_filters: {
+        Args: {
+          p_conversacion_id: string
+          p_session_id: string
+          p_filtros: Json
+        }
+        Returns: boolean
+      }
+      search_productos: {
+        Args: {
+          p_categoria?: string
+          p_precio_min?: number
+          p_precio_max?: number
+          p_search_term?: string
+          p_categorias?: string[]
+          p_solo_en_stock?: boolean
+        }
+        Returns: {
+          cantidad_disponible: number
+          categoria: string
+          created_at: string
+          descripcion: string
+          id: string
+          imagen_url: string
+          imagenes_urls: string[] | null
+          nombre: string
+          precio: number
+          video_url: string | null
+        }[]
+      }
+      search_productos_page: {
+        Args: {
+          p_categoria?: string
+          p_precio_min?: number
+          p_precio_max?: number
+          p_search_term?: string
+          p_categorias?: string[]
+          p_solo_en_stock?: boolean
+          p_sort?: string
+          p_cursor?: Json
+          p_limit?: number
+        }
+        Returns: Json
+      }
+      unaccent_immutable: {
+        Args: { p_text: string }
+        Returns: string
+      }
+      update_cart_item: {
+        Args: {
+          p_session_id: string
+          p_producto_id: string
+          p_cantidad: number
+          p_modo?: string
+          p_conversacion_id?: string
+        }
+        Returns: Json
+      }
     }
     Enums: {
       app_role: "admin" | "moderator" | "user"
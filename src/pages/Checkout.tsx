@@ -0,0 +1,193 @@
+import { useState } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { AlertCircle, ArrowLeft, Loader2, ShoppingCart } from 'lucide-react';
+import { useCart } from '@/hooks/useCart';
+import { useCheckout } from '@/hooks/useOrders';
+import { CheckoutResponse } from '@/types/database';
+
+// Test tokens of the fake payment provider (supabase/functions/_shared/paymentProvider.ts)
+const TEST_PAYMENT_OPTIONS = [
+  { token: 'fake_approved', label: 'Tarjeta de prueba - pago aprobado' },
+  { token: 'fake_declined', label: 'Tarjeta de prueba - pago rechazado' },
+];
+
+const formatPrice = (price: number) => {
+  return new Intl.NumberFormat('es-US', {
+    style: 'currency',
+    currency: 'USD',
+  }).format(price);
+};
+
+const describeCheckoutError = (result: CheckoutResponse): string => {
+  switch (result.error) {
+    case 'invalid_session':
+      return 'Tu sesión no es válida. Recarga la página e intenta de nuevo.';
+    case 'invalid_customer':
+      return 'Revisa tu nombre y correo electrónico.';
+    case 'empty_cart':
+      return 'Tu carrito está vacío.';
+    case 'insufficient_stock':
+      return `Ya no hay suficiente stock de: ${(result.items || [])
+        .map(item => `${item.nombre} (quedan ${item.cantidad_disponible})`)
+        .join(', ')}. Ajusta las cantidades en tu carrito.`;
+    case 'payment_declined':
+      return 'El pago fue rechazado. Prueba con otro método de pago.';
+    case 'payment_error':
+      return 'No pudimos contactar al procesador de pagos. Intenta de nuevo en unos momentos.';
+    case 'rate_limited':
+      return `Demasiados intentos seguidos. Espera ${result.retryAfter ?? 60} segundos y vuelve a intentarlo.`;
+    default:
+      return 'No se pudo completar tu pedido. Intenta de nuevo.';
+  }
+};
+
+const Checkout = () => {
+  const navigate = useNavigate();
+  const { items, total, itemCount, isLoading } = useCart();
+  const checkout = useCheckout();
+  const [nombre, setNombre] = useState('');
+  const [email, setEmail] = useState('');
+  const [paymentToken, setPaymentToken] = useState(TEST_PAYMENT_OPTIONS[0].token);
+  const [error, setError] = useState('');
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+
+    try {
+      const result = await checkout.mutateAsync({ nombre, email, paymentToken });
+      // A repeated submit follows the order the first one placed
+      if ((result.success || result.error === 'order_pending') && result.orderId) {
+        navigate(`/pedido/${result.orderId}`);
+      } else {
+        setError(describeCheckoutError(result));
+      }
+    } catch {
+      setError('No se pudo completar tu pedido. Intenta de nuevo.');
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <Loader2 className="h-8 w-8 animate-spin" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="container max-w-4xl mx-auto px-4 py-8 space-y-6">
+        <Button variant="ghost" size="sm" asChild>
+          <Link to="/">
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Seguir comprando
+          </Link>
+        </Button>
+
+        <h1 className="text-3xl font-bold">Finalizar compra</h1>
+
+        {items.length === 0 ? (
+          <Card>
+            <CardContent className="flex flex-col items-center justify-center text-center py-12">
+              <ShoppingCart className="h-12 w-12 text-muted-foreground mb-3" />
+              <p className="font-medium">Tu carrito está vacío</p>
+              <Button variant="outline" className="mt-4" asChild>
+                <Link to="/">Ver productos</Link>
+              </Button>
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="grid gap-6 md:grid-cols-2">
+            <Card>
+              <CardHeader>
+                <CardTitle>Resumen del pedido</CardTitle>
+                <CardDescription>{itemCount} productos</CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                {items.map(({ id, cantidad, producto }) => (
+                  <div key={id} className="flex justify-between gap-4 text-sm">
+                    <span>
+                      {cantidad} × {producto.nombre}
+                    </span>
+                    <span className="font-medium">{formatPrice(Number(producto.precio) * cantidad)}</span>
+                  </div>
+                ))}
+                <div className="flex justify-between border-t pt-3">
+                  <span className="font-medium">Total</span>
+                  <span className="text-lg font-bold text-primary">{formatPrice(total)}</span>
+                </div>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Tus datos</CardTitle>
+                <CardDescription>Te enviaremos la confirmación por correo</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <form onSubmit={handleSubmit} className="space-y-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="checkout-nombre">Nombre</Label>
+                    <Input
+                      id="checkout-nombre"
+                      value={nombre}
+                      onChange={(e) => setNombre(e.target.value)}
+                      required
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="checkout-email">Correo electrónico</Label>
+                    <Input
+                      id="checkout-email"
+                      type="email"
+                      value={email}
+                      onChange={(e) => setEmail(e.target.value)}
+                      required
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label>Método de pago</Label>
+                    <Select value={paymentToken} onValueChange={setPaymentToken}>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {TEST_PAYMENT_OPTIONS.map(option => (
+                          <SelectItem key={option.token} value={option.token}>
+                            {option.label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <p className="text-xs text-muted-foreground">Modo demo: no se realiza ningún cargo real.</p>
+                  </div>
+
+                  {error && (
+                    <Alert variant="destructive">
+                      <AlertCircle className="h-4 w-4" />
+                      <AlertDescription>{error}</AlertDescription>
+                    </Alert>
+                  )}
+
+                  <Button type="submit" className="w-full" disabled={checkout.isPending}>
+                    {checkout.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                    Pagar {formatPrice(total)}
+                  </Button>
+                </form>
+              </CardContent>
+            </Card>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default Checkout;
@@ -1,14 +1,105 @@
 
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
 import { ProductGrid } from '@/components/ProductGrid';
 import { ChatInterface } from '@/components/ChatInterface';
 import { MobileChatButton } from '@/components/MobileChatButton';
-import { ProductFilters } from '@/types/database';
+import { CartDrawer } from '@/components/CartDrawer';
+import { ComparisonDialog } from '@/components/ComparisonDialog';
+import { FilterBreadcrumbs } from '@/components/FilterBreadcrumbs';
+import { ProductQuickView } from '@/components/ProductQuickView';
 import { Separator } from '@/components/ui/separator';
+import { useShopperSession } from '@/hooks/useShopperSession';
+import { usePageContext } from '@/hooks/usePageContext';
+import { useFilterHistory } from '@/hooks/useFilterHistory';
+import { useProductUrlSync } from '@/hooks/useProductUrlSync';
+import { useProductsByIds } from '@/hooks/useProducts';
+import { useCart } from '@/hooks/useCart';
+import { Producto } from '@/types/database';
+import { ProductComparison } from '@/utils/productComparison';
 
 const Index = () => {
-  const [filters, setFilters] = useState<ProductFilters>({});
+  const {
+    filters,
+    entries: filterHistory,
+    index: filterHistoryIndex,
+    canUndo,
+    canRedo,
+    applyFilters,
+    applySuggestedFilters,
+    goTo,
+    undo,
+    redo,
+    assistantMode,
+    setAssistantMode,
+  } = useFilterHistory();
   const [isMobileChatOpen, setIsMobileChatOpen] = useState(false);
+  const [compareIds, setCompareIds] = useState<string[]>([]);
+  const [isComparisonOpen, setIsComparisonOpen] = useState(false);
+  const { restoredFilters, saveFilters, isRestoring } = useShopperSession();
+  const { setPageFilters, setOpenProductId } = usePageContext();
+  const { addItem } = useCart();
+  const { openProductId, openProduct, closeProduct, openedWithFilters } = useProductUrlSync({
+    filters,
+    entries: filterHistory,
+    index: filterHistoryIndex,
+    applyFilters,
+    goTo,
+  });
+
+  // The product in ?producto=; the clicked card is used right away while a shared link loads it
+  const [clickedProduct, setClickedProduct] = useState<Producto | null>(null);
+  const { data: linkedProducts } = useProductsByIds(
+    openProductId && clickedProduct?.id !== openProductId ? [openProductId] : []
+  );
+  const quickViewProduct = clickedProduct?.id === openProductId ? clickedProduct : linkedProducts?.[0] ?? null;
+
+  // Re-apply the filters from the restored session, unless the page was opened from a link with filters
+  useEffect(() => {
+    if (restoredFilters && !openedWithFilters) {
+      applyFilters(restoredFilters, 'session');
+    }
+  }, [restoredFilters, openedWithFilters, applyFilters]);
+
+  // Remember the grid filters so a reload or a resume link brings them back
+  useEffect(() => {
+    if (!isRestoring) {
+      saveFilters(filters);
+    }
+  }, [filters, isRestoring, saveFilters]);
+
+  // Let the assistant know which products the grid is showing and which one is open
+  useEffect(() => {
+    setPageFilters(filters);
+  }, [filters, setPageFilters]);
+
+  useEffect(() => {
+    setOpenProductId(openProductId);
+  }, [openProductId, setOpenProductId]);
+
+  const handleOpenProduct = (product: Producto) => {
+    setClickedProduct(product);
+    openProduct(product.id);
+  };
+
+  // The assistant compared products - show them side by side
+  const handleComparison = (comparison: ProductComparison) => {
+    setCompareIds(comparison.productIds);
+    setIsComparisonOpen(true);
+  };
+
+  const filterBreadcrumbs = (
+    <FilterBreadcrumbs
+      entries={filterHistory}
+      index={filterHistoryIndex}
+      canUndo={canUndo}
+      canRedo={canRedo}
+      onUndo={undo}
+      onRedo={redo}
+      onSelect={goTo}
+      assistantMode={assistantMode}
+      onAssistantModeChange={setAssistantMode}
+    />
+  );
 
   return (
     <div className="h-screen flex flex-col bg-background">
@@ -21,8 +112,11 @@ const Index = () => {
               Conversational eCommerce Experience
             </p>
           </div>
-          <div className="text-xs text-muted-foreground">
-            Demo Mode • No Authentication Required
+          <div className="flex items-center gap-4">
+            <div className="hidden sm:block text-xs text-muted-foreground">
+              Demo Mode • No Authentication Required
+            </div>
+            <CartDrawer />
           </div>
         </div>
       </header>
@@ -31,35 +125,64 @@ const Index = () => {
       <div className="hidden lg:flex flex-1 overflow-hidden">
         {/* Products Section */}
         <div className="flex-1 lg:w-1/2 flex flex-col border-r">
-          <ProductGrid 
-            filters={filters} 
-            onFiltersChange={setFilters}
-          />
+          {filterBreadcrumbs}
+          <div className="flex-1 min-h-0">
+            <ProductGrid 
+              filters={filters} 
+              onFiltersChange={applyFilters}
+              compareIds={compareIds}
+              onCompareIdsChange={setCompareIds}
+              onOpenComparison={() => setIsComparisonOpen(true)}
+              onOpenProduct={handleOpenProduct}
+            />
+          </div>
         </div>
 
         {/* Chat Section */}
         <div className="flex-1 lg:w-1/2 flex flex-col min-h-0">
-          <ChatInterface onFiltersChange={setFilters} />
+          <ChatInterface onFiltersChange={applySuggestedFilters} onComparison={handleComparison} />
         </div>
       </div>
 
       {/* Mobile Layout - Stacked with Floating Chat */}
       <div className="lg:hidden flex-1 flex flex-col overflow-hidden">
         {/* Products Section - Full Height on Mobile */}
-        <div className="flex-1 overflow-hidden">
-          <ProductGrid 
-            filters={filters} 
-            onFiltersChange={setFilters}
-          />
+        <div className="flex-1 flex flex-col overflow-hidden">
+          {filterBreadcrumbs}
+          <div className="flex-1 min-h-0">
+            <ProductGrid 
+              filters={filters} 
+              onFiltersChange={applyFilters}
+              compareIds={compareIds}
+              onCompareIdsChange={setCompareIds}
+              onOpenComparison={() => setIsComparisonOpen(true)}
+              onOpenProduct={handleOpenProduct}
+            />
+          </div>
         </div>
 
         {/* Mobile Chat Button */}
         <MobileChatButton 
-          onFiltersChange={setFilters}
+          onFiltersChange={applySuggestedFilters}
+          onComparison={handleComparison}
           isOpen={isMobileChatOpen}
           onOpenChange={setIsMobileChatOpen}
         />
       </div>
+
+      <ProductQuickView
+        product={quickViewProduct}
+        isOpen={!!openProductId && !!quickViewProduct}
+        onClose={closeProduct}
+        onAddToCart={(product) => addItem(product)}
+      />
+
+      <ComparisonDialog
+        productIds={compareIds}
+        isOpen={isComparisonOpen}
+        onClose={() => setIsComparisonOpen(false)}
+        onRemove={(id) => setCompareIds(ids => ids.filter(compareId => compareId !== id))}
+      />
     </div>
   );
 };
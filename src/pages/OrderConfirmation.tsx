@@ -0,0 +1,97 @@
+import { Link, useParams } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { CheckCircle2, Loader2, Package } from 'lucide-react';
+import { useOrder } from '@/hooks/useOrders';
+
+const ORDER_STATUS_LABELS: Record<string, string> = {
+  pendiente_pago: 'Pendiente de pago',
+  pagado: 'Pagado',
+  cancelado: 'Cancelado',
+};
+
+const formatPrice = (price: number) => {
+  return new Intl.NumberFormat('es-US', {
+    style: 'currency',
+    currency: 'USD',
+  }).format(price);
+};
+
+const OrderConfirmation = () => {
+  const { id } = useParams<{ id: string }>();
+  const { data: order, isLoading, error } = useOrder(id);
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <Loader2 className="h-8 w-8 animate-spin" />
+      </div>
+    );
+  }
+
+  if (error || !order) {
+    return (
+      <div className="min-h-screen flex flex-col items-center justify-center text-center p-8">
+        <Package className="h-16 w-16 text-muted-foreground mb-4" />
+        <h1 className="text-2xl font-bold mb-2">Pedido no encontrado</h1>
+        <p className="text-muted-foreground mb-4">
+          Solo puedes ver los pedidos realizados desde este navegador.
+        </p>
+        <Button variant="outline" asChild>
+          <Link to="/">Volver a la tienda</Link>
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="container max-w-2xl mx-auto px-4 py-12 space-y-6">
+        <div className="text-center space-y-2">
+          {order.estado === 'pagado' && <CheckCircle2 className="h-14 w-14 text-primary mx-auto" />}
+          <h1 className="text-3xl font-bold">
+            {order.estado === 'pagado' ? '¡Gracias por tu compra!' : `Pedido #${order.numero}`}
+          </h1>
+          <p className="text-muted-foreground">
+            Enviaremos la confirmación a {order.cliente_email}
+          </p>
+        </div>
+
+        <Card>
+          <CardHeader className="flex flex-row items-start justify-between space-y-0">
+            <div>
+              <CardTitle>Pedido #{order.numero}</CardTitle>
+              <CardDescription>{new Date(order.created_at).toLocaleString('es-US')}</CardDescription>
+            </div>
+            <Badge variant={order.estado === 'cancelado' ? 'destructive' : order.estado === 'pagado' ? 'default' : 'secondary'}>
+              {ORDER_STATUS_LABELS[order.estado] ?? order.estado}
+            </Badge>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {order.items.map(item => (
+              <div key={item.id} className="flex justify-between gap-4 text-sm">
+                <span>
+                  {item.cantidad} × {item.nombre}
+                </span>
+                <span className="font-medium">{formatPrice(Number(item.subtotal))}</span>
+              </div>
+            ))}
+            <div className="flex justify-between border-t pt-3">
+              <span className="font-medium">Total</span>
+              <span className="text-lg font-bold text-primary">{formatPrice(Number(order.total))}</span>
+            </div>
+          </CardContent>
+        </Card>
+
+        <div className="text-center">
+          <Button asChild>
+            <Link to="/">Seguir comprando</Link>
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default OrderConfirmation;
@@ -0,0 +1,158 @@
+import { useEffect } from 'react';
+import { Link, useNavigate, useParams } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Skeleton } from '@/components/ui/skeleton';
+import { ArrowLeft, Loader2, Package, ShoppingCart } from 'lucide-react';
+import { CartDrawer } from '@/components/CartDrawer';
+import { ProductCard } from '@/components/ProductCard';
+import { ProductMedia } from '@/components/ProductMedia';
+import { useProduct, useRelatedProducts } from '@/hooks/useProducts';
+import { useCart } from '@/hooks/useCart';
+import { useDocumentMeta } from '@/hooks/useDocumentMeta';
+import { usePageContext } from '@/hooks/usePageContext';
+import { buildProductJsonLd, productMetaDescription, productPageTitle } from '@/utils/productSeo';
+import { toSearchParams } from '@/utils/productUrl';
+
+const formatPrice = (price: number) => {
+  return new Intl.NumberFormat('es-US', {
+    style: 'currency',
+    currency: 'USD',
+  }).format(price);
+};
+
+// Shareable, crawlable page for one product (/producto/:id) with its gallery, video, stock and
+// related products; title, meta tags and schema.org JSON-LD come from the productos row
+const ProductDetail = () => {
+  const { id } = useParams<{ id: string }>();
+  const navigate = useNavigate();
+  const { data: product, isLoading, error } = useProduct(id);
+  const { data: related = [], isLoading: isLoadingRelated } = useRelatedProducts(product);
+  const { addItem, isUpdating } = useCart();
+  const { setOpenProductId } = usePageContext();
+
+  const url = `${window.location.origin}/producto/${id}`;
+  useDocumentMeta(product ? {
+    title: productPageTitle(product),
+    description: productMetaDescription(product),
+    url,
+    image: product.imagen_url,
+    type: 'product',
+    jsonLd: buildProductJsonLd(product, url),
+  } : null);
+
+  // Opening a related product reuses this page; start it from the top
+  useEffect(() => {
+    window.scrollTo(0, 0);
+  }, [id]);
+
+  // Counts as viewing the product, so the assistant can refer to it afterwards
+  useEffect(() => {
+    if (!product) return;
+    setOpenProductId(product.id);
+    return () => setOpenProductId(null);
+  }, [product, setOpenProductId]);
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <Loader2 className="h-8 w-8 animate-spin" />
+      </div>
+    );
+  }
+
+  if (error || !product) {
+    return (
+      <div className="min-h-screen flex flex-col items-center justify-center text-center p-8">
+        <Package className="h-16 w-16 text-muted-foreground mb-4" />
+        <h1 className="text-2xl font-bold mb-2">Producto no encontrado</h1>
+        <p className="text-muted-foreground mb-4">
+          Puede que ya no forme parte del catálogo.
+        </p>
+        <Button variant="outline" asChild>
+          <Link to="/">Volver a la tienda</Link>
+        </Button>
+      </div>
+    );
+  }
+
+  const isAvailable = product.cantidad_disponible > 0;
+
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="container max-w-6xl mx-auto px-4 py-8 space-y-10">
+        <div className="flex items-center justify-between">
+          <Button variant="ghost" size="sm" asChild>
+            <Link to={`/?${toSearchParams(new URLSearchParams(), { categoria: product.categoria }, null)}`}>
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              Ver más {product.categoria.toLowerCase()}
+            </Link>
+          </Button>
+          <CartDrawer />
+        </div>
+
+        <article className="grid gap-8 lg:grid-cols-2">
+          {/* Gallery and video */}
+          <div className="rounded-lg overflow-hidden border bg-muted/20">
+            <ProductMedia product={product} imageClassName="aspect-square" showThumbnails />
+          </div>
+
+          <div className="space-y-6">
+            <div className="space-y-3">
+              <Badge variant="secondary">{product.categoria}</Badge>
+              <h1 className="text-3xl lg:text-4xl font-bold leading-tight">{product.nombre}</h1>
+              <div className="text-3xl lg:text-4xl font-bold text-primary">
+                {formatPrice(Number(product.precio))}
+              </div>
+              <Badge
+                variant={product.cantidad_disponible > 10 ? 'default' : isAvailable ? 'secondary' : 'destructive'}
+                className="text-sm"
+              >
+                {isAvailable ? `${product.cantidad_disponible} disponibles` : 'Agotado'}
+              </Badge>
+            </div>
+
+            <Button
+              size="lg"
+              className="w-full sm:w-auto"
+              disabled={!isAvailable || isUpdating}
+              onClick={() => addItem(product)}
+            >
+              <ShoppingCart className="h-4 w-4 mr-2" />
+              Agregar al carrito
+            </Button>
+
+            <section>
+              <h2 className="text-lg font-semibold mb-3">Descripción</h2>
+              <p className="text-muted-foreground leading-relaxed whitespace-pre-line">
+                {product.descripcion}
+              </p>
+            </section>
+          </div>
+        </article>
+
+        {(isLoadingRelated || related.length > 0) && (
+          <section className="space-y-4">
+            <h2 className="text-2xl font-semibold">Productos relacionados</h2>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              {isLoadingRelated
+                ? Array.from({ length: 4 }).map((_, i) => (
+                    <Skeleton key={i} className="aspect-[3/4] w-full" />
+                  ))
+                : related.map(relatedProduct => (
+                    <ProductCard
+                      key={relatedProduct.id}
+                      product={relatedProduct}
+                      onClick={() => navigate(`/producto/${relatedProduct.id}`)}
+                      onAddToCart={() => addItem(relatedProduct)}
+                    />
+                  ))}
+            </div>
+          </section>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ProductDetail;
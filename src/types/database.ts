@@ -1,5 +1,11 @@
 
 import { Tables } from '@/integrations/supabase/types';
+import { ChatLanguage } from '@/utils/chatLanguage';
+import { ProductComparison } from '@/utils/productComparison';
+import { MessagePayload } from '@/utils/messagePayload';
+import { ProductFilters, ProductSort } from '@/utils/productSort';
+
+export type { ProductFilters, ProductSort };
 
 export type Producto = Tables<'productos'> & {
   video_url?: string | null;
@@ -9,16 +15,103 @@ export type Producto = Tables<'productos'> & {
 export type Conversacion = Tables<'conversaciones'>;
 export type Mensaje = Tables<'mensajes'>;
 
+export interface CartItem {
+  id: string;
+  cantidad: number;
+  producto: Producto;
+}
+
+// Result of the update_cart_item RPC
+export interface CartUpdateResult {
+  success: boolean;
+  error?: 'product_not_found' | 'insufficient_stock';
+  cantidad?: number;
+  cantidad_disponible?: number;
+  cantidad_en_carrito?: number;
+}
+
+export type Pedido = Tables<'pedidos'>;
+export type PedidoItem = Tables<'pedido_items'>;
+
+// Order as returned by the get_order RPC
+export type OrderWithItems = Pedido & { items: PedidoItem[] };
+
+// Payload returned by the checkout edge function
+export interface CheckoutResponse {
+  success: boolean;
+  orderId?: string;
+  numero?: number;
+  total?: number;
+  // With 'order_pending', orderId is the order an earlier submit placed and is still paying
+  error?: 'invalid_session' | 'invalid_customer' | 'empty_cart' | 'insufficient_stock' | 'order_pending' | 'payment_declined' | 'payment_error' | 'rate_limited' | string;
+  items?: Array<{ producto_id: string; nombre: string; cantidad_solicitada: number; cantidad_disponible: number }>;
+  // Seconds to wait before retrying, when error is 'rate_limited'
+  retryAfter?: number;
+}
+
 export interface ChatMessage {
   id: string;
   sender: 'user' | 'bot';
   content: string;
   timestamp: Date;
+  pending?: boolean; // Optimistic message not yet confirmed by the server
+  payload?: MessagePayload; // Product cards and quick replies attached to a bot reply
+}
+
+// Opaque keyset position returned by search_productos_page; sent back as-is to get the next page.
+// key holds the sort column values of the last product shown, ending with its id
+export interface ProductPageCursor {
+  sort: string;
+  key: Array<string | number>;
+}
+
+export interface ProductPage {
+  items: Producto[];
+  nextCursor: ProductPageCursor | null;
+}
+
+// Counts returned by get_product_facets for the current filters
+export interface ProductFacets {
+  total: number;
+  categories: { categoria: string; count: number }[];
+  // max is exclusive; null for the open-ended last bucket
+  priceBuckets: { min: number; max: number | null; count: number }[];
+  priceRange: { min: number; max: number } | null;
+  stock: { inStock: number; outOfStock: number };
+}
+
+export interface AssistantProduct {
+  id: string;
+  nombre: string;
+  categoria: string;
+  precio: number;
+  descripcion: string;
+  cantidad_disponible: number;
+}
+
+// A fix applied by the chat-assistant grounding validator before the answer was stored
+export interface GroundingCorrection {
+  type: 'name' | 'price' | 'quantity' | 'unknown_product' | 'availability';
+  productId?: string;
+  found: string;
+  expected: string | null;
 }
 
-export interface ProductFilters {
-  categoria?: string;
-  precioMin?: number;
-  precioMax?: number;
-  searchTerm?: string;
+// Payload returned by the chat-assistant edge function (JSON body or final SSE event)
+export interface ChatAssistantResponse {
+  response: string;
+  filters: ProductFilters;
+  products: AssistantProduct[];
+  cart?: { itemCount: number; total: number }; // Set when the assistant read or changed the cart
+  comparison?: ProductComparison; // Set when the assistant compared products side by side
+  payload?: MessagePayload; // Product cards and quick replies stored with the reply
+  guardrail?: 'prompt_injection' | 'system_prompt_request' | 'abuse' | 'off_topic'; // Set when the message was refused
+  language?: ChatLanguage; // Language the reply was written in
+  degraded?: boolean; // Rule-based answer given while the LLM provider was unavailable
+  validation?: {
+    corrections: GroundingCorrection[];
+    mentionedProductIds: string[];
+  };
+  success: boolean;
+  error?: string;
 }
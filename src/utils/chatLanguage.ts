@@ -0,0 +1,3 @@
+// Same detection chat-assistant uses, so the client picks the reply voice before the answer arrives
+export { DEFAULT_CHAT_LANGUAGE, LANGUAGE_PROFILES, detectChatLanguage, isChatLanguage } from '../../shared/chatLanguage.ts';
+export type { ChatLanguage, LanguageProfile } from '../../shared/chatLanguage.ts';
@@ -0,0 +1,65 @@
+import { ChatAssistantResponse } from '@/types/database';
+
+interface ChatStreamHandlers {
+  onToken: (delta: string) => void;
+}
+
+/**
+ * Reads the Server-Sent Events stream produced by chat-assistant in streaming mode.
+ * Forwards `token` events as they arrive and resolves with the final `done` (or `error`) payload.
+ */
+export const readChatStream = async (
+  response: Response,
+  { onToken }: ChatStreamHandlers
+): Promise<ChatAssistantResponse> => {
+  if (!response.body) {
+    throw new Error('Chat stream has no body');
+  }
+
+  const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = '';
+  let result: ChatAssistantResponse | null = null;
+
+  const handleEvent = (rawEvent: string) => {
+    let event = 'message';
+    const dataLines: string[] = [];
+
+    for (const line of rawEvent.split('\n')) {
+      if (line.startsWith('event:')) {
+        event = line.slice(6).trim();
+      } else if (line.startsWith('data:')) {
+        dataLines.push(line.slice(5).trim());
+      }
+    }
+
+    if (dataLines.length === 0) return;
+    const data = JSON.parse(dataLines.join('\n'));
+
+    if (event === 'token') {
+      onToken(data.delta);
+    } else if (event === 'done' || event === 'error') {
+      result = data as ChatAssistantResponse;
+    }
+  };
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += value;
+
+    // Events are separated by a blank line
+    const events = buffer.split('\n\n');
+    buffer = events.pop() || '';
+    events.forEach(handleEvent);
+  }
+
+  if (buffer.trim()) {
+    handleEvent(buffer);
+  }
+
+  if (!result) {
+    throw new Error('Chat stream ended without a final response');
+  }
+
+  return result;
+};
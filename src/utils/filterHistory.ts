@@ -0,0 +1,16 @@
+// Pure history steps live in shared/ so they can be tested without React
+export {
+  DEFAULT_ASSISTANT_FILTER_MODE,
+  FILTER_HISTORY_LIMITS,
+  INITIAL_FILTER_HISTORY,
+  applyAssistantFilters,
+  describeFilters,
+  describeHistoryEntry,
+  filtersEqual,
+  goToFilterHistory,
+  normalizeFilters,
+  pushFilterHistory,
+  redoFilterHistory,
+  undoFilterHistory,
+} from '../../shared/filterHistory.ts';
+export type { AssistantFilterMode, FilterHistoryEntry, FilterHistoryState, FilterSource } from '../../shared/filterHistory.ts';
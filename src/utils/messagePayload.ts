@@ -0,0 +1,3 @@
+// Same payload chat-assistant stores with its replies
+export { MESSAGE_PAYLOAD_LIMITS, parseMessagePayload } from '../../shared/messagePayload.ts';
+export type { MessagePayload } from '../../shared/messagePayload.ts';
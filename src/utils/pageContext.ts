@@ -0,0 +1,3 @@
+// Same page context chat-assistant reads from each message
+export { EMPTY_PAGE_CONTEXT, PAGE_CONTEXT_LIMITS, parsePageContext } from '../../shared/pageContext.ts';
+export type { PageContext, PageContextFilters } from '../../shared/pageContext.ts';
@@ -0,0 +1,3 @@
+// Same table chat-assistant builds for its compare_products tool
+export { COMPARISON_LIMITS, buildProductComparison } from '../../shared/productComparison.ts';
+export type { ComparableProduct, ComparisonAttribute, ComparisonAttributeKey, ProductComparison } from '../../shared/productComparison.ts';
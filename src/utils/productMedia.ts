@@ -0,0 +1,16 @@
+import { Producto } from '@/types/database';
+
+// Main image plus additional images, de-duplicated and without empty entries
+export const getProductImages = (product: Producto) =>
+  [...new Set([product.imagen_url, ...(product.imagenes_urls || [])].filter(Boolean))];
+
+export const isYouTubeUrl = (url: string) => {
+  return url.includes('youtube.com') || url.includes('youtu.be');
+};
+
+export const getYouTubeEmbedUrl = (url: string) => {
+  const videoId = url.includes('youtu.be')
+    ? url.split('youtu.be/')[1]?.split('?')[0]
+    : url.split('v=')[1]?.split('&')[0];
+  return videoId ? `https://www.youtube.com/embed/${videoId}?autoplay=0&mute=1` : null;
+};
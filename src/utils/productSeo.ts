@@ -0,0 +1,51 @@
+import { Producto } from '@/types/database';
+import { getProductImages, getYouTubeEmbedUrl, isYouTubeUrl } from '@/utils/productMedia';
+
+export const SITE_NAME = 'StrateAI Retail Demo';
+
+// Search engines cut descriptions at around this length
+const META_DESCRIPTION_MAX_CHARS = 160;
+
+export const productPageTitle = (product: Producto) => `${product.nombre} | ${SITE_NAME}`;
+
+export const productMetaDescription = (product: Producto) => {
+  const price = `$${Number(product.precio).toFixed(2)}`;
+  const text = `${product.nombre} por ${price}. ${product.descripcion}`.replace(/\s+/g, ' ').trim();
+  return text.length > META_DESCRIPTION_MAX_CHARS
+    ? `${text.substring(0, META_DESCRIPTION_MAX_CHARS - 1).trimEnd()}…`
+    : text;
+};
+
+/**
+ * schema.org Product structured data for a product page (https://schema.org/Product)
+ */
+export const buildProductJsonLd = (product: Producto, url: string) => {
+  const video = product.video_url;
+  return {
+    '@context': 'https://schema.org',
+    '@type': 'Product',
+    name: product.nombre,
+    description: product.descripcion,
+    image: getProductImages(product),
+    sku: product.id,
+    category: product.categoria,
+    url,
+    offers: {
+      '@type': 'Offer',
+      url,
+      price: Number(product.precio).toFixed(2),
+      priceCurrency: 'USD',
+      availability: product.cantidad_disponible > 0 ? 'https://schema.org/InStock' : 'https://schema.org/OutOfStock',
+    },
+    ...(video && {
+      subjectOf: {
+        '@type': 'VideoObject',
+        name: product.nombre,
+        description: product.descripcion,
+        thumbnailUrl: product.imagen_url,
+        uploadDate: product.created_at,
+        ...(isYouTubeUrl(video) ? { embedUrl: getYouTubeEmbedUrl(video) ?? video } : { contentUrl: video }),
+      },
+    }),
+  };
+};
@@ -0,0 +1,3 @@
+// Same filter shape and sort options the edge functions read
+export { DEFAULT_PRODUCT_SORT, PRODUCT_SORT_LABELS, isProductSort } from '../../shared/productFilters.ts';
+export type { ProductFilters, ProductSort } from '../../shared/productFilters.ts';
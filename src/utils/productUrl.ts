@@ -0,0 +1,7 @@
+// Next to the filter helpers it builds on
+export {
+  filtersFromSearchParams,
+  hasFilterParams,
+  productIdFromSearchParams,
+  toSearchParams,
+} from '../../shared/productUrl.ts';
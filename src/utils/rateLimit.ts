@@ -0,0 +1,23 @@
+import { FunctionsHttpError } from '@supabase/supabase-js';
+
+// Used when a 429 arrives without a readable Retry-After
+const DEFAULT_RETRY_AFTER_SECONDS = 60;
+
+export interface RateLimitInfo {
+  retryAfterSeconds: number;
+}
+
+/**
+ * Wait requested by a rate-limited edge function call (429 + Retry-After), or null for any other error
+ */
+export const getRateLimitInfo = async (error: unknown): Promise<RateLimitInfo | null> => {
+  if (!(error instanceof FunctionsHttpError) || error.context?.status !== 429) return null;
+
+  const response = error.context as Response;
+  const body = await response.clone().json().catch(() => null);
+  const fromHeader = Number(response.headers.get('Retry-After'));
+  const fromBody = Number(body?.retryAfter);
+  const retryAfterSeconds = fromHeader > 0 ? fromHeader : fromBody > 0 ? fromBody : DEFAULT_RETRY_AFTER_SECONDS;
+
+  return { retryAfterSeconds: Math.ceil(retryAfterSeconds) };
+};
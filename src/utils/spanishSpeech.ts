@@ -0,0 +1,9 @@
+// Same normalization the TTS edge functions apply, so browser fallback voices read prices and codes identically
+export {
+  TTS_TEXT_LIMITS,
+  capSpeechText,
+  numberToSpanishWords,
+  resolveSpanishVariant,
+  verbalizeSpanishForSpeech,
+} from '../../shared/spanishSpeech.ts';
+export type { SpanishVariant, SpeechTextLimit } from '../../shared/spanishSpeech.ts';
@@ -83,6 +83,26 @@ class UniversalVoiceSelector {
       };
     }
 
+    // Replies in another language need a voice for that language rather than the Spanish ranking
+    const languagePrefix = preferredLanguage.slice(0, 2).toLowerCase();
+    if (languagePrefix !== 'es') {
+      const languageVoices = audit.fallbackChain.filter(v => v.lang.toLowerCase().startsWith(languagePrefix));
+      const selected = languageVoices.find(v => v.lang.toLowerCase().replace('_', '-') === preferredLanguage.toLowerCase())
+        ?? languageVoices[0];
+      if (selected) {
+        console.log('🌐 VOICE SELECTED for', preferredLanguage, ':', selected.name);
+        return {
+          voice: selected.voice,
+          tier: selected.tier,
+          reasoning: `Language match (${preferredLanguage}): ${selected.reasoning}`,
+          fallbackUsed: false,
+          quality: selected.quality,
+          name: selected.name,
+          lang: selected.lang
+        };
+      }
+    }
+
     // Try to select voice based on requirements and fallback rules
     const selectionResult = this.selectFromFallbackChain(
       audit.fallbackChain,
@@ -0,0 +1,159 @@
+import type { ChatLanguage } from '../../../shared/chatLanguage.ts';
+import { formatPrice, type CatalogProduct } from './catalog.ts';
+
+// Fixed replies and stock wording used by validation, in every language the assistant answers in
+export interface AssistantCopy {
+  noMatches: string;
+  processingError: string;
+  soldOut: string;
+  backInStock: (stock: number) => string;
+  productSummary: (product: CatalogProduct) => string;
+  foundProducts: (count: number, examples: string) => string;
+  availabilityCorrection: (count: number, categories: string, examples: string, minPrice: string, maxPrice: string) => string;
+  // In-persona replies when a guardrail blocks the turn
+  refusal: string;
+  abuseRefusal: string;
+  // Reply when the shopper has sent too many messages in a short time
+  rateLimited: (seconds: number) => string;
+  // Rule-based replies while the LLM is unavailable
+  degraded: {
+    askForFilters: (categories: string, example: string) => string;
+    found: (count: number, description: string, examples: string) => string;
+    notFound: (description: string, categories: string) => string;
+    // Pieces of the description of the applied filters ("televisores por menos de 500 dólares")
+    filters: {
+      anyProduct: string;
+      keyword: (term: string) => string;
+      between: (min: string, max: string) => string;
+      below: (max: string) => string;
+      above: (min: string) => string;
+    };
+  };
+  // Follow-up suggestions shown as tappable chips under the reply
+  quickReplies: {
+    categories: string;
+    cheapest: string;
+    cheaper: string;
+    alternatives: string;
+    recommend: string;
+    viewCart: string;
+    keepShopping: string;
+    compare: (first: string, second: string) => string;
+    details: (name: string) => string;
+    addToCart: (name: string) => string;
+  };
+}
+
+export const ASSISTANT_COPY: Record<ChatLanguage, AssistantCopy> = {
+  es: {
+    noMatches: 'Lo siento, no encontré productos que coincidan exactamente con tu búsqueda. ¿Podrías ser más específico o te gustaría que te sugiera algunas alternativas de nuestro catálogo?',
+    processingError: 'Lo siento, hubo un problema al procesar tu consulta. Por favor, intenta de nuevo en unos momentos.',
+    soldOut: 'agotado',
+    backInStock: (stock) => `disponible con ${stock} unidades`,
+    productSummary: (p) => `${p.nombre} por ${formatPrice(p.precio)} dólares (${p.cantidad_disponible > 0 ? `${p.cantidad_disponible} disponibles` : 'agotado'})`,
+    foundProducts: (count, examples) => `Encontré ${count} producto${count > 1 ? 's' : ''} para ti. Por ejemplo: ${examples}. ¿Te gustaría que te dé más detalles sobre alguno?`,
+    availabilityCorrection: (count, categories, examples, minPrice, maxPrice) =>
+      `¡Perfecto! Sí tengo opciones que te pueden interesar. Encontré ${count} producto${count > 1 ? 's' : ''} disponible${count > 1 ? 's' : ''} en ${categories}. Por ejemplo: ${examples}. Los precios van desde ${minPrice} hasta ${maxPrice} dólares. ¿Te gustaría que te dé más detalles sobre alguno de estos productos?`,
+    refusal: 'Soy el asistente de compras de StrateAI y solo puedo ayudarte con los productos de nuestra tienda. ¿Qué te gustaría encontrar hoy?',
+    abuseRefusal: 'Prefiero que mantengamos una conversación respetuosa. Si quieres, te ayudo a encontrar el producto que buscas.',
+    rateLimited: (seconds) => `Has enviado muchos mensajes seguidos. Espera ${seconds} segundos y vuelve a intentarlo.`,
+    degraded: {
+      askForFilters: (categories, example) => `Ahora mismo estoy funcionando en modo básico, pero puedo ayudarte a buscar. Prueba con una categoría como ${categories} o con un precio, por ejemplo: ${example}.`,
+      found: (count, description, examples) => `Ahora mismo estoy funcionando en modo básico, pero encontré ${count} ${count > 1 ? 'opciones' : 'opción'} en ${description}. Por ejemplo: ${examples}. Ya las puedes ver en la lista de productos.`,
+      notFound: (description, categories) => `Ahora mismo estoy funcionando en modo básico y no encontré ${description}. Tenemos ${categories}. ¿Quieres que busque en alguna de esas categorías?`,
+      filters: {
+        anyProduct: 'productos',
+        keyword: (term) => ` de ${term}`,
+        between: (min, max) => ` entre ${min} y ${max} dólares`,
+        below: (max) => ` por menos de ${max} dólares`,
+        above: (min) => ` de más de ${min} dólares`,
+      },
+    },
+    quickReplies: {
+      categories: '¿Qué categorías tienen?',
+      cheapest: '¿Cuáles son los productos más baratos?',
+      cheaper: '¿Hay opciones más baratas?',
+      alternatives: 'Muéstrame alternativas',
+      recommend: '¿Cuál me recomiendas?',
+      viewCart: '¿Qué tengo en mi carrito?',
+      keepShopping: '¿Qué más me recomiendas?',
+      compare: (first, second) => `Compara ${first} y ${second}`,
+      details: (name) => `Cuéntame más de ${name}`,
+      addToCart: (name) => `Agrega ${name} al carrito`,
+    },
+  },
+  en: {
+    noMatches: "Sorry, I couldn't find products that exactly match your search. Could you be more specific, or would you like me to suggest some alternatives from our catalog?",
+    processingError: 'Sorry, there was a problem processing your request. Please try again in a few moments.',
+    soldOut: 'sold out',
+    backInStock: (stock) => `available with ${stock} units`,
+    productSummary: (p) => `${p.nombre} for ${formatPrice(p.precio)} dollars (${p.cantidad_disponible > 0 ? `${p.cantidad_disponible} available` : 'sold out'})`,
+    foundProducts: (count, examples) => `I found ${count} product${count > 1 ? 's' : ''} for you. For example: ${examples}. Would you like more details about any of them?`,
+    availabilityCorrection: (count, categories, examples, minPrice, maxPrice) =>
+      `Good news! I do have options you might like. I found ${count} available product${count > 1 ? 's' : ''} in ${categories}. For example: ${examples}. Prices range from ${minPrice} to ${maxPrice} dollars. Would you like more details about any of these products?`,
+    refusal: "I'm StrateAI's shopping assistant, so I can only help you with products from our store. What would you like to find today?",
+    abuseRefusal: "I'd like to keep our conversation respectful. If you want, I can help you find the product you're looking for.",
+    rateLimited: (seconds) => `You've sent a lot of messages in a row. Please wait ${seconds} seconds and try again.`,
+    degraded: {
+      askForFilters: (categories, example) => `I'm running in basic mode right now, but I can still help you search. Try a category like ${categories} or a price, for example: ${example}.`,
+      found: (count, description, examples) => `I'm running in basic mode right now, but I found ${count} option${count > 1 ? 's' : ''} in ${description}. For example: ${examples}. You can already see them in the product list.`,
+      notFound: (description, categories) => `I'm running in basic mode right now and couldn't find ${description}. We have ${categories}. Would you like me to search one of those categories?`,
+      filters: {
+        anyProduct: 'products',
+        keyword: (term) => ` matching ${term}`,
+        between: (min, max) => ` between ${min} and ${max} dollars`,
+        below: (max) => ` under ${max} dollars`,
+        above: (min) => ` over ${min} dollars`,
+      },
+    },
+    quickReplies: {
+      categories: 'What categories do you have?',
+      cheapest: 'What are your cheapest products?',
+      cheaper: 'Are there cheaper options?',
+      alternatives: 'Show me alternatives',
+      recommend: 'Which one do you recommend?',
+      viewCart: "What's in my cart?",
+      keepShopping: 'What else do you recommend?',
+      compare: (first, second) => `Compare ${first} and ${second}`,
+      details: (name) => `Tell me more about ${name}`,
+      addToCart: (name) => `Add ${name} to my cart`,
+    },
+  },
+  pt: {
+    noMatches: 'Desculpe, não encontrei produtos que correspondam exatamente à sua busca. Você poderia ser mais específico ou gostaria que eu sugerisse algumas alternativas do nosso catálogo?',
+    processingError: 'Desculpe, houve um problema ao processar sua consulta. Por favor, tente novamente em alguns instantes.',
+    soldOut: 'esgotado',
+    backInStock: (stock) => `disponível com ${stock} unidades`,
+    productSummary: (p) => `${p.nombre} por ${formatPrice(p.precio)} dólares (${p.cantidad_disponible > 0 ? `${p.cantidad_disponible} disponíveis` : 'esgotado'})`,
+    foundProducts: (count, examples) => `Encontrei ${count} produto${count > 1 ? 's' : ''} para você. Por exemplo: ${examples}. Gostaria de mais detalhes sobre algum deles?`,
+    availabilityCorrection: (count, categories, examples, minPrice, maxPrice) =>
+      `Ótimo! Tenho opções que podem te interessar. Encontrei ${count} produto${count > 1 ? 's' : ''} disponíve${count > 1 ? 'is' : 'l'} em ${categories}. Por exemplo: ${examples}. Os preços vão de ${minPrice} até ${maxPrice} dólares. Gostaria de mais detalhes sobre algum desses produtos?`,
+    refusal: 'Sou o assistente de compras da StrateAI e só posso ajudar com os produtos da nossa loja. O que você gostaria de encontrar hoje?',
+    abuseRefusal: 'Prefiro manter uma conversa respeitosa. Se quiser, posso ajudar você a encontrar o produto que procura.',
+    rateLimited: (seconds) => `Você enviou muitas mensagens seguidas. Aguarde ${seconds} segundos e tente novamente.`,
+    degraded: {
+      askForFilters: (categories, example) => `No momento estou funcionando em modo básico, mas posso ajudar você a buscar. Tente uma categoria como ${categories} ou um preço, por exemplo: ${example}.`,
+      found: (count, description, examples) => `No momento estou funcionando em modo básico, mas encontrei ${count} ${count > 1 ? 'opções' : 'opção'} em ${description}. Por exemplo: ${examples}. Você já pode vê-las na lista de produtos.`,
+      notFound: (description, categories) => `No momento estou funcionando em modo básico e não encontrei ${description}. Temos ${categories}. Quer que eu busque em alguma dessas categorias?`,
+      filters: {
+        anyProduct: 'produtos',
+        keyword: (term) => ` de ${term}`,
+        between: (min, max) => ` entre ${min} e ${max} dólares`,
+        below: (max) => ` por menos de ${max} dólares`,
+        above: (min) => ` acima de ${min} dólares`,
+      },
+    },
+    quickReplies: {
+      categories: 'Quais categorias vocês têm?',
+      cheapest: 'Quais são os produtos mais baratos?',
+      cheaper: 'Tem opções mais baratas?',
+      alternatives: 'Mostre alternativas',
+      recommend: 'Qual você recomenda?',
+      viewCart: 'O que tem no meu carrinho?',
+      keepShopping: 'O que mais você recomenda?',
+      compare: (first, second) => `Compare ${first} e ${second}`,
+      details: (name) => `Conte mais sobre ${name}`,
+      addToCart: (name) => `Adicione ${name} ao carrinho`,
+    },
+  },
+};
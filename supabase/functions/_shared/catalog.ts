@@ -0,0 +1,74 @@
+// Catalog rows as chat-assistant reads them, and the text and amount helpers its matching is built on
+
+export const SPANISH_STOPWORDS = new Set([
+  'a', 'al', 'algo', 'algun', 'alguno', 'alguna', 'busco', 'buscando', 'como', 'con', 'cual', 'cuales', 'cuanto',
+  'de', 'del', 'dame', 'el', 'ella', 'en', 'es', 'esa', 'ese', 'eso', 'esos', 'esas', 'esta', 'este', 'estos',
+  'hay', 'la', 'las', 'le', 'lo', 'los', 'mas', 'me', 'mi', 'muestrame', 'muy', 'necesito', 'o', 'para', 'por',
+  'que', 'quiero', 'se', 'si', 'sin', 'su', 'sus', 'tiene', 'tienes', 'tienen', 'tu', 'un', 'una', 'unas', 'unos',
+  'y', 'ya', 'yo', 'quisiera', 'puedes', 'ver', 'hola',
+]);
+
+export interface CatalogProduct {
+  id: string;
+  nombre: string;
+  descripcion: string;
+  categoria: string;
+  precio: number;
+  cantidad_disponible: number;
+}
+
+export interface CategorySummary {
+  categoria: string;
+  productos: number;
+  en_stock: number;
+  precio_min: number;
+  precio_max: number;
+  precio_mediana: number;
+}
+
+// Mirrors the JSON returned by get_catalog_overview
+export interface CatalogOverview {
+  total: number;
+  precio_mediana: number | null; // null when the catalog is empty
+  categorias: CategorySummary[];
+}
+
+export const EMPTY_CATALOG_OVERVIEW: CatalogOverview = { total: 0, precio_mediana: null, categorias: [] };
+
+// Lowercase and strip accents so "cámara" and "camara" match
+export function normalizeText(text: string): string {
+  return (text || '')
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9ñ\s]/g, ' ');
+}
+
+// Light Spanish stemming: fold plurals onto the singular form
+export function stemToken(token: string): string {
+  if (token.length > 5 && token.endsWith('es')) return token.slice(0, -2);
+  if (token.length > 3 && token.endsWith('s')) return token.slice(0, -1);
+  return token;
+}
+
+// The words of a message worth searching for: accents folded, stopwords and single letters dropped
+export function contentWords(text: string): string[] {
+  return normalizeText(text)
+    .split(/\s+/)
+    .filter(token => token.length > 1 && !SPANISH_STOPWORDS.has(token));
+}
+
+export const roundMoney = (value: number) => Math.round(value * 100) / 100;
+
+export function parseAmount(raw: string): number {
+  const lastSeparator = Math.max(raw.lastIndexOf('.'), raw.lastIndexOf(','));
+  const decimals = lastSeparator >= 0 ? raw.length - lastSeparator - 1 : 0;
+  if (lastSeparator >= 0 && decimals <= 2) {
+    return Number(raw.slice(0, lastSeparator).replace(/[.,]/g, '') + '.' + raw.slice(lastSeparator + 1));
+  }
+  return Number(raw.replace(/[.,]/g, ''));
+}
+
+export function formatPrice(value: number): string {
+  return Number.isInteger(value) ? String(value) : value.toFixed(2);
+}
@@ -0,0 +1,104 @@
+import { assertEquals } from 'https://deno.land/std@0.168.0/testing/asserts.ts';
+import type { CatalogProduct } from './catalog.ts';
+import { validateProductGrounding, validateResponseConsistency, type CartSnapshot } from './chatGrounding.ts';
+
+const product = (id: string, nombre: string, categoria: string, precio: number, cantidad_disponible: number): CatalogProduct =>
+  ({ id, nombre, descripcion: '', categoria, precio, cantidad_disponible });
+
+const SAMSUNG_TV = product('tv-samsung', 'Samsung 55" QLED 4K TV', 'Televisores', 799.99, 25);
+const SONY_TV = product('tv-sony', 'Sony 43" LED Full HD', 'Televisores', 449.99, 30);
+const HEADPHONES = product('audio-sony', 'Sony WH-1000XM5', 'Audio', 399.99, 0);
+const IPHONE_15 = product('iphone-15', 'iPhone 15', 'Smartphones', 799, 12);
+const IPHONE_15_PRO = product('iphone-15-pro', 'iPhone 15 Pro', 'Smartphones', 999.99, 50);
+const GALAXY_S23 = product('galaxy-s23', 'Samsung Galaxy S23', 'Smartphones', 699.99, 8);
+const GALAXY_S24 = product('galaxy-s24', 'Samsung Galaxy S24', 'Smartphones', 849.99, 15);
+const CATALOG = [SAMSUNG_TV, SONY_TV, HEADPHONES, IPHONE_15, IPHONE_15_PRO, GALAXY_S23, GALAXY_S24];
+const TVS = { products: [SAMSUNG_TV, SONY_TV], total: 2 };
+
+const ground = (answer: string, language: 'es' | 'en' | 'pt' = 'es') => validateProductGrounding(answer, CATALOG, TVS, language);
+
+Deno.test('a wrong price is replaced by the catalog price, keeping the currency marker', () => {
+  const result = ground('El iPhone 15 Pro cuesta $899.');
+  assertEquals(result.text, 'El iPhone 15 Pro cuesta $999.99.');
+  assertEquals(result.corrections, [{ type: 'price', productId: IPHONE_15_PRO.id, found: '899', expected: '999.99' }]);
+  assertEquals(ground('The iPhone 15 Pro is 1,099.99 USD.', 'en').text, 'The iPhone 15 Pro is 999.99 USD.');
+});
+
+Deno.test('the longest name wins, so "iPhone 15 Pro" is not read as the iPhone 15', () => {
+  const result = ground('El iPhone 15 Pro cuesta 999.99 dólares y el iPhone 15 cuesta 799 dólares.');
+  assertEquals(result.corrections, []);
+  assertEquals(result.mentionedProductIds, [IPHONE_15_PRO.id, IPHONE_15.id]);
+});
+
+Deno.test('a claim belongs to the product mentioned right before it', () => {
+  const result = ground('El Samsung 55" QLED 4K TV cuesta 799.99 dólares y el Sony 43" LED Full HD cuesta 500 dólares.');
+  assertEquals(result.text, 'El Samsung 55" QLED 4K TV cuesta 799.99 dólares y el Sony 43" LED Full HD cuesta 449.99 dólares.');
+  assertEquals(result.corrections.map(c => c.productId), [SONY_TV.id]);
+});
+
+Deno.test('budgets and bare numbers are not price claims', () => {
+  assertEquals(ground('El Sony 43" LED Full HD entra en tu presupuesto de 500 dólares.').corrections, []);
+  assertEquals(ground('El Samsung 55" QLED 4K TV tiene 4 puertos HDMI.').corrections, []);
+  assertEquals(ground('Tenemos televisores por menos de 500 dólares.').corrections, []);
+});
+
+Deno.test('a wrong stock count is corrected in the wording of the claim', () => {
+  assertEquals(ground('El Sony 43" LED Full HD tiene 3 unidades disponibles.').text, 'El Sony 43" LED Full HD tiene 30 unidades disponibles.');
+  assertEquals(ground('El Sony 43" LED Full HD está agotado.').text, 'El Sony 43" LED Full HD está disponible con 30 unidades.');
+  assertEquals(ground('The Sony WH-1000XM5: 12 units.', 'en').text, 'The Sony WH-1000XM5: sold out.');
+  assertEquals(ground('Os Sony WH-1000XM5 estão esgotados.', 'pt').corrections, []);
+});
+
+Deno.test('a name close to one product is replaced; one equally close to two is left alone', () => {
+  const result = ground('Te recomiendo la Samsung QLED 4K de 55 por 799.99 dólares.');
+  assertEquals(result.text, 'Te recomiendo la Samsung 55" QLED 4K TV por 799.99 dólares.');
+  assertEquals(result.corrections.map(c => c.type), ['name']);
+  const ambiguous = ground('El Samsung Galaxy es muy bueno.');
+  assertEquals(ambiguous.text, 'El Samsung Galaxy es muy bueno.');
+  assertEquals(ambiguous.mentionedProductIds, []);
+});
+
+Deno.test('a sentence pricing a product we do not sell is dropped', () => {
+  const result = ground('Tengo el Samsung 55" QLED 4K TV por 799.99 dólares. El Philips Ambilight cuesta 350 dólares.');
+  assertEquals(result.text, 'Tengo el Samsung 55" QLED 4K TV por 799.99 dólares.');
+  assertEquals(result.corrections.map(c => c.type), ['unknown_product']);
+
+  // With nothing left, the products the search found are described instead
+  const invented = ground('El Philips Ambilight cuesta 350 dólares.');
+  assertEquals(invented.text.startsWith('Encontré 2 productos para ti. Por ejemplo: Samsung 55" QLED 4K TV por 799.99 dólares'), true);
+});
+
+Deno.test('cart totals, cart quantities and price gaps between compared products are real amounts', () => {
+  const cart: CartSnapshot = {
+    items: [{ producto_id: HEADPHONES.id, nombre: HEADPHONES.nombre, precio: 399.99, cantidad: 2, subtotal: 799.98 }],
+    itemCount: 2,
+    total: 799.98,
+    products: [HEADPHONES],
+  };
+  const inCart = validateProductGrounding('Tienes Sony WH-1000XM5 (2 unidades) por 799.98 dólares.', CATALOG, TVS, 'es', cart);
+  assertEquals(inCart.corrections, []);
+
+  const gap = 'El iPhone 15 Pro cuesta 600 dólares más que el Sony WH-1000XM5.';
+  assertEquals(validateProductGrounding(gap, CATALOG, TVS, 'es', null, [IPHONE_15_PRO, HEADPHONES]).corrections, []);
+  assertEquals(validateProductGrounding(gap, CATALOG, TVS, 'es').corrections.map(c => c.type), ['price']);
+});
+
+Deno.test('an answer denying products the search found is rewritten from the results', () => {
+  for (const [answer, language] of [
+    ['Lo siento, no tengo televisores en este momento.', 'es'],
+    ["Sorry, we don't have TVs right now.", 'en'],
+    ['Infelizmente não temos televisores.', 'pt'],
+  ] as const) {
+    const result = validateResponseConsistency(answer, TVS, 'televisores', language);
+    assertEquals(result.correction?.type, 'availability', answer);
+    assertEquals(result.text.includes('449.99'), true, answer);
+  }
+});
+
+Deno.test('an answer offering products when the search found none becomes the no-matches reply', () => {
+  const none = { products: [], total: 0 };
+  const result = validateResponseConsistency('Tengo dos televisores que te pueden gustar.', none, 'televisores', 'es');
+  assertEquals(result.text.startsWith('Lo siento, no encontré productos'), true);
+  assertEquals(validateResponseConsistency('No tenemos productos de esa marca.', none, 'philips', 'es').correction, null);
+  assertEquals(validateResponseConsistency('Tengo dos televisores que te pueden gustar.', TVS, 'televisores', 'es').correction, null);
+});
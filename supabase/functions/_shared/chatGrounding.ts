@@ -0,0 +1,366 @@
+// Checks chat-assistant answers against the catalog rows a turn has seen: availability claims,
+// product names, quoted prices and stock counts are corrected before the reply is sent.
+
+import type { ChatLanguage } from '../../../shared/chatLanguage.ts';
+import { ASSISTANT_COPY } from './assistantCopy.ts';
+import { formatPrice, normalizeText, parseAmount, roundMoney, type CatalogProduct } from './catalog.ts';
+
+export interface ProductSearchResult {
+  products: CatalogProduct[]; // The first rows, in result order
+  total: number; // Every product matching the filters
+}
+
+export interface CartLine {
+  producto_id: string;
+  nombre: string;
+  precio: number;
+  cantidad: number;
+  subtotal: number;
+}
+
+export interface CartSnapshot {
+  items: CartLine[];
+  itemCount: number;
+  total: number;
+  products: CatalogProduct[]; // The catalog rows of the items, for grounding
+}
+
+// Price gaps between compared products ("cuesta 350 dólares más") are amounts the answer may quote
+function priceDifferences(products: CatalogProduct[]): number[] {
+  const differences: number[] = [];
+  products.forEach((a, i) => products.slice(i + 1).forEach(b => {
+    differences.push(roundMoney(Math.abs(Number(a.precio) - Number(b.precio))));
+  }));
+  return differences;
+}
+
+// Phrases that indicate "no products available", per reply language
+const NO_PRODUCTS_PATTERNS: Record<ChatLanguage, RegExp[]> = {
+  es: [
+    /no tengo|no tenemos|no hay|no existe|no encontr|no disponib|no contamos|sin productos|agotado/,
+    /no puedo encontrar|no logro encontrar|no hay coincidencias|no hay resultados/,
+    /lo siento.*no.*dispon|desafortunadamente.*no/
+  ],
+  en: [
+    /(i|we) (don't|do not) have|there (are|is) no|no products|(couldn't|could not|can't|cannot) find|not available|unavailable|out of stock|sold out/,
+    /no (results|matches)|nothing (matches|found)/,
+    /sorry.*(not|no) .*available|unfortunately.*\b(no|not)\b/
+  ],
+  pt: [
+    /não tenho|não temos|não há|não existe|não encontr|não disponív|indisponív|sem produtos|esgotad/,
+    /não consigo encontrar|nenhum resultado|nenhum produto/,
+    /desculpe.*não.*dispon|infelizmente.*não/
+  ],
+};
+
+export function indicatesNoProducts(text: string, language: ChatLanguage): boolean {
+  const lowerText = text.toLowerCase();
+  return NO_PRODUCTS_PATTERNS[language].some(pattern => pattern.test(lowerText));
+}
+
+// CRITICAL: Database-driven response validation to prevent product availability inconsistencies
+export function validateResponseConsistency(aiResponse: string, filtered: ProductSearchResult, userQuery: string, language: ChatLanguage): { text: string; correction: GroundingCorrection | null } {
+  console.log(`🔍 VALIDATION: Checking response consistency with ${filtered.total} products found`);
+  const copy = ASSISTANT_COPY[language];
+  const filteredProducts = filtered.products;
+  
+  if (!aiResponse || !Array.isArray(filteredProducts)) {
+    console.log('⚠️ VALIDATION: Invalid input parameters');
+    return { text: aiResponse || copy.processingError, correction: null };
+  }
+
+  const hasProducts = filteredProducts.length > 0;
+  const claimsNoProducts = indicatesNoProducts(aiResponse, language);
+
+  if (hasProducts && claimsNoProducts) {
+    // CRITICAL FIX: AI claims no products but DB has results - Replace with accurate response
+    console.log('🔧 CRITICAL FIX: AI claimed no products but database returned results. Generating accurate response.');
+    
+    const productSummaries = filteredProducts.slice(0, 3).map(copy.productSummary).join(', ');
+    
+    const categoryList = [...new Set(filteredProducts.map(p => p.categoria))].join(', ');
+    const priceRange = {
+      min: Math.min(...filteredProducts.map(p => p.precio)),
+      max: Math.max(...filteredProducts.map(p => p.precio))
+    };
+
+    const correctedResponse = copy.availabilityCorrection(
+      filtered.total, categoryList, productSummaries, formatPrice(priceRange.min), formatPrice(priceRange.max)
+    );
+    
+    console.log('✅ FIXED: Generated accurate response based on actual product data');
+    return {
+      text: correctedResponse,
+      correction: { type: 'availability', found: aiResponse, expected: correctedResponse },
+    };
+  }
+
+  if (!hasProducts && !claimsNoProducts) {
+    // Edge case: AI mentions products but none exist in filtered results
+    console.log('🔧 EDGE CASE FIX: AI mentioned products but none found in filtered results');
+    const correctedResponse = copy.noMatches;
+    return {
+      text: correctedResponse,
+      correction: { type: 'availability', found: aiResponse, expected: correctedResponse },
+    };
+  }
+
+  // Response is consistent with database state
+  console.log('✅ VALIDATION PASSED: Response is consistent with database state');
+  return { text: aiResponse, correction: null };
+}
+
+// Product-level grounding - names, prices and stock quoted in the answer must match productos
+const GROUNDING_CONFIG = {
+  FUZZY_MIN_MATCHED_TOKENS: 2,
+  FUZZY_MIN_COVERAGE: 0.6,
+  PRICE_TOLERANCE: 0.01,
+};
+
+export interface GroundingCorrection {
+  type: 'name' | 'price' | 'quantity' | 'unknown_product' | 'availability';
+  productId?: string;
+  found: string;
+  expected: string | null;
+}
+
+export interface GroundingResult {
+  text: string;
+  corrections: GroundingCorrection[];
+  mentionedProductIds: string[];
+}
+
+interface TextEdit {
+  start: number;
+  end: number;
+  replacement: string;
+}
+
+interface ProductMention {
+  product: CatalogProduct;
+  start: number;
+  end: number;
+}
+
+const ACCENT_CLASSES: Record<string, string> = {
+  a: '[aáàâä]', e: '[eéèêë]', i: '[iíìîï]', o: '[oóòôö]', u: '[uúùûü]', n: '[nñ]', c: '[cç]',
+};
+
+// "$1,299.99", "1299.99 dólares", "799,99 USD" - a currency marker is required on either side
+const PRICE_CLAIM_PATTERN = /(\$\s?)?(\d+(?:[.,]\d{3})*(?:[.,]\d{1,2})?)(\s*(?:dólares|dolares|dollars|usd|us\$))?/gi;
+// Spanish, English and Portuguese stock wording ("25 disponibles", "3 units", "esgotado")
+const QUANTITY_CLAIM_PATTERN = /(\d+)(\s*(?:unidades|unidad|units|unit|disponibles|disponible|disponíveis|disponível|available|piezas|en stock|in stock|em estoque|en existencia))|(agotad[oa]s?|esgotad[oa]s?|sold out|out of stock)/i;
+// Budgets, ranges and approximations are not claims about a specific product
+const PRICE_QUALIFIER_PATTERN = /(menos de|mas de|hasta|desde|bajo|debajo de|encima de|entre|alrededor de|cerca de|aproximadamente|unos|maximo|minimo|presupuesto de|a partir de|entre \S+ y|under|less than|more than|up to|from|below|above|over|around|about|approximately|budget of|starting at|between \S+ and|ate|abaixo de|acima de|por volta de|orcamento de|entre \S+ e)\s*$/;
+
+// Accent- and punctuation-insensitive regex for a product name ("Cámara 4K" ~ "camara 4k")
+function buildNamePattern(nombre: string): RegExp | null {
+  const words = normalizeText(nombre).split(/\s+/).filter(Boolean);
+  if (words.length === 0) return null;
+  const body = words
+    .map(word => [...word].map(char => ACCENT_CLASSES[char] ?? char.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')).join(''))
+    .join('[^\\p{L}\\p{N}]+');
+  return new RegExp(`(?<![\\p{L}\\p{N}])${body}(?![\\p{L}\\p{N}])`, 'giu');
+}
+
+function findPriceClaims(text: string, offset: number): { value: number; raw: string; start: number; end: number }[] {
+  const claims = [];
+  for (const match of text.matchAll(PRICE_CLAIM_PATTERN)) {
+    const [, currencyPrefix, amount, currencySuffix] = match;
+    if (!currencyPrefix && !currencySuffix) continue;
+    if (PRICE_QUALIFIER_PATTERN.test(normalizeText(text.slice(0, match.index)).trimEnd())) continue;
+    const start = offset + match.index! + (currencyPrefix?.length || 0);
+    claims.push({ value: parseAmount(amount), raw: amount, start, end: start + amount.length });
+  }
+  return claims;
+}
+
+function splitSentences(text: string): { start: number; end: number }[] {
+  const spans = [];
+  const boundary = /[.!?]+(?=\s|$)/g;
+  let start = 0;
+  let match: RegExpExecArray | null;
+  while ((match = boundary.exec(text)) !== null) {
+    const end = match.index + match[0].length;
+    spans.push({ start, end });
+    start = end;
+  }
+  if (start < text.length) spans.push({ start, end: text.length });
+  return spans.filter(span => text.slice(span.start, span.end).trim());
+}
+
+// Exact name mentions; when names overlap ("iPhone 15" inside "iPhone 15 Pro") the longest wins
+function findExactMentions(sentence: string, offset: number, patterns: { product: CatalogProduct; pattern: RegExp }[]): ProductMention[] {
+  const mentions: ProductMention[] = [];
+  for (const { product, pattern } of patterns) {
+    for (const match of sentence.matchAll(pattern)) {
+      mentions.push({ product, start: offset + match.index!, end: offset + match.index! + match[0].length });
+    }
+  }
+  mentions.sort((a, b) => (b.end - b.start) - (a.end - a.start));
+  const kept: ProductMention[] = [];
+  for (const mention of mentions) {
+    if (!kept.some(k => mention.start < k.end && k.start < mention.end)) kept.push(mention);
+  }
+  return kept.sort((a, b) => a.start - b.start);
+}
+
+// Approximate mention ("el Samsung QLED de 55") - best product by share of its name tokens present
+function findFuzzyMention(sentence: string, offset: number, catalog: CatalogProduct[]): ProductMention | null {
+  const sentenceTokens = new Set(normalizeText(sentence).split(/\s+/).filter(Boolean));
+  let best: { product: CatalogProduct; matched: string[]; coverage: number } | null = null;
+  let tie = false;
+
+  for (const product of catalog) {
+    const nameTokens = [...new Set(normalizeText(product.nombre).split(/\s+/).filter(Boolean))];
+    const matched = nameTokens.filter(token => sentenceTokens.has(token));
+    const coverage = nameTokens.length > 0 ? matched.length / nameTokens.length : 0;
+    if (matched.length < GROUNDING_CONFIG.FUZZY_MIN_MATCHED_TOKENS || coverage < GROUNDING_CONFIG.FUZZY_MIN_COVERAGE) continue;
+    if (!best || coverage > best.coverage) {
+      best = { product, matched, coverage };
+      tie = false;
+    } else if (coverage === best.coverage) {
+      tie = true;
+    }
+  }
+  if (!best || tie) return null;
+
+  // Span from the first to the last matched token in the original text
+  let start = Infinity;
+  let end = -1;
+  for (const token of best.matched) {
+    const match = buildNamePattern(token)!.exec(sentence);
+    if (!match) continue;
+    start = Math.min(start, match.index);
+    end = Math.max(end, match.index + match[0].length);
+  }
+  if (end < 0) return null;
+  return { product: best.product, start: offset + start, end: offset + end };
+}
+
+function applyEdits(text: string, edits: TextEdit[]): string {
+  if (edits.length === 0) return text;
+  let result = text;
+  for (const edit of [...edits].sort((a, b) => b.start - a.start)) {
+    result = result.slice(0, edit.start) + edit.replacement + result.slice(edit.end);
+  }
+  return result.replace(/[ \t]{2,}/g, ' ').replace(/\s+([.,;:])/g, '$1').trim();
+}
+
+// Templated answer used when nothing in the model's answer survives grounding
+function describeProducts(filtered: ProductSearchResult, language: ChatLanguage): string {
+  const copy = ASSISTANT_COPY[language];
+  if (filtered.products.length === 0) {
+    return copy.noMatches;
+  }
+  const examples = filtered.products.slice(0, 3).map(copy.productSummary).join(', ');
+  return copy.foundProducts(filtered.total, examples);
+}
+
+/**
+ * Check every product the answer talks about against the catalog rows the turn has seen:
+ * - names that approximate a real product are replaced by the exact name
+ * - quoted prices and stock counts are replaced by the database values
+ * - sentences quoting a price for a product that does not exist are removed
+ */
+export function validateProductGrounding(
+  aiResponse: string,
+  catalog: CatalogProduct[],
+  filtered: ProductSearchResult,
+  language: ChatLanguage,
+  cart: CartSnapshot | null = null,
+  comparedProducts: CatalogProduct[] = []
+): GroundingResult {
+  const corrections: GroundingCorrection[] = [];
+  const mentioned = new Set<string>();
+  const edits: TextEdit[] = [];
+  // Cart totals, line subtotals and price gaps between compared products are real amounts too,
+  // as are cart quantities
+  const derivedAmounts = [
+    ...(cart ? [cart.total, ...cart.items.map(item => item.subtotal)] : []),
+    ...priceDifferences(comparedProducts),
+  ];
+  const cartQuantities = new Map((cart?.items || []).map(item => [item.producto_id, item.cantidad]));
+  const isDerivedAmount = (value: number) => derivedAmounts.some(amount => Math.abs(amount - value) < GROUNDING_CONFIG.PRICE_TOLERANCE);
+  const knownPrices = [...catalog.map(p => Number(p.precio)), ...derivedAmounts];
+  const patterns = catalog
+    .map(product => ({ product, pattern: buildNamePattern(product.nombre) }))
+    .filter((entry): entry is { product: CatalogProduct; pattern: RegExp } => entry.pattern !== null);
+
+  const sentences = splitSentences(aiResponse);
+  let removedSentences = 0;
+
+  for (const { start: sentenceStart, end: sentenceEnd } of sentences) {
+    const sentence = aiResponse.slice(sentenceStart, sentenceEnd);
+    let mentions = findExactMentions(sentence, sentenceStart, patterns);
+
+    if (mentions.length === 0) {
+      const fuzzy = findFuzzyMention(sentence, sentenceStart, catalog);
+      if (fuzzy) {
+        const found = aiResponse.slice(fuzzy.start, fuzzy.end);
+        if (normalizeText(found).trim() !== normalizeText(fuzzy.product.nombre).trim()) {
+          edits.push({ start: fuzzy.start, end: fuzzy.end, replacement: fuzzy.product.nombre });
+          corrections.push({ type: 'name', productId: fuzzy.product.id, found, expected: fuzzy.product.nombre });
+        }
+        mentions = [fuzzy];
+      }
+    }
+
+    if (mentions.length === 0) {
+      // A concrete price with no product we know of is most likely an invented product
+      const claims = findPriceClaims(sentence, sentenceStart);
+      const unknownPrice = claims.find(claim => !knownPrices.some(price => Math.abs(price - claim.value) < GROUNDING_CONFIG.PRICE_TOLERANCE));
+      if (unknownPrice) {
+        edits.push({ start: sentenceStart, end: sentenceEnd, replacement: '' });
+        corrections.push({ type: 'unknown_product', found: sentence.trim(), expected: null });
+        removedSentences++;
+      }
+      continue;
+    }
+
+    // Claims after a mention belong to that product, up to the next mention in the sentence
+    mentions.forEach((mention, index) => {
+      const { product } = mention;
+      mentioned.add(product.id);
+      const windowEnd = index + 1 < mentions.length ? mentions[index + 1].start : sentenceEnd;
+      const window = aiResponse.slice(mention.end, windowEnd);
+
+      const [priceClaim] = findPriceClaims(window, mention.end);
+      const actualPrice = Number(product.precio);
+      if (priceClaim && Math.abs(priceClaim.value - actualPrice) >= GROUNDING_CONFIG.PRICE_TOLERANCE && !isDerivedAmount(priceClaim.value)) {
+        edits.push({ start: priceClaim.start, end: priceClaim.end, replacement: formatPrice(actualPrice) });
+        corrections.push({ type: 'price', productId: product.id, found: priceClaim.raw, expected: formatPrice(actualPrice) });
+      }
+
+      const quantityMatch = QUANTITY_CLAIM_PATTERN.exec(window);
+      if (quantityMatch) {
+        const stock = product.cantidad_disponible;
+        const start = mention.end + quantityMatch.index;
+        const found = quantityMatch[0];
+        const claimsSoldOut = !!quantityMatch[3];
+        const claimedStock = claimsSoldOut ? 0 : Number(quantityMatch[1]);
+        const isCartQuantity = !claimsSoldOut && cartQuantities.get(product.id) === claimedStock;
+        if (claimedStock !== stock && !isCartQuantity) {
+          const expected = stock === 0
+            ? ASSISTANT_COPY[language].soldOut
+            : claimsSoldOut ? ASSISTANT_COPY[language].backInStock(stock) : `${stock}${quantityMatch[2]}`;
+          edits.push({ start, end: start + found.length, replacement: expected });
+          corrections.push({ type: 'quantity', productId: product.id, found, expected });
+        }
+      }
+    });
+  }
+
+  let text = applyEdits(aiResponse, edits);
+  if (sentences.length > 0 && removedSentences === sentences.length) {
+    text = describeProducts(filtered, language);
+  }
+
+  if (corrections.length > 0) {
+    console.log(`🔧 GROUNDING: ${corrections.length} correction(s)`, JSON.stringify(corrections));
+  } else {
+    console.log(`✅ GROUNDING PASSED: ${mentioned.size} product mention(s) match the catalog`);
+  }
+
+  return { text, corrections, mentionedProductIds: [...mentioned] };
+}
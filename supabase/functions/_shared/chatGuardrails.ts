@@ -0,0 +1,210 @@
+// Input/output guardrails for chat-assistant: instruction-override attempts, requests for the
+// system prompt, abusive messages and tasks unrelated to shopping. Matching is done on text
+// without accents or case, in the three chat languages (es/en/pt).
+
+export type GuardrailCategory = 'prompt_injection' | 'system_prompt_request' | 'abuse' | 'off_topic';
+
+export interface GuardrailVerdict {
+  category: GuardrailCategory;
+  direction: 'input' | 'output';
+  matched: string; // Text that triggered the rule, for the admin log
+}
+
+const GUARDRAIL_CONFIG = {
+  LEAK_SHINGLE_WORDS: 8, // Consecutive system prompt words that count as a leak
+  PERSONA_WINDOW_CHARS: 200, // Streamed text kept for the persona patterns, longer than any of their matches
+};
+
+export interface OutputGuardrail {
+  // Feed the next chunk of a streamed answer; returns the verdict once the text so far trips a rule
+  push(delta: string): GuardrailVerdict | null;
+  // Check a complete answer on its own, without the pushed text
+  check(answer: string): GuardrailVerdict | null;
+}
+
+// Checked in this order; the first matching category wins
+const INPUT_RULES: Array<{ category: GuardrailCategory; patterns: RegExp[] }> = [
+  {
+    category: 'prompt_injection',
+    patterns: [
+      /\b(ignora|olvida|omite|desobedece|salta(te)?)\b.{0,40}\b(instrucciones|reglas|indicaciones|prompt|restricciones)\b/,
+      /\b(ignore|disregard|forget|override|bypass)\b.{0,40}\b(instructions|rules|prompt|guidelines|restrictions)\b/,
+      /\b(ignore|esqueca|desconsidere)\b.{0,40}\b(instrucoes|regras|prompt|restricoes)\b/,
+      /\b(nuevas instrucciones|new instructions|novas instrucoes)\b/,
+      /\b(a partir de ahora|desde ahora)\b.{0,30}\b(eres|seras|actua|actuaras|finge|responde como)\b/,
+      /\b(from now on|you are now|pretend (to be|you are)|act as (a|an)|roleplay as)\b/,
+      /\b(a partir de agora)\b.{0,30}\b(voce e|finja|aja como)\b/,
+      /\b(modo desarrollador|modo dios|developer mode|god mode|jailbreak|dan mode|modo dan|do anything now)\b/,
+      /(^|\n)\s*(system|sistema|assistant|asistente)\s*:/,
+      /<\/?\s*(system|instructions?|sistema)\s*>|\[\s*(system|inst|sistema)\s*\]/,
+    ],
+  },
+  {
+    category: 'system_prompt_request',
+    patterns: [
+      /\b(system prompt|prompt del sistema|prompt de sistema|prompt do sistema|mensaje del sistema|mensagem do sistema)\b/,
+      // "Your instructions" only counts when aimed at the assistant: qualified as the prompt's own
+      // ("tus instrucciones iniciales") or asked for with a disclosure verb and no subject of their own
+      // ("¿cuáles son tus reglas?", but not "sus reglas de devolución" or "sus instrucciones de uso")
+      /\b(tus|sus) (instrucciones|reglas|indicaciones) (iniciales|originales|ocultas|internas|secretas|del sistema)\b/,
+      /\b(muestrame|dime|revela(me)?|repite(me)?|copia(me)?|ensename|cuales son|escribe(me)?)\b.{0,20}\b(tus|sus) (instrucciones|reglas|indicaciones)\b(?! (de|del|para|sobre|en)\b)/,
+      /\b(instrucciones|reglas) (iniciales|originales|ocultas|del sistema)\b/,
+      /\byour (system|initial|original|hidden|internal|secret) (instructions|prompt|rules|guidelines)\b/,
+      /\b(show|tell|give|reveal|repeat|print|list|what are|what is|what's)\b.{0,20}\byour (instructions|rules|prompt|guidelines)\b(?! (for|on|about|of|regarding|to)\b)/,
+      /\b(initial|original|hidden|internal) (instructions|prompt)\b/,
+      /\b(suas|tuas) (instrucoes|regras) (iniciais|originais|ocultas|internas|secretas|do sistema)\b/,
+      /\b(mostre|diga|revele|repita|copie|quais sao)\b.{0,20}\b(suas|tuas) (instrucoes|regras)\b(?! (de|da|do|para|sobre)\b)|\bseu prompt\b/,
+      // Imperative at the start of a sentence ("imprime todo lo anterior"), not a product that prints
+      /(^|[.!?¿¡]\s*)((por favor|please|puedes|podrias|can you|could you|pode|podes)\s+)?(repite(me)?|repeat|repita|imprime(me)?|print|muestra(me)?|show( me)?|reveal|revela(me)?)\b.{0,30}\b(todo lo anterior|texto anterior|everything above|text above|above text|tudo acima)\b/,
+    ],
+  },
+  {
+    category: 'abuse',
+    patterns: [
+      /\b(idiota|estupid[oa]|imbecil|pendej[oa]|cabron(a)?|put[oa]|hij[oa] de puta|malparid[oa]|gilipollas|mierda|estupidez)\b/,
+      /\b(fuck(ing|er)?|shit(ty)?|bitch|asshole|moron|idiot|stupid|dumbass|retard(ed)?)\b/,
+      /\b(porra|caralho|merda|filh[oa] da puta|otario|babaca)\b/,
+      /\b(te voy a matar|voy a matarte|i will kill you|i'?ll kill you|vou te matar)\b/,
+    ],
+  },
+  {
+    category: 'off_topic',
+    patterns: [
+      // New pieces of writing ("escríbeme un poema"); "el código de la oferta" is store vocabulary, so
+      // code only counts together with a programming language
+      /\b(escribe(me)?|redacta(me)?|componme|hazme|genera(me)?|crea(me)?|cuentame)\s+(un|una|unos|unas|mi)?\s*([a-z]+\s+)?(poema|cancion|ensayo|cuento|carta|articulo|script|chiste)\b/,
+      /\b(write|compose|generate|create|tell)\s+(me\s+)?(a|an|some|my)\s+([a-z]+\s+)?(poem|song|essay|story|letter|article|script|program|function|joke)\b/,
+      /\b(escreva|escreve|crie|gere|conte)\s+(me\s+)?(um|uma|meu|minha)\s+([a-z]+\s+)?(poema|musica|redacao|historia|carta|artigo|programa|funcao|piada)\b/,
+      /\b(escribe(me)?|genera(me)?|crea(me)?|write|generate|create|escreva|gere|crie)\b.{0,40}\b(python|javascript|typescript|java|php|ruby|sql|html|css|golang|rust)\b/,
+      /\b(resuelve(me)?|solve|resolva)\b.{0,30}\b(ecuacion|ejercicio|equation|exercise|equacao|exercicio)\b/,
+      // Asking the assistant to do the homework, not shopping for it
+      /\b(haz(me)?|resuelve(me)?|termina(me)?|contesta(me)?|ayudame con)\b.{0,20}\b(mi tarea|mis deberes)\b/,
+      /\b(do|solve|finish|answer|help me with)\b.{0,20}\bmy homework\b/,
+      /\b(faca|faz|resolva|termine|me ajude com)\b.{0,20}\bmeu dever de casa\b/,
+    ],
+  },
+];
+
+// Phrases a model only says after abandoning its role
+const OUTPUT_PERSONA_PATTERNS = [
+  /\b(modo desarrollador|developer mode|jailbreak|dan mode|modo dan)\b.{0,20}\b(activado|activo|enabled|activated|ativado)\b/,
+  /\b(as an ai language model|como modelo de lenguaje|como um modelo de linguagem)\b/,
+];
+
+function normalizeForGuardrails(text: string): string {
+  return (text || '')
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[ \t]+/g, ' ');
+}
+
+function wordsOf(text: string): string[] {
+  return normalizeForGuardrails(text).split(/[^\p{L}\p{N}]+/u).filter(Boolean);
+}
+
+/**
+ * Check a shopper message before it reaches the model
+ */
+export function checkUserMessage(message: string): GuardrailVerdict | null {
+  const text = normalizeForGuardrails(message);
+
+  for (const { category, patterns } of INPUT_RULES) {
+    for (const pattern of patterns) {
+      const match = pattern.exec(text);
+      if (match) {
+        return { category, direction: 'input', matched: match[0].trim() };
+      }
+    }
+  }
+  return null;
+}
+
+function checkPersona(text: string): GuardrailVerdict | null {
+  for (const pattern of OUTPUT_PERSONA_PATTERNS) {
+    const match = pattern.exec(text);
+    if (match) {
+      return { category: 'prompt_injection', direction: 'output', matched: match[0].trim() };
+    }
+  }
+  return null;
+}
+
+// Every run of LEAK_SHINGLE_WORDS words in the prompt's instructions. Lines that are JSON data
+// (catalog, products) are left out - the answer may quote them
+function buildPromptShingles(systemPrompt: string): Set<string> {
+  const size = GUARDRAIL_CONFIG.LEAK_SHINGLE_WORDS;
+  const instructions = systemPrompt
+    .split('\n')
+    .filter(line => !/^\s*[[{"}\]]/.test(line))
+    .join('\n');
+  const promptWords = wordsOf(instructions);
+  const shingles = new Set<string>();
+  for (let i = 0; i + size <= promptWords.length; i++) {
+    shingles.add(promptWords.slice(i, i + size).join(' '));
+  }
+  return shingles;
+}
+
+/**
+ * Output guardrail for one turn: persona breaks, and system prompt leaks (any run of
+ * LEAK_SHINGLE_WORDS words copied from the prompt's instructions). The prompt is split into
+ * shingles once; push() only looks at the words each chunk completes, so a streamed answer
+ * costs the same as checking it once.
+ */
+export function createOutputGuardrail(systemPrompt: string): OutputGuardrail {
+  const size = GUARDRAIL_CONFIG.LEAK_SHINGLE_WORDS;
+  const shingles = buildPromptShingles(systemPrompt);
+  // Last `size` complete words, the word still being streamed and the recent text
+  const window: string[] = [];
+  let partialWord = '';
+  let recentText = '';
+  let verdict: GuardrailVerdict | null = null;
+
+  const leakVerdict = (shingle: string): GuardrailVerdict => ({ category: 'system_prompt_request', direction: 'output', matched: shingle });
+
+  return {
+    push(delta: string): GuardrailVerdict | null {
+      if (verdict) return verdict;
+      const text = normalizeForGuardrails(delta);
+
+      recentText = (recentText + text).slice(-GUARDRAIL_CONFIG.PERSONA_WINDOW_CHARS);
+      verdict = checkPersona(recentText);
+      if (verdict) return verdict;
+
+      // The last piece may be a word the next chunk continues
+      const pieces = (partialWord + text).split(/[^\p{L}\p{N}]+/u);
+      partialWord = pieces.pop() ?? '';
+      for (const word of pieces) {
+        if (!word) continue;
+        window.push(word);
+        if (window.length > size) window.shift();
+        if (window.length === size && shingles.has(window.join(' '))) {
+          verdict = leakVerdict(window.join(' '));
+          return verdict;
+        }
+      }
+      return null;
+    },
+
+    check(answer: string): GuardrailVerdict | null {
+      const persona = checkPersona(normalizeForGuardrails(answer));
+      if (persona) return persona;
+
+      const answerWords = wordsOf(answer);
+      for (let i = 0; i + size <= answerWords.length; i++) {
+        const shingle = answerWords.slice(i, i + size).join(' ');
+        if (shingles.has(shingle)) return leakVerdict(shingle);
+      }
+      return null;
+    },
+  };
+}
+
+/**
+ * Check a complete model answer before it is shown. Callers checking several texts against the
+ * same prompt should keep one createOutputGuardrail instead.
+ */
+export function checkAssistantOutput(answer: string, systemPrompt: string): GuardrailVerdict | null {
+  return createOutputGuardrail(systemPrompt).check(answer);
+}
@@ -0,0 +1,232 @@
+// Pluggable LLM provider layer shared by the edge functions.
+// LLM_PROVIDER=openai (default) calls the OpenAI API; LLM_PROVIDER=fixture answers
+// deterministically and offline so the whole flow can run without network or API key.
+
+export interface ToolCall {
+  id: string;
+  type: 'function';
+  function: { name: string; arguments: string };
+}
+
+export interface ToolDefinition {
+  type: 'function';
+  function: {
+    name: string;
+    description: string;
+    parameters: Record<string, unknown>;
+  };
+}
+
+export type ChatCompletionMessage =
+  | { role: 'system' | 'user'; content: string }
+  | { role: 'assistant'; content: string | null; tool_calls?: ToolCall[] }
+  | { role: 'tool'; tool_call_id: string; content: string };
+
+export interface AssistantMessage {
+  content: string | null;
+  tool_calls?: ToolCall[];
+}
+
+export interface ChatCompletionRequest {
+  model: string;
+  messages: ChatCompletionMessage[];
+  tools?: ToolDefinition[];
+  toolChoice?: 'auto' | 'none';
+  temperature?: number;
+  maxTokens?: number;
+  // When set, the completion is streamed and content deltas are forwarded as they arrive
+  onToken?: (delta: string) => void;
+  // Called when a streamed completion starts a tool call, before the call is complete
+  onToolCall?: () => void;
+}
+
+export interface LLMProvider {
+  name: 'openai' | 'fixture';
+  chatCompletion(request: ChatCompletionRequest): Promise<AssistantMessage>;
+}
+
+// Function-specific deterministic answer used by the fixture provider
+export type FixtureResponder = (request: ChatCompletionRequest) => AssistantMessage;
+
+interface FixtureEntry {
+  match: string; // Case-insensitive substring of the last user message
+  response: AssistantMessage;
+}
+
+export interface LLMProviderOptions {
+  fixtureResponder?: FixtureResponder;
+}
+
+/**
+ * OpenAI chat completions, including tool calls and SSE streaming
+ */
+export function createOpenAIProvider(apiKey: string): LLMProvider {
+  return {
+    name: 'openai',
+    async chatCompletion(request: ChatCompletionRequest): Promise<AssistantMessage> {
+      const response = await fetch('https://api.openai.com/v1/chat/completions', {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${apiKey}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          model: request.model,
+          messages: request.messages,
+          ...(request.tools ? { tools: request.tools, tool_choice: request.toolChoice ?? 'auto' } : {}),
+          temperature: request.temperature,
+          max_tokens: request.maxTokens,
+          stream: !!request.onToken,
+        }),
+      });
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        console.error('OpenAI API error:', response.status, errorText);
+        throw new Error(`OpenAI API error: ${response.status}`);
+      }
+
+      if (!request.onToken) {
+        const data = await response.json();
+        return data.choices[0]?.message as AssistantMessage;
+      }
+
+      return readOpenAIStream(response, request.onToken, request.onToolCall);
+    },
+  };
+}
+
+// Accumulate streamed content and tool call fragments (tool calls arrive split by index)
+async function readOpenAIStream(
+  response: Response,
+  onToken: (delta: string) => void,
+  onToolCall?: () => void,
+): Promise<AssistantMessage> {
+  let content = '';
+  const toolCalls: ToolCall[] = [];
+  const reader = response.body!.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = '';
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += value;
+
+    const lines = buffer.split('\n');
+    buffer = lines.pop() || '';
+
+    for (const line of lines) {
+      const trimmed = line.trim();
+      if (!trimmed.startsWith('data:')) continue;
+      const payload = trimmed.slice(5).trim();
+      if (payload === '[DONE]') continue;
+
+      let chunk;
+      try {
+        chunk = JSON.parse(payload);
+      } catch {
+        continue;
+      }
+
+      const delta = chunk.choices?.[0]?.delta;
+      if (!delta) continue;
+
+      if (delta.content) {
+        content += delta.content;
+        onToken(delta.content);
+      }
+
+      for (const fragment of delta.tool_calls || []) {
+        if (toolCalls.length === 0) onToolCall?.();
+        const existing = toolCalls[fragment.index] || { id: '', type: 'function', function: { name: '', arguments: '' } };
+        if (fragment.id) existing.id = fragment.id;
+        if (fragment.function?.name) existing.function.name += fragment.function.name;
+        if (fragment.function?.arguments) existing.function.arguments += fragment.function.arguments;
+        toolCalls[fragment.index] = existing;
+      }
+    }
+  }
+
+  return { content: content || null, tool_calls: toolCalls.length > 0 ? toolCalls.filter(Boolean) : undefined };
+}
+
+function lastUserMessage(messages: ChatCompletionMessage[]): string {
+  for (let i = messages.length - 1; i >= 0; i--) {
+    const message = messages[i];
+    if (message.role === 'user') return message.content;
+  }
+  return '';
+}
+
+async function loadFixtureEntries(path: string | undefined): Promise<FixtureEntry[]> {
+  if (!path) return [];
+  try {
+    const entries = JSON.parse(await Deno.readTextFile(path));
+    return Array.isArray(entries) ? entries : [];
+  } catch (error) {
+    console.warn(`⚠️ Could not load LLM fixtures from ${path}:`, error.message);
+    return [];
+  }
+}
+
+/**
+ * Deterministic offline provider. Resolution order: recorded fixture whose `match`
+ * appears in the last user message, then the calling function's responder, then an echo.
+ * Streaming is simulated word by word so SSE clients behave as with OpenAI.
+ */
+export function createFixtureProvider(fixturesPath?: string, fixtureResponder?: FixtureResponder): LLMProvider {
+  const entriesPromise = loadFixtureEntries(fixturesPath);
+
+  return {
+    name: 'fixture',
+    async chatCompletion(request: ChatCompletionRequest): Promise<AssistantMessage> {
+      const entries = await entriesPromise;
+      const userText = lastUserMessage(request.messages).toLowerCase();
+      const lastRole = request.messages[request.messages.length - 1]?.role;
+
+      // Recorded fixtures only answer the user turn itself, never a tool result
+      const entry = lastRole === 'user'
+        ? entries.find(e => e.match && userText.includes(e.match.toLowerCase()))
+        : undefined;
+
+      let message: AssistantMessage = entry?.response
+        ?? fixtureResponder?.(request)
+        ?? { content: `Respuesta de prueba para: ${lastUserMessage(request.messages)}` };
+
+      if (request.toolChoice === 'none' && message.tool_calls) {
+        message = { content: message.content ?? 'Respuesta de prueba sin herramientas.' };
+      }
+
+      if (request.onToken && message.tool_calls) request.onToolCall?.();
+      if (request.onToken && message.content) {
+        for (const token of message.content.match(/\S+\s*/g) || []) {
+          request.onToken(token);
+        }
+      }
+
+      console.log(`🧪 FIXTURE LLM: ${message.tool_calls ? `${message.tool_calls.length} tool call(s)` : 'text answer'}`);
+      return message;
+    },
+  };
+}
+
+/**
+ * Select the provider from LLM_PROVIDER (openai | fixture)
+ */
+export function getLLMProvider(options: LLMProviderOptions = {}): LLMProvider {
+  const providerName = (Deno.env.get('LLM_PROVIDER') || 'openai').toLowerCase();
+
+  if (providerName === 'fixture') {
+    return createFixtureProvider(Deno.env.get('LLM_FIXTURES_PATH'), options.fixtureResponder);
+  }
+
+  if (providerName !== 'openai') {
+    throw new Error(`Unknown LLM_PROVIDER: ${providerName}`);
+  }
+
+  const apiKey = Deno.env.get('OPENAI_API_KEY');
+  if (!apiKey) {
+    throw new Error('OpenAI API key not configured');
+  }
+  return createOpenAIProvider(apiKey);
+}
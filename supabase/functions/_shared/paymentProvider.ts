@@ -0,0 +1,61 @@
+// Pluggable payment provider layer used by the checkout edge function.
+// PAYMENT_PROVIDER=fake (default) settles payments locally without network or credentials,
+// so the whole cart -> order -> confirmation flow can be exercised offline.
+
+export interface PaymentRequest {
+  orderId: string;
+  amount: number;
+  currency: string;
+  description: string;
+  customerEmail: string;
+  // Card/wallet token produced by the provider's client SDK
+  paymentToken?: string;
+}
+
+export type PaymentResult =
+  | { status: 'approved'; reference: string }
+  | { status: 'declined'; reason: string };
+
+export interface PaymentProvider {
+  name: 'fake';
+  charge(request: PaymentRequest): Promise<PaymentResult>;
+}
+
+// Test tokens understood by the fake provider; any other token is approved
+export const FAKE_PAYMENT_TOKENS = {
+  APPROVED: 'fake_approved',
+  DECLINED: 'fake_declined',
+  ERROR: 'fake_error', // Simulates the provider being unreachable
+} as const;
+
+/**
+ * Deterministic local provider: approves every charge except the decline/error test tokens
+ */
+export function createFakePaymentProvider(): PaymentProvider {
+  return {
+    name: 'fake',
+    async charge(request: PaymentRequest): Promise<PaymentResult> {
+      console.log(`🧪 FAKE PAYMENT: ${request.amount} ${request.currency} for order ${request.orderId}`);
+
+      if (request.paymentToken === FAKE_PAYMENT_TOKENS.ERROR) {
+        throw new Error('Fake payment provider unavailable');
+      }
+      if (request.paymentToken === FAKE_PAYMENT_TOKENS.DECLINED) {
+        return { status: 'declined', reason: 'card_declined' };
+      }
+      return { status: 'approved', reference: `fake_${crypto.randomUUID()}` };
+    },
+  };
+}
+
+/**
+ * Select the provider from PAYMENT_PROVIDER (only `fake` is implemented so far)
+ */
+export function getPaymentProvider(): PaymentProvider {
+  const providerName = (Deno.env.get('PAYMENT_PROVIDER') || 'fake').toLowerCase();
+
+  if (providerName !== 'fake') {
+    throw new Error(`Unknown PAYMENT_PROVIDER: ${providerName}`);
+  }
+  return createFakePaymentProvider();
+}
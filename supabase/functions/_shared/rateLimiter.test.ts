@@ -0,0 +1,22 @@
+import { assertEquals } from 'https://deno.land/std@0.168.0/testing/asserts.ts';
+import { getClientIp, rateLimitIdentifiers } from './rateLimiter.ts';
+
+const requestWith = (headers: Record<string, string>) => new Request('http://localhost/', { headers });
+
+Deno.test('the address is the last X-Forwarded-For entry, the one the proxy added', () => {
+  assertEquals(getClientIp(requestWith({ 'x-forwarded-for': '1.2.3.4, 203.0.113.7' })), '203.0.113.7');
+  assertEquals(getClientIp(requestWith({ 'x-forwarded-for': '2001:db8::1' })), '2001:db8::1');
+  // A forged entry that is not an address does not fall back to an earlier one
+  assertEquals(getClientIp(requestWith({ 'x-forwarded-for': '203.0.113.7, evil' })), null);
+  assertEquals(getClientIp(requestWith({ 'x-real-ip': '198.51.100.2' })), '198.51.100.2');
+  assertEquals(getClientIp(requestWith({})), null);
+});
+
+Deno.test('a session id adds a bucket but never replaces the IP one', () => {
+  const sessionId = '0B4A36B3-1CCE-4709-916B-FD4BF1C6FD02';
+  assertEquals(rateLimitIdentifiers({ ip: '203.0.113.7', sessionId }), { ip: 'ip:203.0.113.7', session: `session:${sessionId.toLowerCase()}` });
+  // Without an address the shared bucket still applies
+  assertEquals(rateLimitIdentifiers({ ip: null, sessionId }), { ip: 'ip:unknown', session: `session:${sessionId.toLowerCase()}` });
+  assertEquals(rateLimitIdentifiers({ ip: null, userId: 'x'.repeat(200) }), { ip: 'ip:unknown', user: `user:${'x'.repeat(128)}` });
+  assertEquals(rateLimitIdentifiers({ ip: '203.0.113.7', sessionId: 'not-a-uuid' }), { ip: 'ip:203.0.113.7' });
+});
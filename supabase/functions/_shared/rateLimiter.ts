@@ -0,0 +1,203 @@
+// Per-IP and per-session request limits for the public edge functions (deployed with verify_jwt = false).
+// Counters live in edge_rate_limits and are incremented atomically by the consume_rate_limit RPC;
+// if the limiter itself is unavailable requests are let through so an outage never blocks shoppers.
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.51.0';
+
+export type RateLimitedFunction =
+  | 'chat-assistant'
+  | 'openai-tts'
+  | 'google-cloud-tts'
+  | 'session-link'
+  | 'checkout'
+  | 'code-generator';
+
+// ip: the caller's address, or one shared bucket for callers whose address is unknown;
+// session: the shopper session id sent by the app; user: the code-generator user-id header
+export type RateLimitKey = 'ip' | 'session' | 'user';
+
+export interface RateLimitWindow {
+  windowSeconds: number;
+  maxRequests: number;
+}
+
+export type RateLimitPolicy = Partial<Record<RateLimitKey, RateLimitWindow[]>>;
+
+export interface RateLimitDecision {
+  allowed: boolean;
+  // Seconds until the exceeded window resets; 0 when allowed
+  retryAfterSeconds: number;
+  blockedBy?: { identifier: string; windowSeconds: number; maxRequests: number };
+  // Requests left in the tightest window and when it resets (epoch seconds); unset when no limit was checked
+  remaining?: number;
+  resetAt?: number;
+}
+
+export const RATE_LIMIT_ERROR = 'rate_limited';
+
+const minute = (maxRequests: number): RateLimitWindow => ({ windowSeconds: 60, maxRequests });
+const hour = (maxRequests: number): RateLimitWindow => ({ windowSeconds: 60 * 60, maxRequests });
+
+// IP limits are looser than session limits because several shoppers can share an address (offices, mobile NAT)
+export const RATE_LIMIT_POLICIES: Record<RateLimitedFunction, RateLimitPolicy> = {
+  'chat-assistant': { ip: [minute(20), hour(200)], session: [minute(10), hour(100)] },
+  'openai-tts': { ip: [minute(30), hour(300)], session: [minute(20), hour(150)] },
+  'google-cloud-tts': { ip: [minute(30), hour(300)], session: [minute(20), hour(150)] },
+  'session-link': { ip: [minute(10), hour(60)], session: [minute(5), hour(30)] },
+  'checkout': { ip: [minute(10), hour(40)], session: [minute(5), hour(20)] },
+  'code-generator': { ip: [minute(5), hour(20)], user: [minute(5), hour(20)] },
+};
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const IP_PATTERN = /^[\d.]+$|^[\da-f:]+$/i;
+const MAX_USER_ID_LENGTH = 128;
+// Callers without a valid IP share this bucket (with the IP windows) instead of going unlimited
+const UNKNOWN_CLIENT_IDENTIFIER = 'ip:unknown';
+
+// Session, conversation and product ids are UUID columns; anything else would fail the query with 22P02
+export const isUuid = (value: unknown): value is string => typeof value === 'string' && UUID_PATTERN.test(value);
+
+/**
+ * Windows for one function and key. Overridable per deployment with
+ * RATE_LIMIT_<FUNCTION>_<KEY>="<seconds>:<max>,..." (e.g. RATE_LIMIT_CHAT_ASSISTANT_IP="60:30,3600:300");
+ * an empty value disables that key.
+ */
+export function resolveRateLimitWindows(functionName: RateLimitedFunction, key: RateLimitKey): RateLimitWindow[] {
+  const envName = `RATE_LIMIT_${functionName.replace(/-/g, '_').toUpperCase()}_${key.toUpperCase()}`;
+  const override = Deno.env.get(envName);
+  if (override === undefined) return RATE_LIMIT_POLICIES[functionName][key] ?? [];
+
+  const windows: RateLimitWindow[] = [];
+  for (const part of override.split(',').map(p => p.trim()).filter(Boolean)) {
+    const [windowSeconds, maxRequests] = part.split(':').map(Number);
+    if (!Number.isInteger(windowSeconds) || !Number.isInteger(maxRequests) || windowSeconds <= 0 || maxRequests < 0) {
+      console.warn(`⚠️ Ignoring invalid ${envName} window "${part}"`);
+      continue;
+    }
+    windows.push({ windowSeconds, maxRequests });
+  }
+  return windows;
+}
+
+/**
+ * Caller address from the proxy headers, or null when it cannot be determined. The client can send its own
+ * X-Forwarded-For, so only the last entry, the one the platform proxy appends, is trusted.
+ */
+export function getClientIp(req: Request): string | null {
+  const forwarded = req.headers.get('x-forwarded-for')?.split(',').pop()?.trim() || req.headers.get('x-real-ip')?.trim() || '';
+  return IP_PATTERN.test(forwarded) ? forwarded : null;
+}
+
+/**
+ * Buckets a request counts against. The IP bucket (or the shared unknown-client one) always applies:
+ * session and user ids come from the client, so a fresh one must not buy a fresh allowance.
+ * Session ids that are not UUIDs are ignored.
+ */
+export function rateLimitIdentifiers(
+  subject: { ip?: string | null; sessionId?: unknown; userId?: string | null }
+): Partial<Record<RateLimitKey, string>> {
+  const identifiers: Partial<Record<RateLimitKey, string>> = {
+    ip: subject.ip ? `ip:${subject.ip}` : UNKNOWN_CLIENT_IDENTIFIER,
+  };
+  if (isUuid(subject.sessionId)) {
+    identifiers.session = `session:${subject.sessionId.toLowerCase()}`;
+  }
+  if (subject.userId) identifiers.user = `user:${subject.userId.substring(0, MAX_USER_ID_LENGTH)}`;
+  return identifiers;
+}
+
+/**
+ * Counts the request against every configured window for the function and decides whether it may proceed
+ */
+export async function consumeRateLimit(
+  functionName: RateLimitedFunction,
+  subject: { ip?: string | null; sessionId?: unknown; userId?: string | null }
+): Promise<RateLimitDecision> {
+  const identifiers = rateLimitIdentifiers(subject);
+  const rules = (Object.keys(identifiers) as RateLimitKey[]).flatMap(key =>
+    resolveRateLimitWindows(functionName, key).map(window => ({
+      identifier: identifiers[key],
+      window_seconds: window.windowSeconds,
+      max_requests: window.maxRequests,
+    }))
+  );
+  if (rules.length === 0) return { allowed: true, retryAfterSeconds: 0 };
+
+  const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+  if (!serviceRoleKey) {
+    console.warn(`⚠️ Rate limit not enforced for ${functionName}: service role key not configured`);
+    return { allowed: true, retryAfterSeconds: 0 };
+  }
+
+  try {
+    const client = createClient(Deno.env.get('SUPABASE_URL')!, serviceRoleKey);
+    const { data, error } = await client.rpc('consume_rate_limit', {
+      p_function_name: functionName,
+      p_rules: rules,
+    });
+    if (error) throw error;
+
+    const result = data as {
+      allowed: boolean;
+      retry_after: number;
+      blocked_by: { identifier: string; window_seconds: number; max_requests: number } | null;
+      remaining: number;
+      reset_at: number;
+    };
+    if (result.allowed) {
+      return { allowed: true, retryAfterSeconds: 0, remaining: result.remaining, resetAt: result.reset_at };
+    }
+
+    console.warn(`🚦 RATE LIMITED ${functionName}: ${result.blocked_by?.identifier} exceeded ${result.blocked_by?.max_requests}/${result.blocked_by?.window_seconds}s`);
+    return {
+      allowed: false,
+      retryAfterSeconds: result.retry_after,
+      blockedBy: result.blocked_by
+        ? {
+            identifier: result.blocked_by.identifier,
+            windowSeconds: result.blocked_by.window_seconds,
+            maxRequests: result.blocked_by.max_requests,
+          }
+        : undefined,
+      remaining: 0,
+      resetAt: Math.ceil(Date.now() / 1000) + result.retry_after,
+    };
+  } catch (error) {
+    // Fail open: a limiter outage must not take the storefront down with it
+    console.error(`❌ Rate limit check failed for ${functionName}:`, error);
+    return { allowed: true, retryAfterSeconds: 0 };
+  }
+}
+
+/**
+ * X-RateLimit-Remaining / X-RateLimit-Reset for a checked request; empty when the limiter did not run
+ */
+export function rateLimitHeaders(decision: RateLimitDecision): Record<string, string> {
+  if (decision.remaining === undefined || decision.resetAt === undefined) return {};
+  return {
+    'X-RateLimit-Remaining': String(decision.remaining),
+    'X-RateLimit-Reset': String(decision.resetAt),
+  };
+}
+
+/**
+ * 429 reply with Retry-After (exposed to the browser so the app can show a countdown)
+ */
+export function rateLimitResponse(
+  decision: RateLimitDecision,
+  corsHeaders: Record<string, string>,
+  body: Record<string, unknown> = {}
+): Response {
+  return new Response(
+    JSON.stringify({ success: false, error: RATE_LIMIT_ERROR, retryAfter: decision.retryAfterSeconds, ...body }),
+    {
+      status: 429,
+      headers: {
+        ...corsHeaders,
+        'Content-Type': 'application/json',
+        'Retry-After': String(decision.retryAfterSeconds),
+        ...rateLimitHeaders(decision),
+        'Access-Control-Expose-Headers': 'Retry-After, X-RateLimit-Remaining, X-RateLimit-Reset',
+      },
+    }
+  );
+}
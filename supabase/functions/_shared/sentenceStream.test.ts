@@ -0,0 +1,62 @@
+import { assertEquals } from 'https://deno.land/std@0.168.0/testing/asserts.ts';
+import { createFixtureProvider, type AssistantMessage } from './llmProvider.ts';
+import { createRoundStream, createSentenceSplitter } from './sentenceStream.ts';
+
+const streamRound = async (reply: AssistantMessage) => {
+  const sent: string[] = [];
+  // What had been sent when each delta arrived
+  const sentAtDelta: string[][] = [];
+  const round = createRoundStream(sentence => sent.push(sentence));
+  const llm = createFixtureProvider(undefined, () => reply);
+  await llm.chatCompletion({
+    model: 'fixture',
+    messages: [{ role: 'user', content: 'busco un televisor' }],
+    onToken: delta => {
+      sentAtDelta.push([...sent]);
+      round.onToken(delta);
+    },
+    onToolCall: round.onToolCall,
+  });
+  const sentBeforeEnd = [...sent];
+  round.finish();
+  return { sent, sentAtDelta, sentBeforeEnd };
+};
+
+Deno.test('a text answer is sent sentence by sentence while it streams', async () => {
+  const { sent, sentAtDelta, sentBeforeEnd } = await streamRound({
+    content: 'Tengo dos televisores. El Sony 43" LED Full HD cuesta 449.99 dólares.',
+  });
+  // The first sentence is out when the first word of the second one arrives
+  assertEquals(sentAtDelta[3], ['Tengo dos televisores.']);
+  assertEquals(sentBeforeEnd, ['Tengo dos televisores.']);
+  assertEquals(sent, ['Tengo dos televisores.', 'El Sony 43" LED Full HD cuesta 449.99 dólares.']);
+});
+
+Deno.test('a round that calls a tool sends nothing', async () => {
+  const { sent } = await streamRound({
+    content: 'Déjame buscar televisores. Un momento.',
+    tool_calls: [{ id: 'call_1', type: 'function', function: { name: 'search_products', arguments: '{"categoria":"Televisores"}' } }],
+  });
+  assertEquals(sent, []);
+});
+
+Deno.test('text written before a tool call starts is sent, text after it is not', () => {
+  const sent: string[] = [];
+  const round = createRoundStream(sentence => sent.push(sentence));
+  round.onToken('Déjame buscar eso. Un ');
+  round.onToolCall();
+  round.onToken('momento. Ya casi.');
+  round.finish();
+  assertEquals(sent, ['Déjame buscar eso.']);
+});
+
+Deno.test('decimals and list numbers do not end a sentence', () => {
+  const sent: string[] = [];
+  const splitter = createSentenceSplitter(sentence => sent.push(sentence));
+  for (const delta of ['Opciones:\n1. Sony por 449', '.99 dólares. ', '2. Samsung por 799.', '99 dólares! ¿Te', ' interesa?']) {
+    splitter.push(delta);
+  }
+  assertEquals(sent, ['Opciones:', '1. Sony por 449.99 dólares.', '2. Samsung por 799.99 dólares!']);
+  splitter.flush();
+  assertEquals(sent.at(-1), '¿Te interesa?');
+});
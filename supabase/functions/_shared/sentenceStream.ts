@@ -0,0 +1,59 @@
+// Turns the streamed text of a model round into sentences for the shopper.
+
+export interface SentenceSplitter {
+  push(delta: string): void;
+  // Hands over the rest of the text once the stream has ended
+  flush(): void;
+}
+
+// Cuts streamed text into sentences. A sentence is complete once whitespace follows its end mark,
+// so decimals ("799.99") and list numbers ("1. ") do not end one
+export function createSentenceSplitter(onSentence: (sentence: string) => void): SentenceSplitter {
+  let buffer = '';
+  return {
+    push(delta: string) {
+      buffer += delta;
+      const boundary = /(?<!(?:^|\s)\d{1,2})[.!?]+\s+|\n+/g;
+      let start = 0;
+      let match: RegExpExecArray | null;
+      while ((match = boundary.exec(buffer)) !== null) {
+        const sentence = buffer.slice(start, match.index + match[0].length).trim();
+        if (sentence) onSentence(sentence);
+        start = match.index + match[0].length;
+      }
+      buffer = buffer.slice(start);
+    },
+    flush() {
+      const sentence = buffer.trim();
+      buffer = '';
+      if (sentence) onSentence(sentence);
+    },
+  };
+}
+
+export interface RoundStream {
+  onToken(delta: string): void;
+  // The round has started a tool call, so the rest of its text is not the answer
+  onToolCall(): void;
+  // Hands over the last sentence once the round has ended as a text answer
+  finish(): void;
+}
+
+/**
+ * Sentences of one model round. Text that arrives before any tool call is the answer being written
+ * and each sentence is passed on as soon as it is complete; once the round starts a tool call, what
+ * it writes next is held back and dropped with the round.
+ */
+export function createRoundStream(onSentence: (sentence: string) => void): RoundStream {
+  let callsTools = false;
+  const splitter = createSentenceSplitter(sentence => {
+    if (!callsTools) onSentence(sentence);
+  });
+  return {
+    onToken: delta => splitter.push(delta),
+    onToolCall() {
+      callsTools = true;
+    },
+    finish: () => splitter.flush(),
+  };
+}
@@ -0,0 +1,65 @@
+import { assertEquals } from 'https://deno.land/std@0.168.0/testing/asserts.ts';
+import type { CatalogOverview, CatalogProduct } from './catalog.ts';
+import { parseShopperIntent } from './shopperIntent.ts';
+
+const OVERVIEW: CatalogOverview = {
+  total: 5,
+  precio_mediana: 600,
+  categorias: [
+    { categoria: 'Audio', productos: 1, en_stock: 0, precio_min: 399.99, precio_max: 399.99, precio_mediana: 399.99 },
+    { categoria: 'Smartphones', productos: 2, en_stock: 2, precio_min: 699.99, precio_max: 1199.99, precio_mediana: 949.99 },
+    { categoria: 'Televisores', productos: 2, en_stock: 2, precio_min: 449.99, precio_max: 799.99, precio_mediana: 624.99 },
+  ],
+};
+
+const SAMSUNG_TV: CatalogProduct = { id: 'tv-samsung', nombre: 'Samsung 55" QLED 4K TV', descripcion: 'Televisor QLED de 55 pulgadas', categoria: 'Televisores', precio: 799.99, cantidad_disponible: 25 };
+const HEADPHONES: CatalogProduct = { id: 'audio-sony', nombre: 'Sony WH-1000XM5', descripcion: 'Audífonos inalámbricos con cancelación de ruido', categoria: 'Audio', precio: 399.99, cantidad_disponible: 0 };
+
+const filtersOf = (message: string, sample: CatalogProduct[] = [], focused: CatalogProduct | null = null) =>
+  parseShopperIntent(message, OVERVIEW, sample, focused).filters;
+
+Deno.test('categories match singular, plural and English spellings but not short prefixes', () => {
+  assertEquals(filtersOf('busco un televisor').categoria, 'Televisores');
+  assertEquals(filtersOf('cheap televisions').categoria, 'Televisores');
+  assertEquals(filtersOf('algo para la tele'), {});
+});
+
+Deno.test('price bounds read amounts with thousands in every language', () => {
+  assertEquals(filtersOf('televisores de menos de 1 mil'), { categoria: 'Televisores', precioMax: 1000 });
+  assertEquals(filtersOf('laptops under $1,500'), { precioMax: 1500 });
+  assertEquals(filtersOf('smartphones até 1.299,99'), { categoria: 'Smartphones', precioMax: 1299.99 });
+  assertEquals(filtersOf('smartphones over 2k'), { categoria: 'Smartphones', precioMin: 2000 });
+});
+
+Deno.test('"no más de" is a maximum, not a minimum', () => {
+  assertEquals(filtersOf('no más de 200'), { precioMax: 200 });
+  assertEquals(filtersOf('não mais de 200'), { precioMax: 200 });
+});
+
+Deno.test('a range takes precedence over the single bounds inside it', () => {
+  assertEquals(filtersOf('entre 300 y 800, no más de 800'), { precioMin: 300, precioMax: 800 });
+  assertEquals(filtersOf('between $300 and $800'), { precioMin: 300, precioMax: 800 });
+});
+
+Deno.test('"cheap" and "premium" split at the median of the category, or of the catalog', () => {
+  assertEquals(parseShopperIntent('un smartphone barato', OVERVIEW, [], null), { filters: { categoria: 'Smartphones', precioMax: 949.99 }, priceOrder: 'asc' });
+  assertEquals(parseShopperIntent('algum celular em conta?', OVERVIEW, [], null), { filters: { precioMax: 600 }, priceOrder: 'asc' });
+  assertEquals(parseShopperIntent('televisores premium', OVERVIEW, [], null), { filters: { categoria: 'Televisores', precioMin: 624.99 }, priceOrder: 'desc' });
+  // An explicit bound is kept
+  assertEquals(filtersOf('algo barato de menos de 300'), { precioMax: 300 });
+});
+
+Deno.test('the product on screen anchors "uno más barato" unless a category is named', () => {
+  assertEquals(parseShopperIntent('uno más barato', OVERVIEW, [], SAMSUNG_TV), { filters: { categoria: 'Televisores', precioMax: 799.98 }, priceOrder: 'asc' });
+  assertEquals(filtersOf('algo parecido a este', [], SAMSUNG_TV), { categoria: 'Televisores' });
+  assertEquals(filtersOf('un smartphone más barato', [], SAMSUNG_TV), { categoria: 'Smartphones', precioMax: 949.99 });
+  assertEquals(filtersOf('hola', [], SAMSUNG_TV), {});
+});
+
+Deno.test('brands and descriptive words come back in their catalog spelling', () => {
+  assertEquals(filtersOf('audífonos SONY', [HEADPHONES]), { searchTerm: 'Sony' });
+  assertEquals(filtersOf('algo de jbl'), { searchTerm: 'jbl' });
+  assertEquals(filtersOf('algo inalambrico', [HEADPHONES]), { searchTerm: 'inalámbricos' });
+  // Numbers and price words are never taken as the search word
+  assertEquals(filtersOf('algo barato de 55', [SAMSUNG_TV]), { precioMax: 600 });
+});
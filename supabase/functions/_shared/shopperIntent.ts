@@ -0,0 +1,153 @@
+// Rule-based reading of a shopping request (category, brand, price range) that chat-assistant
+// answers with while the LLM provider is unavailable.
+
+import {
+  SPANISH_STOPWORDS,
+  contentWords,
+  normalizeText,
+  parseAmount,
+  roundMoney,
+  stemToken,
+  type CatalogOverview,
+  type CatalogProduct,
+} from './catalog.ts';
+import type { ProductFilters } from '../../../shared/productFilters.ts';
+
+// A shopper word names a category when it shares its stem, or a long enough prefix, with a word of
+// the category name: "televisor" and "television" both name "Televisores"
+const CATEGORY_MATCH_CONFIG = {
+  MIN_PREFIX_CHARS: 5,
+  MIN_PREFIX_SHARE: 0.75, // Of the shorter word
+};
+
+const BRAND_KEYWORDS = ['samsung', 'lg', 'sony', 'apple', 'google', 'dell', 'hp', 'jbl', 'lenovo', 'asus', 'xiaomi', 'motorola', 'bose'];
+
+// Spanish, English and Portuguese wording, matched on text without accents
+const INTENT_AMOUNT = '\\$?\\s*(\\d+(?:[.,]\\d{3})*(?:[.,]\\d{1,2})?)(\\s*(?:mil|k|thousand)\\b)?';
+const INTENT_PATTERNS = {
+  between: new RegExp(`\\b(?:entre|between|from)\\s+${INTENT_AMOUNT}\\s+(?:y|and|to|e|a)\\s+${INTENT_AMOUNT}`),
+  max: new RegExp(`\\b(?:menos de|bajo|debajo de|hasta|maximo|no mas de|menor a|menores a|under|less than|below|up to|at most|no more than|cheaper than|abaixo de|ate|no maximo|nao mais de)\\s+${INTENT_AMOUNT}`),
+  min: new RegExp(`(?<!(?:no|nao) )\\b(?:mas de|desde|minimo|arriba de|encima de|mayor a|mayores a|a partir de|more than|over|above|at least|starting at|mais de|acima de|no minimo|pelo menos)\\s+${INTENT_AMOUNT}`),
+  cheap: /\b(barat[oa]s?|economic[oa]s?|accesibles?|low cost|cheap(er|est)?|affordable|inexpensive|budget|em conta)\b/,
+  expensive: /\b(car[oa]s?|premium|gama alta|alta gama|de lujo|expensive|high end|luxury|de luxo|topo de linha)\b/,
+  onScreen: /\b(este|esta|ese|esa|parecid[oa]s?|similar(es)?|this|that one|esse|essa|isso)\b/,
+};
+
+export interface ShopperIntent {
+  filters: ProductFilters;
+  priceOrder: 'asc' | 'desc' | null;
+}
+
+function toIntentAmount(amount: string, thousands: string | undefined): number {
+  return parseAmount(amount) * (thousands ? 1000 : 1);
+}
+
+// Median price of a category, or of the whole catalog
+function namesCategory(word: string, categoryWord: string): boolean {
+  const a = stemToken(word);
+  const b = stemToken(categoryWord);
+  if (a === b) return true;
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) prefix++;
+  return prefix >= CATEGORY_MATCH_CONFIG.MIN_PREFIX_CHARS
+    && prefix / Math.min(a.length, b.length) >= CATEGORY_MATCH_CONFIG.MIN_PREFIX_SHARE;
+}
+
+function medianPrice(overview: CatalogOverview, categoria: string | undefined): number | undefined {
+  const median = categoria
+    ? overview.categorias.find(c => c.categoria === categoria)?.precio_mediana
+    : overview.precio_mediana;
+  return median ?? undefined;
+}
+
+/**
+ * Parse a shopping request into ProductFilters without the LLM: words naming a catalog category,
+ * brands, "menos de 500", "between 300 and 800", "barato" (Spanish, English and Portuguese).
+ * `sample` are products matching the message, where brands and descriptive words are looked up.
+ * `focused` is the product on screen, used for "uno más barato" or "algo parecido a este".
+ */
+export function parseShopperIntent(
+  message: string,
+  overview: CatalogOverview,
+  sample: CatalogProduct[],
+  focused: CatalogProduct | null = null
+): ShopperIntent {
+  const filters: ProductFilters = {};
+  const text = (message || '').normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+  const words = normalizeText(message).split(/\s+/).filter(Boolean);
+  const categories = overview.categorias.map(c => c.categoria);
+  const usedWords = new Set<string>();
+
+  // Category: a word close to a word of a category name
+  for (const word of words.filter(w => !SPANISH_STOPWORDS.has(w))) {
+    const category = categories.find(c => contentWords(c).some(categoryWord => namesCategory(word, categoryWord)));
+    if (category) {
+      filters.categoria = category;
+      usedWords.add(word);
+      break;
+    }
+  }
+
+  // No category named but the shopper points at the product on screen: stay in its category
+  const screenProduct = focused && !filters.categoria
+    && (INTENT_PATTERNS.cheap.test(text) || INTENT_PATTERNS.expensive.test(text) || INTENT_PATTERNS.onScreen.test(text))
+    ? focused
+    : null;
+  if (screenProduct) {
+    filters.categoria = screenProduct.categoria;
+  }
+
+  // Price ranges
+  const between = INTENT_PATTERNS.between.exec(text);
+  const max = INTENT_PATTERNS.max.exec(text);
+  const min = INTENT_PATTERNS.min.exec(text);
+  if (between) {
+    filters.precioMin = toIntentAmount(between[1], between[2]);
+    filters.precioMax = toIntentAmount(between[3], between[4]);
+  } else {
+    if (max) filters.precioMax = toIntentAmount(max[1], max[2]);
+    if (min) filters.precioMin = toIntentAmount(min[1], min[2]);
+  }
+
+  // "barato" / "premium" - below or above the median price of what is being browsed,
+  // or of the product on screen ("uno más barato")
+  let priceOrder: ShopperIntent['priceOrder'] = null;
+  if (INTENT_PATTERNS.cheap.test(text)) {
+    priceOrder = 'asc';
+    if (filters.precioMax === undefined) filters.precioMax = screenProduct ? roundMoney(screenProduct.precio - 0.01) : medianPrice(overview, filters.categoria);
+  } else if (INTENT_PATTERNS.expensive.test(text)) {
+    priceOrder = 'desc';
+    if (filters.precioMin === undefined) filters.precioMin = screenProduct ? roundMoney(screenProduct.precio + 0.01) : medianPrice(overview, filters.categoria);
+  }
+
+  // Brand from the matching products' names, or a well-known brand
+  const catalogBrands = new Map<string, string>();
+  for (const product of sample) {
+    const [firstWord] = product.nombre.split(/\s+/);
+    const normalized = normalizeText(firstWord).trim();
+    if (normalized.length > 1) catalogBrands.set(normalized, firstWord);
+  }
+  const brandWord = words.find(word => catalogBrands.has(word) || BRAND_KEYWORDS.includes(word));
+  if (brandWord) {
+    filters.searchTerm = catalogBrands.get(brandWord) ?? brandWord;
+    usedWords.add(brandWord);
+  }
+
+  // Otherwise a descriptive word that appears in the matching products ("inalambricos", "4k"), in its catalog spelling
+  if (!filters.searchTerm && !filters.categoria && sample.length > 0) {
+    const catalogWords = new Map<string, string>();
+    for (const product of sample) {
+      for (const original of `${product.nombre} ${product.descripcion}`.split(/[^\p{L}\p{N}]+/u)) {
+        const stem = stemToken(normalizeText(original).trim());
+        if (stem.length > 2 && !catalogWords.has(stem)) catalogWords.set(stem, original);
+      }
+    }
+    const keyword = words.find(word => !usedWords.has(word) && !SPANISH_STOPWORDS.has(word) && !/^\d+$/.test(word)
+      && !INTENT_PATTERNS.cheap.test(word) && !INTENT_PATTERNS.expensive.test(word)
+      && catalogWords.has(stemToken(word)));
+    if (keyword) filters.searchTerm = catalogWords.get(stemToken(keyword));
+  }
+
+  const cleanFilters = Object.fromEntries(Object.entries(filters).filter(([, v]) => v !== undefined)) as ProductFilters;
+  return { filters: cleanFilters, priceOrder };
+}
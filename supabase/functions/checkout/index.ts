@@ -0,0 +1,143 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.51.0';
+import { getPaymentProvider } from '../_shared/paymentProvider.ts';
+import { consumeRateLimit, getClientIp, isUuid, rateLimitResponse } from '../_shared/rateLimiter.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+interface CheckoutRequest {
+  sessionId: string;
+  conversationId?: string;
+  cliente: { nombre: string; email: string };
+  paymentToken?: string;
+}
+
+interface CreateOrderResult {
+  success: boolean;
+  error?: 'empty_cart' | 'insufficient_stock' | 'order_pending';
+  items?: unknown[];
+  pedido_id?: string;
+  numero?: number;
+  total?: number;
+}
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+}
+
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const request = await req.json() as CheckoutRequest;
+
+    // Each attempt locks stock rows and may reach the payment provider
+    const rateLimit = await consumeRateLimit('checkout', { ip: getClientIp(req), sessionId: request.sessionId });
+    if (!rateLimit.allowed) {
+      return rateLimitResponse(rateLimit, corsHeaders);
+    }
+
+    // Both ids are cast to UUID by create_order_from_cart; anything else would surface as a 500
+    if (!isUuid(request.sessionId) || (request.conversationId != null && !isUuid(request.conversationId))) {
+      return jsonResponse({ success: false, error: 'invalid_session' }, 400);
+    }
+
+    const nombre = request.cliente?.nombre?.trim();
+    const email = request.cliente?.email?.trim();
+
+    if (!nombre || !email || !EMAIL_PATTERN.test(email)) {
+      return jsonResponse({ success: false, error: 'invalid_customer' }, 400);
+    }
+
+    // Order functions are only granted to the service role
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+    if (!serviceRoleKey) {
+      throw new Error('Service role key not configured');
+    }
+    const supabase = createClient(supabaseUrl, serviceRoleKey);
+    const paymentProvider = getPaymentProvider();
+
+    // Reserve the stock of the whole cart before charging
+    const { data, error: orderError } = await supabase.rpc('create_order_from_cart', {
+      p_session_id: request.sessionId,
+      p_cliente_nombre: nombre,
+      p_cliente_email: email,
+      p_conversacion_id: request.conversationId ?? null,
+    });
+
+    if (orderError) {
+      throw new Error(`Failed to create order: ${orderError.message}`);
+    }
+
+    const order = data as CreateOrderResult;
+    // A repeated submit gets the order of the first one, which that request is already charging
+    if (order.error === 'order_pending') {
+      console.log(`🧾 Order ${order.numero} is already awaiting payment, not charging again`);
+      return jsonResponse({ success: false, error: order.error, orderId: order.pedido_id, numero: order.numero, total: Number(order.total) }, 409);
+    }
+    if (!order.success) {
+      console.log('🛑 Checkout rejected:', order.error);
+      return jsonResponse({ success: false, error: order.error, items: order.items ?? [] }, 409);
+    }
+
+    console.log(`🧾 Order ${order.numero} reserved (${order.total} USD), charging via ${paymentProvider.name}`);
+
+    // Any payment outcome other than approval releases the reserved stock
+    let payment;
+    try {
+      payment = await paymentProvider.charge({
+        orderId: order.pedido_id!,
+        amount: Number(order.total),
+        currency: 'USD',
+        description: `Pedido #${order.numero}`,
+        customerEmail: email,
+        paymentToken: request.paymentToken,
+      });
+    } catch (paymentError) {
+      console.error('Payment provider error:', paymentError);
+      await supabase.rpc('cancel_order', { p_pedido_id: order.pedido_id, p_motivo: 'payment_error' });
+      return jsonResponse({ success: false, error: 'payment_error' }, 502);
+    }
+
+    if (payment.status === 'declined') {
+      console.log(`💳 Payment declined for order ${order.numero}:`, payment.reason);
+      await supabase.rpc('cancel_order', { p_pedido_id: order.pedido_id, p_motivo: payment.reason });
+      return jsonResponse({ success: false, error: 'payment_declined', reason: payment.reason }, 402);
+    }
+
+    const { error: confirmError } = await supabase.rpc('confirm_order_payment', {
+      p_pedido_id: order.pedido_id,
+      p_pago_proveedor: paymentProvider.name,
+      p_pago_referencia: payment.reference,
+    });
+
+    if (confirmError) {
+      // The charge went through; keep the order pending for manual reconciliation instead of releasing stock
+      console.error(`Order ${order.numero} charged (${payment.reference}) but not confirmed:`, confirmError);
+      throw new Error('Failed to confirm order payment');
+    }
+
+    console.log(`✅ Order ${order.numero} paid:`, payment.reference);
+    return jsonResponse({
+      success: true,
+      orderId: order.pedido_id,
+      numero: order.numero,
+      total: Number(order.total),
+    });
+  } catch (error) {
+    console.error('Error in checkout:', error);
+    return jsonResponse({ success: false, error: error.message }, 500);
+  }
+});
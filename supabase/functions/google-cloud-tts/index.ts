@@ -1,6 +1,13 @@
 
 import "https://deno.land/x/xhr@0.1.0/mod.ts";
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import {
+  TTS_TEXT_LIMITS,
+  capSpeechText,
+  resolveSpanishVariant,
+  verbalizeSpanishForSpeech,
+} from '../../../shared/spanishSpeech.ts';
+import { consumeRateLimit, getClientIp, rateLimitResponse } from '../_shared/rateLimiter.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -12,6 +19,8 @@ interface TTSRequest {
   voice?: string;
   speed?: number;
   pitch?: number;
+  // Shopper session, for the per-session rate limit
+  sessionId?: string;
 }
 
 interface TTSResponse {
@@ -38,6 +47,12 @@ const PREMIUM_SPANISH_VOICES = [
   'es-US-Standard-A', // US Spanish female
 ];
 
+// Voices for replies in the other languages the assistant speaks
+const MULTILINGUAL_VOICES = [
+  'en-US-Journey-F', // English female
+  'pt-BR-Neural2-A', // Brazilian Portuguese female
+];
+
 function logTTSEvent(event: string, data: any) {
   const timestamp = new Date().toISOString();
   console.log(`🎤 [Google-TTS-${event}] ${timestamp}:`, JSON.stringify(data, null, 2));
@@ -54,6 +69,13 @@ serve(async (req) => {
 
   try {
     requestData = await req.json();
+
+    // Every call spends provider credits, so throttle before doing any work
+    const rateLimit = await consumeRateLimit('google-cloud-tts', { ip: getClientIp(req), sessionId: requestData.sessionId });
+    if (!rateLimit.allowed) {
+      logTTSEvent('RATE_LIMITED', { retryAfter: rateLimit.retryAfterSeconds, blockedBy: rateLimit.blockedBy });
+      return rateLimitResponse(rateLimit, corsHeaders, { fallbackRequired: true });
+    }
     
     logTTSEvent('REQUEST_RECEIVED', {
       textLength: requestData.text?.length || 0,
@@ -67,13 +89,29 @@ serve(async (req) => {
       throw new Error('Text is required and cannot be empty');
     }
 
+    // Checked on the text as sent, before any work on it; verbalizing only makes it longer
+    const textBytes = TTS_TEXT_LIMITS.google.measure(requestData.text);
+    if (textBytes > TTS_TEXT_LIMITS.google.maxLength) {
+      logTTSEvent('TEXT_TOO_LONG', { 
+        originalBytes: textBytes,
+        maxBytes: TTS_TEXT_LIMITS.google.maxLength 
+      });
+      throw new Error('Text too long for TTS processing (max 5000 bytes)');
+    }
+
     if (!GOOGLE_API_KEY) {
       logTTSEvent('CONFIG_ERROR', { error: 'Google Cloud API key not configured' });
       throw new Error('Google Cloud TTS service not properly configured');
     }
 
+    // Select premium female voice, Spanish unless a voice for another reply language was requested
+    const selectedVoice = requestData.voice && [...PREMIUM_SPANISH_VOICES, ...MULTILINGUAL_VOICES].includes(requestData.voice) 
+      ? requestData.voice 
+      : PREMIUM_SPANISH_VOICES[0]; // Default to Journey-F
+    const languageCode = selectedVoice.split('-').slice(0, 2).join('-');
+
     // Clean and prepare text for TTS
-    const cleanText = requestData.text
+    const markdownFreeText = requestData.text
       .replace(/\*\*(.*?)\*\*/g, '$1') // Remove markdown bold
       .replace(/\*(.*?)\*/g, '$1')     // Remove markdown italic
       .replace(/`(.*?)`/g, '$1')       // Remove code backticks
@@ -82,18 +120,16 @@ serve(async (req) => {
       .replace(/\s+/g, ' ')            // Normalize whitespace
       .trim();
 
-    if (cleanText.length > 5000) {
-      logTTSEvent('TEXT_TOO_LONG', { 
-        originalLength: cleanText.length,
-        maxLength: 5000 
-      });
-      throw new Error('Text too long for TTS processing (max 5000 characters)');
-    }
+    // Prices, model codes and units read as words in the voice's regional Spanish
+    const speechText = languageCode.startsWith('es')
+      ? verbalizeSpanishForSpeech(markdownFreeText, resolveSpanishVariant(languageCode))
+      : markdownFreeText;
 
-    // Select premium Spanish female voice
-    const selectedVoice = requestData.voice && PREMIUM_SPANISH_VOICES.includes(requestData.voice) 
-      ? requestData.voice 
-      : PREMIUM_SPANISH_VOICES[0]; // Default to Journey-F
+    // Words for prices and codes can push a text that fit over the limit; the end is left out
+    const cleanText = capSpeechText(speechText, TTS_TEXT_LIMITS.google);
+    if (cleanText.length < speechText.length) {
+      logTTSEvent('TEXT_CAPPED', { verbalizedLength: speechText.length, cappedLength: cleanText.length });
+    }
 
     logTTSEvent('GOOGLE_REQUEST_START', {
       voice: selectedVoice,
@@ -105,7 +141,7 @@ serve(async (req) => {
     const googleTTSRequest = {
       input: { text: cleanText },
       voice: {
-        languageCode: selectedVoice.startsWith('es-US') ? 'es-US' : 'es-ES',
+        languageCode,
         name: selectedVoice,
         ssmlGender: 'FEMALE'
       },
@@ -1,6 +1,13 @@
 
 import "https://deno.land/x/xhr@0.1.0/mod.ts";
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import {
+  TTS_TEXT_LIMITS,
+  capSpeechText,
+  resolveSpanishVariant,
+  verbalizeSpanishForSpeech,
+} from '../../../shared/spanishSpeech.ts';
+import { consumeRateLimit, getClientIp, rateLimitResponse } from '../_shared/rateLimiter.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -12,6 +19,8 @@ interface TTSRequest {
   lang?: string;
   voice?: string;
   speed?: number;
+  // Shopper session, for the per-session rate limit
+  sessionId?: string;
 }
 
 interface TTSResponse {
@@ -47,6 +56,13 @@ serve(async (req) => {
   try {
     // Parse and validate request
     requestData = await req.json();
+
+    // Every call spends provider credits, so throttle before doing any work
+    const rateLimit = await consumeRateLimit('openai-tts', { ip: getClientIp(req), sessionId: requestData.sessionId });
+    if (!rateLimit.allowed) {
+      logTTSEvent('RATE_LIMITED', { retryAfter: rateLimit.retryAfterSeconds, blockedBy: rateLimit.blockedBy });
+      return rateLimitResponse(rateLimit, corsHeaders, { fallbackRequired: true });
+    }
     
     logTTSEvent('REQUEST_RECEIVED', {
       textLength: requestData.text?.length || 0,
@@ -61,13 +77,22 @@ serve(async (req) => {
       throw new Error('Text is required and cannot be empty');
     }
 
+    // Checked on the text as sent, before any work on it; verbalizing only makes it longer
+    if (requestData.text.length > TTS_TEXT_LIMITS.openai.maxLength) {
+      logTTSEvent('TEXT_TOO_LONG', { 
+        originalLength: requestData.text.length,
+        maxLength: TTS_TEXT_LIMITS.openai.maxLength 
+      });
+      throw new Error('Text too long for TTS processing (max 4096 characters)');
+    }
+
     if (!OPENAI_API_KEY) {
       logTTSEvent('CONFIG_ERROR', { error: 'OpenAI API key not configured' });
       throw new Error('TTS service not properly configured');
     }
 
     // Clean and prepare text for TTS
-    const cleanText = requestData.text
+    const markdownFreeText = requestData.text
       .replace(/\*\*(.*?)\*\*/g, '$1') // Remove markdown bold
       .replace(/\*(.*?)\*/g, '$1')     // Remove markdown italic
       .replace(/`(.*?)`/g, '$1')       // Remove code backticks
@@ -76,12 +101,16 @@ serve(async (req) => {
       .replace(/\s+/g, ' ')            // Normalize whitespace
       .trim();
 
-    if (cleanText.length > 4096) {
-      logTTSEvent('TEXT_TOO_LONG', { 
-        originalLength: cleanText.length,
-        maxLength: 4096 
-      });
-      throw new Error('Text too long for TTS processing (max 4096 characters)');
+    // Prices, model codes and units read as words in the requested regional Spanish
+    const lang = requestData.lang || 'es';
+    const speechText = lang.startsWith('es')
+      ? verbalizeSpanishForSpeech(markdownFreeText, resolveSpanishVariant(lang))
+      : markdownFreeText;
+
+    // Words for prices and codes can push a text that fit over the limit; the end is left out
+    const cleanText = capSpeechText(speechText, TTS_TEXT_LIMITS.openai);
+    if (cleanText.length < speechText.length) {
+      logTTSEvent('TEXT_CAPPED', { verbalizedLength: speechText.length, cappedLength: cleanText.length });
     }
 
     // Determine optimal Spanish female voice
@@ -0,0 +1,150 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.51.0';
+import { consumeRateLimit, getClientIp, rateLimitResponse } from '../_shared/rateLimiter.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+// Signed resume links let a shopper continue a conversation on another device or after clearing storage
+const LINK_CONFIG = {
+  TTL_MS: 7 * 24 * 60 * 60 * 1000, // 7 days
+};
+
+interface ResumeTokenPayload {
+  c: string; // conversaciones.id
+  exp: number; // expiry, ms since epoch
+}
+
+type SessionLinkRequest =
+  | { action: 'create'; conversationId: string; sessionId: string }
+  | { action: 'resume'; token: string };
+
+function base64UrlEncode(bytes: Uint8Array): string {
+  return btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function base64UrlDecode(value: string): Uint8Array {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/').padEnd(Math.ceil(value.length / 4) * 4, '=');
+  return Uint8Array.from(atob(base64), char => char.charCodeAt(0));
+}
+
+async function getSigningKey(): Promise<CryptoKey> {
+  // Links are only signed with their own secret; without it no link is minted or accepted
+  const secret = Deno.env.get('SESSION_LINK_SECRET');
+  if (!secret) {
+    throw new Error('Session link secret not configured');
+  }
+  return crypto.subtle.importKey('raw', new TextEncoder().encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign', 'verify']);
+}
+
+async function signToken(payload: ResumeTokenPayload): Promise<string> {
+  const body = base64UrlEncode(new TextEncoder().encode(JSON.stringify(payload)));
+  const signature = await crypto.subtle.sign('HMAC', await getSigningKey(), new TextEncoder().encode(body));
+  return `${body}.${base64UrlEncode(new Uint8Array(signature))}`;
+}
+
+// Returns the payload only when the signature is valid and the link has not expired
+async function verifyToken(token: string): Promise<ResumeTokenPayload | null> {
+  const [body, signature] = (token || '').split('.');
+  if (!body || !signature) return null;
+
+  // Outside the try: a missing secret is a server error, not an invalid link
+  const key = await getSigningKey();
+  try {
+    const valid = await crypto.subtle.verify('HMAC', key, base64UrlDecode(signature), new TextEncoder().encode(body));
+    if (!valid) return null;
+
+    const payload = JSON.parse(new TextDecoder().decode(base64UrlDecode(body))) as ResumeTokenPayload;
+    if (typeof payload.c !== 'string' || typeof payload.exp !== 'number' || payload.exp < Date.now()) return null;
+    return payload;
+  } catch {
+    return null;
+  }
+}
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+}
+
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const request = await req.json() as SessionLinkRequest;
+
+    // Resume tokens are guessable only by brute force; the IP limit keeps that impractical
+    const rateLimit = await consumeRateLimit('session-link', {
+      ip: getClientIp(req),
+      sessionId: request.action === 'create' ? request.sessionId : undefined,
+    });
+    if (!rateLimit.allowed) {
+      return rateLimitResponse(rateLimit, corsHeaders);
+    }
+
+    // conversaciones.session_id is not readable with the anon key
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+    if (!serviceRoleKey) {
+      throw new Error('Service role key not configured');
+    }
+    const supabase = createClient(supabaseUrl, serviceRoleKey);
+
+    if (request.action === 'create') {
+      // Only the browser that owns the session can mint a link for its conversation
+      const { data: conversation } = await supabase
+        .from('conversaciones')
+        .select('id')
+        .eq('id', request.conversationId)
+        .eq('session_id', request.sessionId)
+        .maybeSingle();
+
+      if (!conversation) {
+        return jsonResponse({ success: false, error: 'Conversation not found' }, 404);
+      }
+
+      const expiresAt = Date.now() + LINK_CONFIG.TTL_MS;
+      const token = await signToken({ c: conversation.id, exp: expiresAt });
+      console.log('🔗 Resume link created for conversation', conversation.id);
+
+      return jsonResponse({ success: true, token, expiresAt: new Date(expiresAt).toISOString() });
+    }
+
+    if (request.action === 'resume') {
+      const payload = await verifyToken(request.token);
+      if (!payload) {
+        return jsonResponse({ success: false, error: 'Invalid or expired resume link' }, 400);
+      }
+
+      const { data: conversation, error } = await supabase
+        .from('conversaciones')
+        .select('id, session_id, ultimos_filtros')
+        .eq('id', payload.c)
+        .maybeSingle();
+
+      if (error || !conversation) {
+        return jsonResponse({ success: false, error: 'Conversation not found' }, 404);
+      }
+
+      console.log('🔗 Conversation resumed from link', conversation.id);
+      return jsonResponse({
+        success: true,
+        conversationId: conversation.id,
+        sessionId: conversation.session_id,
+        filters: conversation.ultimos_filtros ?? {},
+      });
+    }
+
+    return jsonResponse({ success: false, error: 'Unknown action' }, 400);
+  } catch (error) {
+    console.error('Error in session-link:', error);
+    return jsonResponse({ success: false, error: error.message }, 500);
+  }
+});
@@ -0,0 +1,29 @@
+-- Shared catalog filter used by both the product grid (useProducts) and the chat-assistant
+-- search_products tool, so the assistant validates against exactly what the grid renders.
+CREATE OR REPLACE FUNCTION public.search_productos(
+  p_categoria TEXT DEFAULT NULL,
+  p_precio_min NUMERIC DEFAULT NULL,
+  p_precio_max NUMERIC DEFAULT NULL,
+  p_search_term TEXT DEFAULT NULL
+)
+RETURNS SETOF public.productos
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH params AS (
+    SELECT
+      NULLIF(btrim(p_categoria), '') AS categoria,
+      -- Search term is matched literally: LIKE wildcards typed by the shopper are escaped
+      '%' || replace(replace(replace(NULLIF(btrim(p_search_term), ''), '\', '\\'), '%', '\%'), '_', '\_') || '%' AS pattern
+  )
+  SELECT p.*
+  FROM public.productos p, params
+  WHERE (params.categoria IS NULL OR p.categoria = params.categoria)
+    AND (p_precio_min IS NULL OR p.precio >= p_precio_min)
+    AND (p_precio_max IS NULL OR p.precio <= p_precio_max)
+    AND (params.pattern IS NULL OR p.nombre ILIKE params.pattern OR p.descripcion ILIKE params.pattern)
+  ORDER BY p.categoria, p.nombre;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.search_productos(TEXT, NUMERIC, NUMERIC, TEXT) TO anon, authenticated, service_role;
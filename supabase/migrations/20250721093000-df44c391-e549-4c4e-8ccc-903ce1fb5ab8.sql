@@ -0,0 +1,2 @@
+-- Stream new chat messages to clients through Supabase Realtime (useChat subscribes per conversation)
+ALTER PUBLICATION supabase_realtime ADD TABLE public.mensajes;
@@ -0,0 +1,28 @@
+-- Resumable shopper sessions: remember the last filters applied to the grid for each conversation
+ALTER TABLE public.conversaciones
+  ADD COLUMN IF NOT EXISTS ultimos_filtros JSONB,
+  ADD COLUMN IF NOT EXISTS updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now();
+
+-- Only the browser holding the conversation's session_id may update its filters
+CREATE OR REPLACE FUNCTION public.save_conversation_filters(
+  p_conversacion_id UUID,
+  p_session_id UUID,
+  p_filtros JSONB
+)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.conversaciones
+  SET ultimos_filtros = p_filtros,
+      updated_at = now()
+  WHERE id = p_conversacion_id
+    AND session_id = p_session_id;
+
+  RETURN FOUND;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.save_conversation_filters(UUID, UUID, JSONB) TO anon, authenticated;
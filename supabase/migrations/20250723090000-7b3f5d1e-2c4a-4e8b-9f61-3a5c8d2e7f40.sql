@@ -0,0 +1,120 @@
+-- Shopping cart: one cart per shopper session, filled from the product grid or by the assistant
+CREATE TABLE public.carritos (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  session_id UUID NOT NULL UNIQUE,
+  conversacion_id UUID REFERENCES public.conversaciones(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE TABLE public.carrito_items (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  carrito_id UUID NOT NULL REFERENCES public.carritos(id) ON DELETE CASCADE,
+  producto_id UUID NOT NULL REFERENCES public.productos(id) ON DELETE CASCADE,
+  cantidad INTEGER NOT NULL CHECK (cantidad > 0),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (carrito_id, producto_id)
+);
+
+CREATE INDEX idx_carritos_conversacion_id ON public.carritos(conversacion_id);
+CREATE INDEX idx_carrito_items_carrito_id ON public.carrito_items(carrito_id);
+
+ALTER TABLE public.carritos ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.carrito_items ENABLE ROW LEVEL SECURITY;
+
+-- Readable like the rest of the demo data; every write goes through the functions below
+CREATE POLICY "Allow public read access to carritos" ON public.carritos FOR SELECT USING (true);
+CREATE POLICY "Allow public read access to carrito_items" ON public.carrito_items FOR SELECT USING (true);
+
+-- Sets (p_modo = 'set') or adds to (p_modo = 'add') the quantity of a product in the session's cart.
+-- The resulting quantity is checked against cantidad_disponible; 0 or less removes the line.
+CREATE OR REPLACE FUNCTION public.update_cart_item(
+  p_session_id UUID,
+  p_producto_id UUID,
+  p_cantidad INTEGER,
+  p_modo TEXT DEFAULT 'set',
+  p_conversacion_id UUID DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_carrito_id UUID;
+  v_disponible INTEGER;
+  v_actual INTEGER;
+  v_nueva INTEGER;
+BEGIN
+  IF p_modo NOT IN ('set', 'add') THEN
+    RAISE EXCEPTION 'Invalid cart update mode: %', p_modo;
+  END IF;
+
+  SELECT cantidad_disponible INTO v_disponible
+  FROM public.productos
+  WHERE id = p_producto_id;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error', 'product_not_found');
+  END IF;
+
+  INSERT INTO public.carritos (session_id, conversacion_id)
+  VALUES (p_session_id, p_conversacion_id)
+  ON CONFLICT (session_id) DO UPDATE
+    SET conversacion_id = COALESCE(EXCLUDED.conversacion_id, public.carritos.conversacion_id),
+        updated_at = now()
+  RETURNING id INTO v_carrito_id;
+
+  -- Lock the line so two quick "add" clicks cannot both pass the stock check
+  SELECT cantidad INTO v_actual
+  FROM public.carrito_items
+  WHERE carrito_id = v_carrito_id AND producto_id = p_producto_id
+  FOR UPDATE;
+
+  v_nueva := CASE WHEN p_modo = 'add' THEN COALESCE(v_actual, 0) + p_cantidad ELSE p_cantidad END;
+
+  IF v_nueva > v_disponible THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'insufficient_stock',
+      'cantidad_disponible', v_disponible,
+      'cantidad_en_carrito', COALESCE(v_actual, 0)
+    );
+  END IF;
+
+  IF v_nueva <= 0 THEN
+    DELETE FROM public.carrito_items
+    WHERE carrito_id = v_carrito_id AND producto_id = p_producto_id;
+  ELSE
+    INSERT INTO public.carrito_items (carrito_id, producto_id, cantidad)
+    VALUES (v_carrito_id, p_producto_id, v_nueva)
+    ON CONFLICT (carrito_id, producto_id) DO UPDATE
+      SET cantidad = EXCLUDED.cantidad,
+          updated_at = now();
+  END IF;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'cantidad', GREATEST(v_nueva, 0),
+    'cantidad_disponible', v_disponible
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.clear_cart(p_session_id UUID)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  DELETE FROM public.carrito_items
+  WHERE carrito_id IN (SELECT id FROM public.carritos WHERE session_id = p_session_id);
+
+  RETURN FOUND;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.update_cart_item(UUID, UUID, INTEGER, TEXT, UUID) TO anon, authenticated, service_role;
+GRANT EXECUTE ON FUNCTION public.clear_cart(UUID) TO anon, authenticated, service_role;
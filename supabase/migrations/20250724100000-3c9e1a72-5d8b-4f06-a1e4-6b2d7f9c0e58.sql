@@ -0,0 +1,220 @@
+-- Orders: created from the session cart by the checkout edge function
+CREATE TABLE public.pedidos (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  numero BIGINT GENERATED ALWAYS AS IDENTITY (START WITH 1001) UNIQUE,
+  session_id UUID NOT NULL,
+  conversacion_id UUID REFERENCES public.conversaciones(id) ON DELETE SET NULL,
+  cliente_nombre TEXT NOT NULL,
+  cliente_email TEXT NOT NULL,
+  estado TEXT NOT NULL DEFAULT 'pendiente_pago' CHECK (estado IN ('pendiente_pago', 'pagado', 'cancelado')),
+  total DECIMAL(10,2) NOT NULL CHECK (total >= 0),
+  moneda TEXT NOT NULL DEFAULT 'USD',
+  pago_proveedor TEXT,
+  pago_referencia TEXT,
+  motivo_cancelacion TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Name and price are copied so the order keeps what the shopper paid even if the catalog changes
+CREATE TABLE public.pedido_items (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  pedido_id UUID NOT NULL REFERENCES public.pedidos(id) ON DELETE CASCADE,
+  producto_id UUID REFERENCES public.productos(id) ON DELETE SET NULL,
+  nombre TEXT NOT NULL,
+  precio_unitario DECIMAL(10,2) NOT NULL,
+  cantidad INTEGER NOT NULL CHECK (cantidad > 0),
+  subtotal DECIMAL(10,2) NOT NULL
+);
+
+CREATE INDEX idx_pedidos_session_id ON public.pedidos(session_id);
+CREATE INDEX idx_pedido_items_pedido_id ON public.pedido_items(pedido_id);
+
+-- Orders hold customer contact details, so there are no public policies:
+-- the checkout function writes them and get_order reads them for the owning session
+ALTER TABLE public.pedidos ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.pedido_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view pedidos" ON public.pedidos FOR SELECT USING (public.is_admin(auth.uid()));
+CREATE POLICY "Admins can view pedido_items" ON public.pedido_items FOR SELECT USING (public.is_admin(auth.uid()));
+
+-- Turns the session cart into a 'pendiente_pago' order. Stock of every product is locked,
+-- validated and decremented in one transaction: either the whole cart is reserved or nothing is.
+CREATE OR REPLACE FUNCTION public.create_order_from_cart(
+  p_session_id UUID,
+  p_cliente_nombre TEXT,
+  p_cliente_email TEXT,
+  p_conversacion_id UUID DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_pedido_id UUID;
+  v_numero BIGINT;
+  v_total NUMERIC;
+  v_faltantes JSONB;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1
+    FROM public.carrito_items ci
+    JOIN public.carritos c ON c.id = ci.carrito_id
+    WHERE c.session_id = p_session_id
+  ) THEN
+    RETURN jsonb_build_object('success', false, 'error', 'empty_cart');
+  END IF;
+
+  -- Lock in id order so concurrent checkouts sharing products cannot deadlock
+  PERFORM 1
+  FROM public.productos
+  WHERE id IN (
+    SELECT ci.producto_id
+    FROM public.carrito_items ci
+    JOIN public.carritos c ON c.id = ci.carrito_id
+    WHERE c.session_id = p_session_id
+  )
+  ORDER BY id
+  FOR UPDATE;
+
+  SELECT jsonb_agg(jsonb_build_object(
+    'producto_id', p.id,
+    'nombre', p.nombre,
+    'cantidad_solicitada', ci.cantidad,
+    'cantidad_disponible', p.cantidad_disponible
+  ))
+  INTO v_faltantes
+  FROM public.carrito_items ci
+  JOIN public.carritos c ON c.id = ci.carrito_id
+  JOIN public.productos p ON p.id = ci.producto_id
+  WHERE c.session_id = p_session_id
+    AND ci.cantidad > p.cantidad_disponible;
+
+  IF v_faltantes IS NOT NULL THEN
+    RETURN jsonb_build_object('success', false, 'error', 'insufficient_stock', 'items', v_faltantes);
+  END IF;
+
+  SELECT SUM(p.precio * ci.cantidad)
+  INTO v_total
+  FROM public.carrito_items ci
+  JOIN public.carritos c ON c.id = ci.carrito_id
+  JOIN public.productos p ON p.id = ci.producto_id
+  WHERE c.session_id = p_session_id;
+
+  INSERT INTO public.pedidos (session_id, conversacion_id, cliente_nombre, cliente_email, total)
+  VALUES (p_session_id, p_conversacion_id, p_cliente_nombre, p_cliente_email, v_total)
+  RETURNING id, numero INTO v_pedido_id, v_numero;
+
+  INSERT INTO public.pedido_items (pedido_id, producto_id, nombre, precio_unitario, cantidad, subtotal)
+  SELECT v_pedido_id, p.id, p.nombre, p.precio, ci.cantidad, p.precio * ci.cantidad
+  FROM public.carrito_items ci
+  JOIN public.carritos c ON c.id = ci.carrito_id
+  JOIN public.productos p ON p.id = ci.producto_id
+  WHERE c.session_id = p_session_id;
+
+  UPDATE public.productos p
+  SET cantidad_disponible = p.cantidad_disponible - pi.cantidad
+  FROM public.pedido_items pi
+  WHERE pi.pedido_id = v_pedido_id
+    AND pi.producto_id = p.id;
+
+  RETURN jsonb_build_object('success', true, 'pedido_id', v_pedido_id, 'numero', v_numero, 'total', v_total);
+END;
+$$;
+
+-- Payment approved: the order is final and the ordered products leave the cart
+CREATE OR REPLACE FUNCTION public.confirm_order_payment(
+  p_pedido_id UUID,
+  p_pago_proveedor TEXT,
+  p_pago_referencia TEXT
+)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_session_id UUID;
+BEGIN
+  UPDATE public.pedidos
+  SET estado = 'pagado',
+      pago_proveedor = p_pago_proveedor,
+      pago_referencia = p_pago_referencia,
+      updated_at = now()
+  WHERE id = p_pedido_id AND estado = 'pendiente_pago'
+  RETURNING session_id INTO v_session_id;
+
+  IF NOT FOUND THEN
+    RETURN false;
+  END IF;
+
+  DELETE FROM public.carrito_items ci
+  USING public.carritos c
+  WHERE c.id = ci.carrito_id
+    AND c.session_id = v_session_id
+    AND ci.producto_id IN (SELECT producto_id FROM public.pedido_items WHERE pedido_id = p_pedido_id);
+
+  RETURN true;
+END;
+$$;
+
+-- Payment declined or abandoned: the reserved stock goes back to the catalog
+CREATE OR REPLACE FUNCTION public.cancel_order(
+  p_pedido_id UUID,
+  p_motivo TEXT DEFAULT NULL
+)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.pedidos
+  SET estado = 'cancelado',
+      motivo_cancelacion = p_motivo,
+      updated_at = now()
+  WHERE id = p_pedido_id AND estado = 'pendiente_pago';
+
+  IF NOT FOUND THEN
+    RETURN false;
+  END IF;
+
+  UPDATE public.productos p
+  SET cantidad_disponible = p.cantidad_disponible + pi.cantidad
+  FROM public.pedido_items pi
+  WHERE pi.pedido_id = p_pedido_id
+    AND pi.producto_id = p.id;
+
+  RETURN true;
+END;
+$$;
+
+-- Order with its items for the confirmation page; only the session that placed it can read it
+CREATE OR REPLACE FUNCTION public.get_order(p_pedido_id UUID, p_session_id UUID)
+RETURNS JSONB
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT to_jsonb(o) || jsonb_build_object(
+    'items',
+    COALESCE((
+      SELECT jsonb_agg(to_jsonb(pi) ORDER BY pi.nombre)
+      FROM public.pedido_items pi
+      WHERE pi.pedido_id = o.id
+    ), '[]'::jsonb)
+  )
+  FROM public.pedidos o
+  WHERE o.id = p_pedido_id AND o.session_id = p_session_id;
+$$;
+
+-- Orders are only created and settled by the checkout edge function (service role)
+REVOKE EXECUTE ON FUNCTION public.create_order_from_cart(UUID, TEXT, TEXT, UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.confirm_order_payment(UUID, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.cancel_order(UUID, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.create_order_from_cart(UUID, TEXT, TEXT, UUID) TO service_role;
+GRANT EXECUTE ON FUNCTION public.confirm_order_payment(UUID, TEXT, TEXT) TO service_role;
+GRANT EXECUTE ON FUNCTION public.cancel_order(UUID, TEXT) TO service_role;
+GRANT EXECUTE ON FUNCTION public.get_order(UUID, UUID) TO anon, authenticated, service_role;
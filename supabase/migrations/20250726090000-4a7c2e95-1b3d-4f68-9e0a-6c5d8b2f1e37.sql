@@ -0,0 +1,3 @@
+-- Structured extras for bot messages: referenced product ids and follow-up quick replies
+-- ({"productIds": [...], "quickReplies": [...]}); NULL for plain-text messages
+ALTER TABLE public.mensajes ADD COLUMN payload JSONB;
@@ -0,0 +1,106 @@
+-- Typo-tolerant, accent-insensitive catalog search behind search_productos.
+-- A term now matches a product when any of these hold (all on unaccented, lower-cased text):
+--   * Spanish full-text search: stemmed words, so "televisores" finds "televisor" and "cámara" finds "camara"
+--   * the old substring match, so partially typed words ("sams") keep working
+--   * trigram word similarity, so typos like "telvisor" still find "televisor"
+-- Matches are ranked by relevance; without a term the grid keeps its category/name order.
+CREATE EXTENSION IF NOT EXISTS unaccent WITH SCHEMA extensions;
+CREATE EXTENSION IF NOT EXISTS pg_trgm WITH SCHEMA extensions;
+
+-- unaccent() is only STABLE because it looks its dictionary up at run time; naming the dictionary
+-- explicitly makes it safe to use in index expressions
+CREATE OR REPLACE FUNCTION public.unaccent_immutable(p_text TEXT)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+PARALLEL SAFE
+STRICT
+SET search_path = public
+AS $$
+  SELECT extensions.unaccent('extensions.unaccent'::regdictionary, p_text);
+$$;
+
+-- Spanish stemming over unaccented words
+CREATE TEXT SEARCH CONFIGURATION public.spanish_unaccent (COPY = pg_catalog.spanish);
+ALTER TEXT SEARCH CONFIGURATION public.spanish_unaccent
+  ALTER MAPPING FOR hword, hword_part, word WITH extensions.unaccent, spanish_stem;
+
+-- Weighted document: name matches outrank category matches, which outrank description matches
+CREATE OR REPLACE FUNCTION public.producto_search_document(p_nombre TEXT, p_descripcion TEXT, p_categoria TEXT)
+RETURNS tsvector
+LANGUAGE sql
+IMMUTABLE
+PARALLEL SAFE
+SET search_path = public
+AS $$
+  SELECT setweight(to_tsvector('public.spanish_unaccent'::regconfig, coalesce(p_nombre, '')), 'A')
+      || setweight(to_tsvector('public.spanish_unaccent'::regconfig, coalesce(p_categoria, '')), 'B')
+      || setweight(to_tsvector('public.spanish_unaccent'::regconfig, coalesce(p_descripcion, '')), 'C');
+$$;
+
+-- Plain text for substring and trigram matching
+CREATE OR REPLACE FUNCTION public.producto_search_text(p_nombre TEXT, p_descripcion TEXT, p_categoria TEXT)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+PARALLEL SAFE
+SET search_path = public
+AS $$
+  SELECT lower(public.unaccent_immutable(concat_ws(' ', p_nombre, p_categoria, p_descripcion)));
+$$;
+
+CREATE INDEX idx_productos_search_document
+  ON public.productos USING GIN (public.producto_search_document(nombre, descripcion, categoria));
+CREATE INDEX idx_productos_search_text
+  ON public.productos USING GIN (public.producto_search_text(nombre, descripcion, categoria) extensions.gin_trgm_ops);
+
+-- Same signature and result type as before, so useProducts and chat-assistant keep calling it unchanged
+CREATE OR REPLACE FUNCTION public.search_productos(
+  p_categoria TEXT DEFAULT NULL,
+  p_precio_min NUMERIC DEFAULT NULL,
+  p_precio_max NUMERIC DEFAULT NULL,
+  p_search_term TEXT DEFAULT NULL
+)
+RETURNS SETOF public.productos
+LANGUAGE sql
+STABLE
+SET search_path = public, extensions
+AS $$
+  WITH params AS (
+    SELECT
+      NULLIF(btrim(p_categoria), '') AS categoria,
+      lower(public.unaccent_immutable(NULLIF(btrim(p_search_term), ''))) AS term
+  ),
+  query AS (
+    SELECT
+      params.categoria,
+      params.term,
+      -- Any word may match; products matching more of them rank higher. NULL when the term only has stopwords
+      NULLIF(replace(plainto_tsquery('public.spanish_unaccent'::regconfig, params.term)::TEXT, ' & ', ' | '), '')::tsquery AS words,
+      -- Search term is matched literally: LIKE wildcards typed by the shopper are escaped
+      '%' || replace(replace(replace(params.term, '\', '\\'), '%', '\%'), '_', '\_') || '%' AS pattern
+    FROM params
+  )
+  SELECT p.*
+  FROM public.productos p, query q
+  WHERE (q.categoria IS NULL OR p.categoria = q.categoria)
+    AND (p_precio_min IS NULL OR p.precio >= p_precio_min)
+    AND (p_precio_max IS NULL OR p.precio <= p_precio_max)
+    AND (
+      q.term IS NULL
+      OR public.producto_search_document(p.nombre, p.descripcion, p.categoria) @@ q.words
+      OR public.producto_search_text(p.nombre, p.descripcion, p.categoria) LIKE q.pattern
+      -- Trigram word similarity above pg_trgm.word_similarity_threshold (0.6 by default)
+      OR q.term <% public.producto_search_text(p.nombre, p.descripcion, p.categoria)
+    )
+  ORDER BY
+    CASE
+      WHEN q.term IS NULL THEN 0
+      ELSE coalesce(ts_rank_cd(public.producto_search_document(p.nombre, p.descripcion, p.categoria), q.words), 0)
+        + word_similarity(q.term, public.producto_search_text(p.nombre, p.descripcion, p.categoria))
+    END DESC,
+    p.categoria,
+    p.nombre;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.search_productos(TEXT, NUMERIC, NUMERIC, TEXT) TO anon, authenticated, service_role;
@@ -0,0 +1,128 @@
+-- Faceted navigation for the product grid: several categories at once, an "en stock" filter and
+-- get_product_facets, which counts products per category, price bucket and stock status.
+
+-- New optional filters; the old signature is dropped so named calls without them stay unambiguous
+DROP FUNCTION IF EXISTS public.search_productos(TEXT, NUMERIC, NUMERIC, TEXT);
+
+CREATE OR REPLACE FUNCTION public.search_productos(
+  p_categoria TEXT DEFAULT NULL,
+  p_precio_min NUMERIC DEFAULT NULL,
+  p_precio_max NUMERIC DEFAULT NULL,
+  p_search_term TEXT DEFAULT NULL,
+  p_categorias TEXT[] DEFAULT NULL,
+  p_solo_en_stock BOOLEAN DEFAULT NULL
+)
+RETURNS SETOF public.productos
+LANGUAGE sql
+STABLE
+SET search_path = public, extensions
+AS $$
+  WITH params AS (
+    SELECT
+      NULLIF(btrim(p_categoria), '') AS categoria,
+      NULLIF(array_remove(p_categorias, NULL), '{}') AS categorias,
+      lower(public.unaccent_immutable(NULLIF(btrim(p_search_term), ''))) AS term
+  ),
+  query AS (
+    SELECT
+      params.categoria,
+      params.categorias,
+      params.term,
+      -- Any word may match; products matching more of them rank higher. NULL when the term only has stopwords
+      NULLIF(replace(plainto_tsquery('public.spanish_unaccent'::regconfig, params.term)::TEXT, ' & ', ' | '), '')::tsquery AS words,
+      -- Search term is matched literally: LIKE wildcards typed by the shopper are escaped
+      '%' || replace(replace(replace(params.term, '\', '\\'), '%', '\%'), '_', '\_') || '%' AS pattern
+    FROM params
+  )
+  SELECT p.*
+  FROM public.productos p, query q
+  WHERE (q.categoria IS NULL OR p.categoria = q.categoria)
+    AND (q.categorias IS NULL OR p.categoria = ANY(q.categorias))
+    AND (p_precio_min IS NULL OR p.precio >= p_precio_min)
+    AND (p_precio_max IS NULL OR p.precio <= p_precio_max)
+    AND (p_solo_en_stock IS NOT TRUE OR p.cantidad_disponible > 0)
+    AND (
+      q.term IS NULL
+      OR public.producto_search_document(p.nombre, p.descripcion, p.categoria) @@ q.words
+      OR public.producto_search_text(p.nombre, p.descripcion, p.categoria) LIKE q.pattern
+      -- Trigram word similarity above pg_trgm.word_similarity_threshold (0.6 by default)
+      OR q.term <% public.producto_search_text(p.nombre, p.descripcion, p.categoria)
+    )
+  ORDER BY
+    CASE
+      WHEN q.term IS NULL THEN 0
+      ELSE coalesce(ts_rank_cd(public.producto_search_document(p.nombre, p.descripcion, p.categoria), q.words), 0)
+        + word_similarity(q.term, public.producto_search_text(p.nombre, p.descripcion, p.categoria))
+    END DESC,
+    p.categoria,
+    p.nombre;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.search_productos(TEXT, NUMERIC, NUMERIC, TEXT, TEXT[], BOOLEAN) TO anon, authenticated, service_role;
+
+-- Counts for the facet sidebar under the current filters. Each facet is counted with every filter
+-- except its own, so choosing a category still shows how many products the other categories have.
+-- Price buckets include their lower bound and exclude the upper one (max NULL = no upper bound).
+CREATE OR REPLACE FUNCTION public.get_product_facets(
+  p_categoria TEXT DEFAULT NULL,
+  p_precio_min NUMERIC DEFAULT NULL,
+  p_precio_max NUMERIC DEFAULT NULL,
+  p_search_term TEXT DEFAULT NULL,
+  p_categorias TEXT[] DEFAULT NULL,
+  p_solo_en_stock BOOLEAN DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH matching AS (
+    SELECT id FROM public.search_productos(p_categoria, p_precio_min, p_precio_max, p_search_term, p_categorias, p_solo_en_stock)
+  ),
+  any_category AS (
+    SELECT categoria FROM public.search_productos(NULL, p_precio_min, p_precio_max, p_search_term, NULL, p_solo_en_stock)
+  ),
+  any_price AS (
+    SELECT precio FROM public.search_productos(p_categoria, NULL, NULL, p_search_term, p_categorias, p_solo_en_stock)
+  ),
+  any_stock AS (
+    SELECT cantidad_disponible FROM public.search_productos(p_categoria, p_precio_min, p_precio_max, p_search_term, p_categorias, NULL)
+  ),
+  buckets (min, max) AS (
+    VALUES (0::NUMERIC, 100::NUMERIC), (100, 250), (250, 500), (500, 1000), (1000, NULL)
+  )
+  SELECT jsonb_build_object(
+    'total', (SELECT count(*) FROM matching),
+    -- Every catalog category is listed, with 0 when none of its products match
+    'categories', (
+      SELECT coalesce(jsonb_agg(jsonb_build_object('categoria', c.categoria, 'count', c.total) ORDER BY c.categoria), '[]'::JSONB)
+      FROM (
+        SELECT catalog.categoria, (SELECT count(*) FROM any_category a WHERE a.categoria = catalog.categoria) AS total
+        FROM (SELECT DISTINCT categoria FROM public.productos) catalog
+      ) c
+    ),
+    'priceBuckets', (
+      SELECT jsonb_agg(jsonb_build_object(
+        'min', b.min,
+        'max', b.max,
+        'count', (SELECT count(*) FROM any_price p WHERE p.precio >= b.min AND (b.max IS NULL OR p.precio < b.max))
+      ) ORDER BY b.min)
+      FROM buckets b
+    ),
+    -- Bounds for the price slider; NULL when nothing matches
+    'priceRange', (
+      SELECT CASE WHEN count(*) = 0 THEN NULL
+        ELSE jsonb_build_object('min', floor(min(precio)), 'max', ceil(max(precio))) END
+      FROM any_price
+    ),
+    'stock', (
+      SELECT jsonb_build_object(
+        'inStock', count(*) FILTER (WHERE cantidad_disponible > 0),
+        'outOfStock', count(*) FILTER (WHERE cantidad_disponible <= 0)
+      )
+      FROM any_stock
+    )
+  );
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_product_facets(TEXT, NUMERIC, NUMERIC, TEXT, TEXT[], BOOLEAN) TO anon, authenticated, service_role;
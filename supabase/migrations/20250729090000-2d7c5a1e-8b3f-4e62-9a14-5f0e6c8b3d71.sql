@@ -0,0 +1,75 @@
+-- One page of the product grid: the search_productos filters plus a sort order and keyset pagination,
+-- so the browser no longer downloads the whole catalog.
+--
+-- p_sort: relevance (default; search_productos order), price_asc, price_desc, name, newest, stock
+-- p_cursor: the nextCursor of the previous page, NULL for the first page
+-- Returns {"items": [productos rows], "nextCursor": {...} | null}
+--
+-- Every sort is mapped onto one ascending key (sort_num, sort_text, id) - descending orders negate the
+-- number - so a single row comparison continues after the cursor. Relevance uses the position in the
+-- ranked search result, so a relevance cursor is only meaningful while the catalog does not change.
+CREATE OR REPLACE FUNCTION public.search_productos_page(
+  p_categoria TEXT DEFAULT NULL,
+  p_precio_min NUMERIC DEFAULT NULL,
+  p_precio_max NUMERIC DEFAULT NULL,
+  p_search_term TEXT DEFAULT NULL,
+  p_categorias TEXT[] DEFAULT NULL,
+  p_solo_en_stock BOOLEAN DEFAULT NULL,
+  p_sort TEXT DEFAULT 'relevance',
+  p_cursor JSONB DEFAULT NULL,
+  p_limit INTEGER DEFAULT 24
+)
+RETURNS JSONB
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH opts AS (
+    SELECT LEAST(GREATEST(coalesce(p_limit, 24), 1), 100) AS page_size
+  ),
+  keyed AS (
+    SELECT
+      to_jsonb(r) - 'ordinality' AS item,
+      r.id,
+      CASE p_sort
+        WHEN 'price_asc' THEN r.precio
+        WHEN 'price_desc' THEN -r.precio
+        WHEN 'newest' THEN -extract(epoch FROM r.created_at)::NUMERIC
+        WHEN 'stock' THEN -r.cantidad_disponible::NUMERIC
+        WHEN 'name' THEN 0
+        ELSE r.ordinality::NUMERIC
+      END AS sort_num,
+      CASE p_sort WHEN 'name' THEN lower(r.nombre) ELSE '' END AS sort_text
+    FROM public.search_productos(p_categoria, p_precio_min, p_precio_max, p_search_term, p_categorias, p_solo_en_stock)
+      WITH ORDINALITY AS r
+  ),
+  -- One row more than a page tells whether there is a next page
+  page AS (
+    SELECT keyed.*
+    FROM keyed
+    WHERE p_cursor IS NULL
+       OR (keyed.sort_num, keyed.sort_text, keyed.id)
+          > ((p_cursor->>'n')::NUMERIC, p_cursor->>'t', (p_cursor->>'id')::UUID)
+    ORDER BY keyed.sort_num, keyed.sort_text, keyed.id
+    LIMIT (SELECT page_size + 1 FROM opts)
+  ),
+  numbered AS (
+    SELECT page.*, row_number() OVER (ORDER BY page.sort_num, page.sort_text, page.id) AS position
+    FROM page
+  )
+  SELECT jsonb_build_object(
+    'items', coalesce(
+      (SELECT jsonb_agg(n.item ORDER BY n.position) FROM numbered n, opts WHERE n.position <= opts.page_size),
+      '[]'::JSONB
+    ),
+    'nextCursor', (
+      SELECT jsonb_build_object('n', n.sort_num, 't', n.sort_text, 'id', n.id)
+      FROM numbered n, opts
+      WHERE n.position = opts.page_size
+        AND EXISTS (SELECT 1 FROM numbered later WHERE later.position > opts.page_size)
+    )
+  );
+$$;
+
+GRANT EXECUTE ON FUNCTION public.search_productos_page(TEXT, NUMERIC, NUMERIC, TEXT, TEXT[], BOOLEAN, TEXT, JSONB, INTEGER)
+  TO anon, authenticated, service_role;
@@ -0,0 +1,30 @@
+-- Catalog overview for chat-assistant: product counts, stock and prices per category, so the assistant
+-- can describe the whole catalog without reading every row. Medians are the lower median (percentile_disc).
+-- Returns {"total": n, "precio_mediana": m, "categorias": [{categoria, productos, en_stock, precio_min, precio_max, precio_mediana}]}
+CREATE OR REPLACE FUNCTION public.get_catalog_overview()
+RETURNS JSONB
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT jsonb_build_object(
+    'total', (SELECT count(*) FROM public.productos),
+    'precio_mediana', (SELECT percentile_disc(0.5) WITHIN GROUP (ORDER BY precio) FROM public.productos),
+    'categorias', (
+      SELECT coalesce(jsonb_agg(to_jsonb(c) ORDER BY c.categoria), '[]'::JSONB)
+      FROM (
+        SELECT
+          categoria,
+          count(*) AS productos,
+          count(*) FILTER (WHERE cantidad_disponible > 0) AS en_stock,
+          min(precio) AS precio_min,
+          max(precio) AS precio_max,
+          percentile_disc(0.5) WITHIN GROUP (ORDER BY precio) AS precio_mediana
+        FROM public.productos
+        GROUP BY categoria
+      ) c
+    )
+  );
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_catalog_overview() TO anon, authenticated, service_role;
@@ -0,0 +1,78 @@
+-- code-generator counts requests through consume_rate_limit (edge_rate_limits) now; its own table is unused
+DROP TABLE IF EXISTS public.code_generation_rate_limits;
+
+-- consume_rate_limit also reports the requests left in the tightest window and when that window resets
+-- (epoch seconds), for X-RateLimit-Remaining / X-RateLimit-Reset headers. Same rules and counting as before.
+CREATE OR REPLACE FUNCTION public.consume_rate_limit(
+  p_function_name TEXT,
+  p_rules JSONB
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_rule RECORD;
+  v_window_start TIMESTAMP WITH TIME ZONE;
+  v_count INTEGER;
+  v_wait INTEGER;
+  v_retry_after INTEGER := 0;
+  v_blocked JSONB := NULL;
+  v_remaining INTEGER := NULL;
+  v_reset_at TIMESTAMP WITH TIME ZONE := NULL;
+BEGIN
+  -- Expired windows for these identifiers are dropped as we go, keeping the table small
+  DELETE FROM public.edge_rate_limits
+  WHERE function_name = p_function_name
+    AND identifier IN (SELECT r->>'identifier' FROM jsonb_array_elements(p_rules) r)
+    AND window_start + make_interval(secs => window_seconds) <= now();
+
+  -- Same row order in every call so concurrent requests do not deadlock
+  FOR v_rule IN
+    SELECT r->>'identifier' AS identifier,
+           (r->>'window_seconds')::INTEGER AS window_seconds,
+           (r->>'max_requests')::INTEGER AS max_requests
+    FROM jsonb_array_elements(p_rules) r
+    ORDER BY 1, 2
+  LOOP
+    v_window_start := to_timestamp(floor(extract(epoch FROM now()) / v_rule.window_seconds) * v_rule.window_seconds);
+
+    INSERT INTO public.edge_rate_limits (function_name, identifier, window_seconds, window_start, request_count)
+    VALUES (p_function_name, v_rule.identifier, v_rule.window_seconds, v_window_start, 1)
+    ON CONFLICT (function_name, identifier, window_seconds, window_start)
+    DO UPDATE SET request_count = public.edge_rate_limits.request_count + 1
+    RETURNING request_count INTO v_count;
+
+    -- The rule closest to its limit sets what is left and when it frees up
+    IF v_remaining IS NULL OR v_rule.max_requests - v_count < v_remaining THEN
+      v_remaining := v_rule.max_requests - v_count;
+      v_reset_at := v_window_start + make_interval(secs => v_rule.window_seconds);
+    END IF;
+
+    IF v_count > v_rule.max_requests THEN
+      -- The longest wait wins when several rules are exceeded
+      v_wait := GREATEST(1, ceil(extract(epoch FROM (v_window_start + make_interval(secs => v_rule.window_seconds) - now())))::INTEGER);
+      IF v_wait > v_retry_after THEN
+        v_retry_after := v_wait;
+        v_blocked := jsonb_build_object(
+          'identifier', v_rule.identifier,
+          'window_seconds', v_rule.window_seconds,
+          'max_requests', v_rule.max_requests
+        );
+      END IF;
+    END IF;
+  END LOOP;
+
+  RETURN jsonb_build_object(
+    'allowed', v_blocked IS NULL,
+    'retry_after', v_retry_after,
+    'blocked_by', v_blocked,
+    'remaining', GREATEST(0, v_remaining),
+    'reset_at', floor(extract(epoch FROM v_reset_at))::BIGINT
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.consume_rate_limit(TEXT, JSONB) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.consume_rate_limit(TEXT, JSONB) TO service_role;
@@ -0,0 +1,49 @@
+-- Carts and session ids are private to the session that owns them. A session id is the only key to its
+-- cart (update_cart_item, create_order_from_cart), so neither carts nor conversaciones.session_id can be
+-- readable by everyone: shoppers read their own cart and conversation through the functions below.
+DROP POLICY IF EXISTS "Allow public read access to carritos" ON public.carritos;
+DROP POLICY IF EXISTS "Allow public read access to carrito_items" ON public.carrito_items;
+
+-- Every column but session_id stays readable (the app reads the id back when it creates a conversation)
+REVOKE SELECT ON public.conversaciones FROM anon, authenticated;
+GRANT SELECT (id, started_at, updated_at, ultimos_filtros) ON public.conversaciones TO anon, authenticated;
+
+-- Items of the session's cart, oldest first, each with its full productos row:
+-- [{"id": ..., "cantidad": 2, "created_at": ..., "producto": {...}}, ...]
+CREATE OR REPLACE FUNCTION public.get_cart(p_session_id UUID)
+RETURNS JSONB
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(jsonb_agg(
+    jsonb_build_object(
+      'id', ci.id,
+      'cantidad', ci.cantidad,
+      'created_at', ci.created_at,
+      'producto', to_jsonb(p)
+    )
+    ORDER BY ci.created_at
+  ), '[]'::JSONB)
+  FROM public.carritos c
+  JOIN public.carrito_items ci ON ci.carrito_id = c.id
+  JOIN public.productos p ON p.id = ci.producto_id
+  WHERE c.session_id = p_session_id;
+$$;
+
+-- {"id", "ultimos_filtros"} of the conversation when it belongs to the session, NULL otherwise
+CREATE OR REPLACE FUNCTION public.get_session_conversation(p_conversacion_id UUID, p_session_id UUID)
+RETURNS JSONB
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT jsonb_build_object('id', id, 'ultimos_filtros', ultimos_filtros)
+  FROM public.conversaciones
+  WHERE id = p_conversacion_id AND session_id = p_session_id;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_cart(UUID) TO anon, authenticated, service_role;
+GRANT EXECUTE ON FUNCTION public.get_session_conversation(UUID, UUID) TO anon, authenticated, service_role;
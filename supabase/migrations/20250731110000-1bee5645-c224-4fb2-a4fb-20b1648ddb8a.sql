@@ -0,0 +1,98 @@
+-- A checkout submitted twice (double click, two tabs, a retried request) reserved the stock twice: both
+-- calls saw the same cart because nothing changes it until the payment is confirmed. The cart row is now
+-- locked first, so calls for one session run one after the other, and a session with an order still
+-- waiting for its payment gets that order back ('order_pending') instead of a second one.
+-- Same signature, so the grants of create_order_from_cart are kept.
+CREATE OR REPLACE FUNCTION public.create_order_from_cart(
+  p_session_id UUID,
+  p_cliente_nombre TEXT,
+  p_cliente_email TEXT,
+  p_conversacion_id UUID DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_carrito_id UUID;
+  v_pedido_id UUID;
+  v_numero BIGINT;
+  v_total NUMERIC;
+  v_faltantes JSONB;
+BEGIN
+  -- Also holds back cart edits (update_cart_item locks the same row) until the order is created
+  SELECT id INTO v_carrito_id
+  FROM public.carritos
+  WHERE session_id = p_session_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error', 'empty_cart');
+  END IF;
+
+  SELECT id, numero, total INTO v_pedido_id, v_numero, v_total
+  FROM public.pedidos
+  WHERE session_id = p_session_id AND estado = 'pendiente_pago'
+  ORDER BY created_at DESC
+  LIMIT 1;
+
+  IF FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error', 'order_pending', 'pedido_id', v_pedido_id, 'numero', v_numero, 'total', v_total);
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.carrito_items WHERE carrito_id = v_carrito_id) THEN
+    RETURN jsonb_build_object('success', false, 'error', 'empty_cart');
+  END IF;
+
+  -- Lock in id order so concurrent checkouts sharing products cannot deadlock
+  PERFORM 1
+  FROM public.productos
+  WHERE id IN (SELECT producto_id FROM public.carrito_items WHERE carrito_id = v_carrito_id)
+  ORDER BY id
+  FOR UPDATE;
+
+  SELECT jsonb_agg(jsonb_build_object(
+    'producto_id', p.id,
+    'nombre', p.nombre,
+    'cantidad_solicitada', ci.cantidad,
+    'cantidad_disponible', p.cantidad_disponible
+  ))
+  INTO v_faltantes
+  FROM public.carrito_items ci
+  JOIN public.productos p ON p.id = ci.producto_id
+  WHERE ci.carrito_id = v_carrito_id
+    AND ci.cantidad > p.cantidad_disponible;
+
+  IF v_faltantes IS NOT NULL THEN
+    RETURN jsonb_build_object('success', false, 'error', 'insufficient_stock', 'items', v_faltantes);
+  END IF;
+
+  SELECT SUM(p.precio * ci.cantidad)
+  INTO v_total
+  FROM public.carrito_items ci
+  JOIN public.productos p ON p.id = ci.producto_id
+  WHERE ci.carrito_id = v_carrito_id;
+
+  INSERT INTO public.pedidos (session_id, conversacion_id, cliente_nombre, cliente_email, total)
+  VALUES (p_session_id, p_conversacion_id, p_cliente_nombre, p_cliente_email, v_total)
+  RETURNING id, numero INTO v_pedido_id, v_numero;
+
+  INSERT INTO public.pedido_items (pedido_id, producto_id, nombre, precio_unitario, cantidad, subtotal)
+  SELECT v_pedido_id, p.id, p.nombre, p.precio, ci.cantidad, p.precio * ci.cantidad
+  FROM public.carrito_items ci
+  JOIN public.productos p ON p.id = ci.producto_id
+  WHERE ci.carrito_id = v_carrito_id;
+
+  UPDATE public.productos p
+  SET cantidad_disponible = p.cantidad_disponible - pi.cantidad
+  FROM public.pedido_items pi
+  WHERE pi.pedido_id = v_pedido_id
+    AND pi.producto_id = p.id;
+
+  RETURN jsonb_build_object('success', true, 'pedido_id', v_pedido_id, 'numero', v_numero, 'total', v_total);
+END;
+$$;
+
+-- Every checkout looks up the session's unpaid order
+CREATE INDEX IF NOT EXISTS idx_pedidos_session_pendiente ON public.pedidos(session_id) WHERE estado = 'pendiente_pago';
@@ -0,0 +1,149 @@
+-- search_productos_page ran the whole search_productos result through a sort key and only then skipped to
+-- the cursor, so every page still read and ranked the entire match set, and relevance cursors were row
+-- positions that shifted whenever the catalog changed. Each sort is now a key over productos columns,
+-- ending in id, and the page is one query over productos: the filters, (key) after (cursor key), ORDER BY
+-- key and LIMIT p_limit + 1, so an index on the key serves it.
+--
+-- p_sort: relevance (default; search_productos order), price_asc, price_desc, name, newest, stock
+-- p_cursor: the nextCursor of the previous page, NULL for the first page
+-- Returns {"items": [productos rows], "nextCursor": {"sort": ..., "key": [values of the last row]} | null}
+--
+-- The filters are those of search_productos, which cannot be used here: the planner does not inline a
+-- function with its own search_path, so nothing past it could use an index. Relevance with a search term
+-- ranks by a score computed for the term, which no index can hold; the match set is small in that case.
+
+-- Composite keys for the sorts; the single-column indexes are their prefixes
+DROP INDEX IF EXISTS public.idx_productos_precio;
+DROP INDEX IF EXISTS public.idx_productos_categoria;
+CREATE INDEX idx_productos_precio_id ON public.productos(precio, id);
+CREATE INDEX idx_productos_categoria_nombre_id ON public.productos(categoria, nombre, id);
+CREATE INDEX idx_productos_nombre_lower_id ON public.productos(lower(nombre), id);
+CREATE INDEX idx_productos_created_at_id ON public.productos(created_at, id);
+CREATE INDEX idx_productos_cantidad_disponible_id ON public.productos(cantidad_disponible, id);
+
+CREATE OR REPLACE FUNCTION public.search_productos_page(
+  p_categoria TEXT DEFAULT NULL,
+  p_precio_min NUMERIC DEFAULT NULL,
+  p_precio_max NUMERIC DEFAULT NULL,
+  p_search_term TEXT DEFAULT NULL,
+  p_categorias TEXT[] DEFAULT NULL,
+  p_solo_en_stock BOOLEAN DEFAULT NULL,
+  p_sort TEXT DEFAULT 'relevance',
+  p_cursor JSONB DEFAULT NULL,
+  p_limit INTEGER DEFAULT 24
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SET search_path = public, extensions
+AS $$
+DECLARE
+  v_page_size INTEGER := LEAST(GREATEST(coalesce(p_limit, 24), 1), 100);
+  v_sort TEXT := CASE WHEN p_sort IN ('price_asc', 'price_desc', 'name', 'newest', 'stock') THEN p_sort ELSE 'relevance' END;
+  v_categoria TEXT := NULLIF(btrim(p_categoria), '');
+  v_categorias TEXT[] := NULLIF(array_remove(p_categorias, NULL), '{}');
+  v_term TEXT := lower(public.unaccent_immutable(NULLIF(btrim(p_search_term), '')));
+  v_words tsquery;
+  v_pattern TEXT;
+  -- Sort key: expressions over p and the type of each, for reading the cursor back
+  v_key TEXT[];
+  v_key_types TEXT[];
+  v_descending BOOLEAN := false;
+  v_cursor_key JSONB;
+  v_after TEXT;
+  v_order TEXT;
+  v_rows JSONB;
+BEGIN
+  IF v_term IS NOT NULL THEN
+    -- Any word may match; products matching more of them rank higher. NULL when the term only has stopwords
+    v_words := NULLIF(replace(plainto_tsquery('public.spanish_unaccent'::regconfig, v_term)::TEXT, ' & ', ' | '), '')::tsquery;
+    -- Search term is matched literally: LIKE wildcards typed by the shopper are escaped
+    v_pattern := '%' || replace(replace(replace(v_term, '\', '\\'), '%', '\%'), '_', '\_') || '%';
+  END IF;
+
+  CASE v_sort
+    WHEN 'price_asc', 'price_desc' THEN
+      v_key := ARRAY['p.precio', 'p.id'];
+      v_key_types := ARRAY['NUMERIC', 'UUID'];
+      v_descending := v_sort = 'price_desc';
+    WHEN 'name' THEN
+      v_key := ARRAY['lower(p.nombre)', 'p.id'];
+      v_key_types := ARRAY['TEXT', 'UUID'];
+    WHEN 'newest' THEN
+      v_key := ARRAY['p.created_at', 'p.id'];
+      v_key_types := ARRAY['TIMESTAMPTZ', 'UUID'];
+      v_descending := true;
+    WHEN 'stock' THEN
+      v_key := ARRAY['p.cantidad_disponible', 'p.id'];
+      v_key_types := ARRAY['INTEGER', 'UUID'];
+      v_descending := true;
+    ELSE
+      v_key := ARRAY['p.categoria', 'p.nombre', 'p.id'];
+      v_key_types := ARRAY['TEXT', 'TEXT', 'UUID'];
+      -- Best match first: the score is negated so the whole key still ascends
+      IF v_term IS NOT NULL THEN
+        v_key := ARRAY[
+          '-(coalesce(ts_rank_cd(public.producto_search_document(p.nombre, p.descripcion, p.categoria), $7), 0)'
+            || ' + word_similarity($6, public.producto_search_text(p.nombre, p.descripcion, p.categoria)))'
+        ] || v_key;
+        v_key_types := ARRAY['REAL'] || v_key_types;
+      END IF;
+  END CASE;
+
+  -- A cursor from another sort, or of another shape, starts over from the first page
+  IF p_cursor->>'sort' = v_sort
+     AND jsonb_typeof(p_cursor->'key') = 'array'
+     AND jsonb_array_length(p_cursor->'key') = array_length(v_key, 1) THEN
+    v_cursor_key := p_cursor->'key';
+    SELECT format('(%s) %s (%s)',
+      array_to_string(v_key, ', '),
+      CASE WHEN v_descending THEN '<' ELSE '>' END,
+      string_agg(format('($9->>%s)::%s', i - 1, v_key_types[i]), ', ' ORDER BY i))
+    INTO v_after
+    FROM generate_subscripts(v_key_types, 1) i;
+  END IF;
+
+  SELECT string_agg(k || CASE WHEN v_descending THEN ' DESC' ELSE '' END, ', ' ORDER BY i)
+  INTO v_order
+  FROM unnest(v_key) WITH ORDINALITY AS t(k, i);
+
+  -- One row more than a page tells whether there is a next page
+  EXECUTE format($query$
+    SELECT coalesce(jsonb_agg(jsonb_build_object('item', to_jsonb(p), 'key', jsonb_build_array(%1$s)) ORDER BY %2$s), '[]'::JSONB)
+    FROM (
+      SELECT p.*
+      FROM public.productos p
+      WHERE ($1 IS NULL OR p.categoria = $1)
+        AND ($2 IS NULL OR p.categoria = ANY($2))
+        AND ($3 IS NULL OR p.precio >= $3)
+        AND ($4 IS NULL OR p.precio <= $4)
+        AND ($5 IS NOT TRUE OR p.cantidad_disponible > 0)
+        AND (
+          $6 IS NULL
+          OR public.producto_search_document(p.nombre, p.descripcion, p.categoria) @@ $7
+          OR public.producto_search_text(p.nombre, p.descripcion, p.categoria) LIKE $8
+          -- Trigram word similarity above pg_trgm.word_similarity_threshold (0.6 by default)
+          OR $6 <%% public.producto_search_text(p.nombre, p.descripcion, p.categoria)
+        )
+        AND %3$s
+      ORDER BY %2$s
+      LIMIT $10
+    ) p
+  $query$, array_to_string(v_key, ', '), v_order, coalesce(v_after, 'true'))
+  INTO v_rows
+  USING v_categoria, v_categorias, p_precio_min, p_precio_max, p_solo_en_stock, v_term, v_words, v_pattern,
+    v_cursor_key, v_page_size + 1;
+
+  RETURN jsonb_build_object(
+    'items', coalesce((
+      SELECT jsonb_agg(r.value->'item' ORDER BY r.position)
+      FROM jsonb_array_elements(v_rows) WITH ORDINALITY AS r(value, position)
+      WHERE r.position <= v_page_size
+    ), '[]'::JSONB),
+    'nextCursor', CASE
+      WHEN jsonb_array_length(v_rows) > v_page_size
+        THEN jsonb_build_object('sort', v_sort, 'key', v_rows->(v_page_size - 1)->'key')
+    END
+  );
+END;
+$$;